@@ -0,0 +1,16 @@
+// Parsers interpret email times in the configured bank timezone, never the
+// host's. Run tests far from it so any host-local date handling shows up.
+process.env.TZ = 'Asia/Tokyo';
+
+/** @type {import('jest').Config} */
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  testMatch: ['**/__tests__/**/*.test.ts'],
+  transform: {
+    // Type checking is left to `npm run typecheck` (tsconfig.test.json, which
+    // also covers the tests); transpiling per file keeps memory low (the
+    // googleapis typings are huge).
+    '^.+\\.ts$': ['ts-jest', { tsconfig: { isolatedModules: true } }],
+  },
+};
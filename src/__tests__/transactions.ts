@@ -0,0 +1,22 @@
+import { Transaction } from '../types';
+
+/**
+ * A stored transaction for tests: a BHD purchase named after its id (which is
+ * also its email), with `overrides` on top
+ */
+export function transaction(id: string, overrides: Partial<Transaction> = {}): Transaction {
+  return {
+    id,
+    bank: 'BHD',
+    account: '1610',
+    date: '2025-11-08',
+    payee: id.toUpperCase(),
+    memo: '',
+    amount: 100,
+    currency: 'DOP',
+    direction: 'outflow',
+    rawMessageId: id,
+    rawThreadId: id,
+    ...overrides,
+  };
+}
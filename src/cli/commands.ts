@@ -1,87 +1,123 @@
-import { GmailClient } from '../gmail/client';
+import { createMailSource, fetchMessages, formatMailQuery, MailQuery, MailSource, MailSourceOptions } from '../mail';
 import { parserRegistry } from '../parsers/registry';
-import { db } from '../db';
-import { rulesEngine } from '../rules/engine';
-import { Transaction } from '../types';
+import { db, rowToTransaction } from '../db';
+import { saveTransaction, SYNCABLE_STATUS_SQL } from '../db/transactions';
+import { advanceCheckpoint, listMessagesToSync } from '../mail/checkpoint';
+import { countHeld, findHeld, listHeld, releaseHeld, skipHeld } from '../db/review';
+import { latestBalance, recordBalance, recordManualBalance } from '../db/balances';
+import { archiveMessage, getArchivedMessage, originalTransaction } from '../db/archive';
+import {
+  getUnparsed,
+  ignoreSender,
+  ignoreUnparsed,
+  listUnparsed,
+  loadIgnoredSenders,
+  recordUnparsed,
+  retryUnparsedMessages,
+  senderMatches,
+  UnparsedMessage,
+} from '../db/unparsed';
+import { MerchantRule, readRulesFile, ruleLabel, rulesEngine, RulesConfig, RulesEngine, RULES_PATH } from '../rules/engine';
+import { RuleIssue, validateRules } from '../rules/validate';
+import { MerchantMatch, merchantNormalizer } from '../rules/merchants';
+import type { LearningSample, RuleSuggestion } from '../rules/learn';
+import { GmailMessageData, Statement, Transaction } from '../types';
 import { subDays, format, parse, isBefore, isAfter } from 'date-fns';
 import { YNABClient } from '../ynab/client';
-import { loadYNABConfig } from '../config/ynab';
+import { loadYNABConfig, YNABConfig } from '../config/ynab';
 import { classifyError, formatError, AppError, ErrorType } from '../utils/errors';
 import { sendSyncNotification, SyncSummary } from '../utils/notifications';
 import { loadAccountsConfig } from '../config/ynab';
-
-const gmail = new GmailClient();
-
-function buildGmailQuery(days: number, minDate?: string): string {
-  let afterDate: string;
+import path from 'path';
+import readline from 'readline';
+import fs from 'fs-extra';
+import type { TransactionDetail } from 'ynab';
+import { ExchangeRateStore, RATES_FILE_PATH } from '../currency/rates';
+import type { Reconciliation } from '../statements/reconcile';
+import type { AccountReconciliation } from '../ynab/reconcile';
+import { DEFAULT_CURRENCY } from '../currency/codes';
+
+function buildMailQuery(days: number, minDate?: string): MailQuery {
+  let after: Date;
 
   if (minDate) {
     // Use the minimum date if provided, ensuring we don't go before it
     const minDateObj = parse(minDate, 'yyyy-MM-dd', new Date());
     const daysBackDate = subDays(new Date(), days);
     // Use whichever is more recent (closer to today)
-    afterDate = isAfter(minDateObj, daysBackDate)
-      ? format(minDateObj, 'yyyy/MM/dd')
-      : format(daysBackDate, 'yyyy/MM/dd');
+    after = isAfter(minDateObj, daysBackDate) ? minDateObj : daysBackDate;
   } else {
-    afterDate = format(subDays(new Date(), days), 'yyyy/MM/dd');
+    after = subDays(new Date(), days);
   }
 
   // Collect all search terms from registered parsers
+  // Gmail joins them with OR, e.g. after:2024/01/01 (from:bank1 OR from:bank2)
   const parsers = parserRegistry.getAllParsers();
   const searchTerms = parsers.flatMap(p => p.getSearchTerms());
 
-  // Join them with OR
-  // Example: after:2024/01/01 (from:bank1 OR from:bank2)
-  const combinedTerms = searchTerms.length > 0
-    ? `(${searchTerms.join(' OR ')})`
-    : '';
+  return { after, searchTerms };
+}
 
-  return `after:${afterDate} ${combinedTerms}`.trim();
+/**
+ * What every parsed transaction goes through before it is saved: merchant
+ * normalization (merchants.json), then rules (rules.json)
+ */
+function normalizeTransaction(transaction: Transaction): Transaction {
+  return rulesEngine.apply(merchantNormalizer.apply(transaction));
 }
 
-export async function sync(options: { days?: number; minDate?: string } = {}) {
+/**
+ * Open the configured (or requested) mail source, exiting if it can't be
+ * initialized, and run a command with it. The source is closed afterwards
+ * (IMAP keeps a connection open).
+ */
+async function withMailSource(options: MailSourceOptions, run: (mail: MailSource) => Promise<void>) {
+  let mail: MailSource;
   try {
-    await gmail.init();
+    mail = createMailSource(options);
+    await mail.init();
   } catch (error: any) {
-    console.error('Failed to initialize Gmail client:', error.message);
+    console.error('Failed to initialize mail source:', error.message);
     process.exit(1);
   }
 
-  const days = options.days;
-
-  // Check for last sync date in DB
-  const lastSync = db.prepare('SELECT MAX(processed_at) as last_sync FROM processed_messages').get() as { last_sync: string | null };
-  console.log('Last sync check:', lastSync);
-
-  let lookbackDays = 30; // Default
-
-  if (days) {
-      lookbackDays = days;
-  } else if (!lastSync || !lastSync.last_sync) {
-     console.log('First run detected (no prior sync history). Syncing last 6 months (180 days)...');
-     lookbackDays = 180;
-  } else {
-      // If we have synced before, just look back 7 days to cover any delays or missed items,
-      // deduplication will handle the rest.
-      console.log(`Last sync was ${lastSync.last_sync}. Scanning last 30 days to ensure coverage...`);
-      lookbackDays = 30;
+  try {
+    await run(mail);
+  } finally {
+    await mail.close();
   }
+}
 
-  const query = buildGmailQuery(lookbackDays, options.minDate);
-
-  console.log(`Searching for emails with query: ${query}`);
-  if (options.minDate) {
-    console.log(`Note: Only processing transactions from ${options.minDate} onwards`);
+/**
+ * Print issues parsers reported during a run (e.g. transfers to accounts missing from accounts.json)
+ */
+function printParserIssues() {
+  const issues = parserRegistry.takeIssues();
+  if (issues.length === 0) return;
+
+  const unknownAccounts = [...new Set(
+    issues.filter(i => i.type === 'unknown_own_account').map(i => `${i.parser} ${i.account}`)
+  )];
+
+  if (unknownAccounts.length > 0) {
+    console.warn(`\n⚠️  Found transfers involving your own accounts that are not configured:`);
+    unknownAccounts.forEach(account => console.warn(`   - ${account}`));
+    console.warn('   Add them to accountMappings in accounts.json (with "bank" and "aliases" if needed),');
+    console.warn('   then run: npm start retry-ynab');
   }
-  const messages = await gmail.listMessages(query);
-  console.log(`Found ${messages.length} messages.`);
+}
 
-  const insertTx = db.prepare(`
-    INSERT OR IGNORE INTO transactions (id, bank, account, date, payee, memo, amount, currency, direction, raw_message_id, raw_thread_id)
-    VALUES (@id, @bank, @account, @date, @payee, @memo, @amount, @currency, @direction, @rawMessageId, @rawThreadId)
-  `);
+interface YNABPushStats {
+  synced: number;
+  errors: number;
+  errorBreakdown: Record<string, number>;
+}
 
+/**
+ * Push transactions to YNAB and record the outcome of each one in the database.
+ * If the batch fails with a retryable error, falls back to one request per transaction.
+ */
+async function pushToYNAB(transactions: Transaction[], ynabClient: YNABClient, ynabConfig: YNABConfig): Promise<YNABPushStats> {
   const updateYNABSync = db.prepare(`
     UPDATE transactions
     SET ynab_transaction_id = @ynabId,
@@ -102,30 +138,258 @@ export async function sync(options: { days?: number; minDate?: string } = {}) {
     WHERE id = @id
   `);
 
+  let syncResults: Map<string, string>;
+  let syncErrors: Map<string, AppError> = new Map();
+
+  try {
+    const batch = await ynabClient.createTransactions(transactions);
+    syncResults = batch.results;
+    syncErrors = batch.errors;
+  } catch (error: any) {
+    const appError = classifyError(error, {
+      transactionCount: transactions.length,
+    });
+
+    // If it's a batch error, try individual transactions
+    if (appError.retryable && transactions.length > 1) {
+      console.warn('Batch sync failed, attempting individual transactions...');
+      syncResults = new Map();
+
+      for (const transaction of transactions) {
+        try {
+          const ynabId = await ynabClient.createTransaction(transaction);
+          if (ynabId) {
+            syncResults.set(transaction.id, ynabId);
+          }
+        } catch (txError: any) {
+          const txAppError = classifyError(txError, {
+            transactionId: transaction.id,
+            payee: transaction.payee,
+          });
+          syncErrors.set(transaction.id, txAppError);
+        }
+      }
+    } else {
+      // Non-retryable error or single transaction - mark all as failed
+      transactions.forEach(tx => {
+        syncErrors.set(tx.id, appError);
+      });
+      syncResults = new Map();
+    }
+  }
+
+  const stats: YNABPushStats = { synced: 0, errors: 0, errorBreakdown: {} };
+
+  for (const transaction of transactions) {
+    const ynabId = syncResults.get(transaction.id);
+    if (ynabId) {
+      updateYNABSync.run({ id: transaction.id, ynabId });
+      stats.synced++;
+      continue;
+    }
+
+    // Check if we have an error for this transaction
+    const error = syncErrors.get(transaction.id);
+
+    if (error) {
+      updateYNABError.run({
+        id: transaction.id,
+        error: formatError(error),
+        errorType: error.type,
+      });
+      stats.errorBreakdown[error.type] = (stats.errorBreakdown[error.type] || 0) + 1;
+      stats.errors++;
+    } else {
+      // Check if it's missing account mapping
+      const accountId = ynabConfig.accountMappings[transaction.account || ''];
+      if (!accountId) {
+        const mappingError = classifyError(
+          new Error(`No YNAB account mapping for bank account: ${transaction.account}`),
+          { account: transaction.account }
+        );
+        updateYNABError.run({
+          id: transaction.id,
+          error: mappingError.message,
+          errorType: ErrorType.CONFIGURATION_ERROR,
+        });
+        stats.errorBreakdown[ErrorType.CONFIGURATION_ERROR] = (stats.errorBreakdown[ErrorType.CONFIGURATION_ERROR] || 0) + 1;
+        stats.errors++;
+      }
+    }
+  }
+
+  return stats;
+}
+
+/**
+ * Refresh exchange rates from exchange-rates.json (if present) before converting
+ * foreign-currency transactions. A bad rates file doesn't stop the sync; affected
+ * transactions are held with EXCHANGE_RATE_MISSING instead.
+ */
+function loadExchangeRates() {
+  if (!fs.existsSync(RATES_FILE_PATH)) return;
+  try {
+    new ExchangeRateStore().importFile(RATES_FILE_PATH);
+  } catch (error: any) {
+    console.warn(`Failed to load exchange rates from ${path.basename(RATES_FILE_PATH)}: ${error.message}`);
+  }
+}
+
+/**
+ * Apply lifecycle changes queued on already-synced transactions
+ * (authorizations that posted, purchases reversed or declined).
+ * Failed actions stay queued for the next sync.
+ *
+ * The YNAB API can't edit subtransactions, so split transactions are deleted
+ * and left unsynced instead of updated; the push that follows creates them again.
+ */
+async function applyPendingYNABActions(ynabClient: YNABClient): Promise<{ updated: number; deleted: number; recreated: number; errors: number }> {
+  const pending = db.prepare(`
+    SELECT * FROM transactions
+    WHERE ynab_pending_action IS NOT NULL AND ynab_transaction_id IS NOT NULL
+    ORDER BY date ASC, created_at ASC
+  `).all() as any[];
+
+  const clearAction = db.prepare(`UPDATE transactions SET ynab_pending_action = NULL WHERE id = ?`);
+  const markDeleted = db.prepare(`
+    UPDATE transactions SET ynab_pending_action = NULL, ynab_transaction_id = NULL WHERE id = ?
+  `);
+  const markUnsynced = db.prepare(`
+    UPDATE transactions
+    SET ynab_pending_action = NULL, ynab_transaction_id = NULL, ynab_synced_at = NULL, ynab_sync_error = NULL,
+        ynab_import_revision = ynab_import_revision + 1, ynab_import_id = NULL
+    WHERE id = ?
+  `);
+
+  const deleteFromYNAB = async (ynabId: string) => {
+    try {
+      await ynabClient.deleteTransaction(ynabId);
+    } catch (error: any) {
+      // Already deleted by hand in YNAB
+      if (!(error instanceof AppError && error.type === ErrorType.NOT_FOUND)) throw error;
+    }
+  };
+
+  const counts = { updated: 0, deleted: 0, recreated: 0, errors: 0 };
+
+  for (const row of pending) {
+    const transaction = rowToTransaction(row);
+    try {
+      if (row.ynab_pending_action === 'delete') {
+        await deleteFromYNAB(row.ynab_transaction_id);
+        markDeleted.run(row.id);
+        counts.deleted++;
+      } else if (row.ynab_pending_action === 'recreate' || transaction.splits?.length) {
+        await deleteFromYNAB(row.ynab_transaction_id);
+        markUnsynced.run(row.id);
+        counts.recreated++;
+      } else {
+        await ynabClient.updateTransaction(row.ynab_transaction_id, transaction);
+        clearAction.run(row.id);
+        counts.updated++;
+      }
+    } catch (error: any) {
+      const appError = classifyError(error, { transactionId: row.id, action: row.ynab_pending_action });
+      console.error(`Failed to ${row.ynab_pending_action} YNAB transaction for ${transaction.payee}:`, formatError(appError));
+      counts.errors++;
+    }
+  }
+
+  if (pending.length > 0) {
+    console.log(`YNAB lifecycle updates: ${counts.updated} updated, ${counts.deleted} deleted, ${counts.recreated} to re-create, ${counts.errors} failed`);
+  }
+
+  return counts;
+}
+
+function printErrorBreakdown(stats: YNABPushStats) {
+  if (stats.errors > 0 && Object.keys(stats.errorBreakdown).length > 0) {
+    console.log(`  Error breakdown:`);
+    Object.entries(stats.errorBreakdown).forEach(([type, count]) => {
+      console.log(`    ${type}: ${count}`);
+    });
+  }
+}
+
+/**
+ * @param options.source / options.path Read from another mail source (see createMailSource)
+ */
+export async function sync(options: { days?: number; minDate?: string } & MailSourceOptions = {}) {
+  await withMailSource(options, mail => syncFrom(mail, options));
+}
+
+async function syncFrom(mail: MailSource, options: { days?: number; minDate?: string }) {
+  const days = options.days;
+
+  // Check for last sync date in DB
+  const lastSync = db.prepare('SELECT MAX(processed_at) as last_sync FROM processed_messages').get() as { last_sync: string | null };
+  console.log('Last sync check:', lastSync);
+
+  let lookbackDays = 30; // Default
+
+  if (days) {
+      lookbackDays = days;
+  } else if (!lastSync || !lastSync.last_sync) {
+     console.log('First run detected (no prior sync history). Syncing last 6 months (180 days)...');
+     lookbackDays = 180;
+  } else {
+      // If we have synced before, just look back 7 days to cover any delays or missed items,
+      // deduplication will handle the rest.
+      console.log(`Last sync was ${lastSync.last_sync}. Lookback window: 30 days.`);
+      lookbackDays = 30;
+  }
+
+  const query = buildMailQuery(lookbackDays, options.minDate);
+
+  if (options.minDate) {
+    console.log(`Note: Only processing transactions from ${options.minDate} onwards`);
+  }
+  // An explicit --days always scans the whole window
+  const { messageIds: messages, checkpoint } = await listMessagesToSync(mail, query, !!days);
+  console.log(`Found ${messages.length} messages.`);
+
   const getUnsyncedTransactions = db.prepare(`
     SELECT * FROM transactions
-    WHERE ynab_synced_at IS NULL AND ynab_sync_error IS NULL
+    WHERE ynab_synced_at IS NULL AND ynab_sync_error IS NULL AND ynab_hold IS NULL
+      AND status IN (${SYNCABLE_STATUS_SQL})
     ORDER BY date ASC, created_at ASC
   `);
 
   const insertProcessed = db.prepare(`INSERT OR IGNORE INTO processed_messages (message_id) VALUES (?)`);
   const checkProcessed = db.prepare(`SELECT 1 FROM processed_messages WHERE message_id = ?`);
-  const insertUnparsed = db.prepare(`
-    INSERT OR REPLACE INTO unparsed_messages (message_id, reason, subject, date, attempts)
-    VALUES (@id, @reason, @subject, @date, COALESCE((SELECT attempts FROM unparsed_messages WHERE message_id = @id), 0) + 1)
-  `);
+  const ignoredSenders = loadIgnoredSenders();
 
   let newCount = 0;
+  let lifecycleCount = 0;
   let processedCount = 0;
   let errorCount = 0;
 
-  for (const msgSummary of messages) {
-    if (checkProcessed.get(msgSummary.id)) {
+  const pending = messages.filter(messageId => !checkProcessed.get(messageId));
+  const { messages: fetched, rejected } = await fetchMessages(mail, pending, {
+    prefilter: message => parserRegistry.findParser(message) !== undefined,
+  });
+
+  // Listed but neither fetched nor saved: kept for the next sync (see advanceCheckpoint)
+  const handled = new Set([...fetched, ...rejected].map(message => message.id));
+  const unfinished = pending.filter(messageId => !handled.has(messageId));
+
+  for (const header of rejected) {
+    if (senderMatches(header.from, ignoredSenders)) {
+      insertProcessed.run(header.id);
+    } else {
+      recordUnparsed(header, 'No parser matched');
+    }
+  }
+
+  for (const fullMsg of fetched) {
+    // Promotions and other mail from senders the user chose to ignore
+    if (senderMatches(fullMsg.from, ignoredSenders)) {
+      insertProcessed.run(fullMsg.id);
       continue;
     }
 
-    const fullMsg = await gmail.getMessage(msgSummary.id!);
-    if (!fullMsg) continue;
+    // Kept so `reparse` can rerun improved parsers without fetching it again
+    archiveMessage(fullMsg, mail.name);
 
     const parser = parserRegistry.findParser(fullMsg);
     if (parser) {
@@ -142,13 +406,15 @@ export async function sync(options: { days?: number; minDate?: string } = {}) {
           }
         }
 
-        const normalized = rulesEngine.apply(transaction);
+        const normalized = normalizeTransaction(transaction);
         try {
-            // Check if transaction ID exists? Schema has PK on id.
-            // insertTx is INSERT OR IGNORE, so duplicates are skipped.
-            const info = insertTx.run(normalized);
-            if (info.changes > 0) {
+            // Duplicates are skipped; repeated notifications for the same purchase
+            // may move it along its lifecycle (authorized -> posted, reversed...)
+            const { outcome } = saveTransaction(normalized);
+            if (outcome === 'inserted') {
                 newCount++;
+            } else if (outcome === 'status_changed' || outcome === 'reversal_linked') {
+                lifecycleCount++;
             }
             insertProcessed.run(fullMsg.id);
             processedCount++;
@@ -159,51 +425,52 @@ export async function sync(options: { days?: number; minDate?: string } = {}) {
               amount: normalized.amount,
             });
             console.error(`Error saving transaction ${normalized.id}:`, formatError(error));
+            unfinished.push(fullMsg.id);
             errorCount++;
         }
       } else {
-         insertUnparsed.run({
-             id: fullMsg.id,
-             reason: 'Parser returned null',
-             subject: fullMsg.subject,
-             date: fullMsg.date.toISOString()
-         });
+         recordUnparsed(fullMsg, 'Parser returned null');
          errorCount++;
       }
     } else {
-        // No parser found - store as unparsed? Or ignore?
-        // Maybe only store if it looks like a bank email?
-        // For now, assume filters in Gmail search query handle "bank-like" emails,
-        // so if we fetched it but can't parse it, it's notable.
-        insertUnparsed.run({
-            id: fullMsg.id,
-            reason: 'No parser matched',
-            subject: fullMsg.subject,
-            date: fullMsg.date.toISOString()
-        });
-        // We don't mark as processed so we retry later if we add a parser?
-        // Or we mark as processed so we don't fetch again every time?
-        // Let's NOT mark as processed in `processed_messages` if we want to retry.
-        // But then sync matches it every time.
-        // Better to mark as processed/checked.
-        // But `unparsed_messages` table acts as the record.
+        // The search terms only match bank senders, so an email no parser
+        // claims is notable. Queued (and not fetched again) until `unparsed retry`.
+        recordUnparsed(fullMsg, 'No parser matched');
     }
   }
 
+  advanceCheckpoint(mail, checkpoint, unfinished);
+
+  printParserIssues();
+
   console.log(`Sync complete.`);
   console.log(`Processed: ${processedCount}`);
   console.log(`New Transactions: ${newCount}`);
+  console.log(`Status Changes: ${lifecycleCount}`);
   console.log(`Unparsed/Errors: ${errorCount}`);
+  const held = countHeld();
+  if (held > 0) {
+    console.log(`Held for review: ${held} (see "review list")`);
+  }
+
+  // Sync new transactions (and lifecycle changes, including ones queued by
+  // earlier runs or migrations) to YNAB
+  const pendingActions = db.prepare(`
+    SELECT COUNT(*) as count FROM transactions
+    WHERE ynab_pending_action IS NOT NULL AND ynab_transaction_id IS NOT NULL
+  `).get() as { count: number };
 
-  // Sync new transactions to YNAB
-  if (newCount > 0) {
+  if (newCount > 0 || lifecycleCount > 0 || pendingActions.count > 0) {
     console.log('\nSyncing transactions to YNAB...');
     try {
       const ynabConfig = loadYNABConfig();
       const ynabClient = new YNABClient(ynabConfig);
 
+      loadExchangeRates();
+      await applyPendingYNABActions(ynabClient);
+
       // Filter unsynced transactions by minimum date if specified
-      let unsynced = getUnsyncedTransactions.all() as Transaction[];
+      let unsynced = getUnsyncedTransactions.all().map(rowToTransaction);
 
       if (options.minDate) {
         const minDate = parse(options.minDate, 'yyyy-MM-dd', new Date());
@@ -216,94 +483,12 @@ export async function sync(options: { days?: number; minDate?: string } = {}) {
       if (unsynced.length > 0) {
         console.log(`Found ${unsynced.length} unsynced transactions. Syncing to YNAB...`);
 
-        let syncResults: Map<string, string>;
-        let syncErrors: Map<string, AppError> = new Map();
-
-        try {
-          syncResults = await ynabClient.createTransactions(unsynced);
-        } catch (error: any) {
-          const appError = classifyError(error, {
-            transactionCount: unsynced.length,
-          });
-
-          // If it's a batch error, try individual transactions
-          if (appError.retryable && unsynced.length > 1) {
-            console.warn('Batch sync failed, attempting individual transactions...');
-            syncResults = new Map();
-
-            for (const transaction of unsynced) {
-              try {
-                const ynabId = await ynabClient.createTransaction(transaction);
-                if (ynabId) {
-                  syncResults.set(transaction.id, ynabId);
-                }
-              } catch (txError: any) {
-                const txAppError = classifyError(txError, {
-                  transactionId: transaction.id,
-                  payee: transaction.payee,
-                });
-                syncErrors.set(transaction.id, txAppError);
-              }
-            }
-          } else {
-            // Non-retryable error or single transaction - mark all as failed
-            unsynced.forEach(tx => {
-              syncErrors.set(tx.id, appError);
-            });
-            syncResults = new Map();
-          }
-        }
-
-        let syncedCount = 0;
-        let errorCount = 0;
-        const errorBreakdown: Record<string, number> = {};
-
-        for (const transaction of unsynced) {
-          const ynabId = syncResults.get(transaction.id);
-          if (ynabId) {
-            updateYNABSync.run({ id: transaction.id, ynabId });
-            syncedCount++;
-          } else {
-            // Check if we have an error for this transaction
-            const error = syncErrors.get(transaction.id);
-
-            if (error) {
-              updateYNABError.run({
-                id: transaction.id,
-                error: formatError(error),
-                errorType: error.type,
-              });
-              errorBreakdown[error.type] = (errorBreakdown[error.type] || 0) + 1;
-              errorCount++;
-            } else {
-              // Check if it's missing account mapping
-              const accountId = ynabConfig.accountMappings[transaction.account || ''];
-              if (!accountId) {
-                const mappingError = classifyError(
-                  new Error(`No YNAB account mapping for bank account: ${transaction.account}`),
-                  { account: transaction.account }
-                );
-                updateYNABError.run({
-                  id: transaction.id,
-                  error: mappingError.message,
-                  errorType: ErrorType.CONFIGURATION_ERROR,
-                });
-                errorBreakdown[ErrorType.CONFIGURATION_ERROR] = (errorBreakdown[ErrorType.CONFIGURATION_ERROR] || 0) + 1;
-                errorCount++;
-              }
-            }
-          }
-        }
+        const stats = await pushToYNAB(unsynced, ynabClient, ynabConfig);
 
         console.log(`YNAB Sync complete:`);
-        console.log(`  Synced: ${syncedCount}`);
-        console.log(`  Errors: ${errorCount}`);
-        if (errorCount > 0 && Object.keys(errorBreakdown).length > 0) {
-          console.log(`  Error breakdown:`);
-          Object.entries(errorBreakdown).forEach(([type, count]) => {
-            console.log(`    ${type}: ${count}`);
-          });
-        }
+        console.log(`  Synced: ${stats.synced}`);
+        console.log(`  Errors: ${stats.errors}`);
+        printErrorBreakdown(stats);
 
         // Send email notification if configured
         try {
@@ -313,9 +498,9 @@ export async function sync(options: { days?: number; minDate?: string } = {}) {
               processed: processedCount,
               newTransactions: newCount,
               errors: errorCount,
-              syncedToYNAB: syncedCount,
-              ynabErrors: errorCount,
-              errorBreakdown: Object.keys(errorBreakdown).length > 0 ? errorBreakdown : undefined,
+              syncedToYNAB: stats.synced,
+              ynabErrors: stats.errors,
+              errorBreakdown: Object.keys(stats.errorBreakdown).length > 0 ? stats.errorBreakdown : undefined,
             };
             await sendSyncNotification(summary, accountsConfig.notifications.email);
           }
@@ -351,30 +536,27 @@ export async function sync(options: { days?: number; minDate?: string } = {}) {
   }
 }
 
-export async function dryRun(options: { days?: number; minDate?: string }) {
-  try {
-    await gmail.init();
-  } catch (error: any) {
-    console.error('Failed to initialize Gmail client:', error.message);
-    process.exit(1);
-  }
+export async function dryRun(options: { days?: number; minDate?: string } & MailSourceOptions) {
+  await withMailSource(options, mail => dryRunFrom(mail, options));
+}
+
+async function dryRunFrom(mail: MailSource, options: { days?: number; minDate?: string }) {
   const days = options.days || 30;
-  const query = buildGmailQuery(days, options.minDate);
+  const query = buildMailQuery(days, options.minDate);
 
-  console.log(`[Dry Run] Searching for emails with query: ${query}`);
+  console.log(`[Dry Run] Searching ${mail.name} for emails with query: ${formatMailQuery(query)}`);
   if (options.minDate) {
     console.log(`[Dry Run] Note: Only showing transactions from ${options.minDate} onwards`);
   }
-  const messages = await gmail.listMessages(query);
+  const messages = await mail.listMessageIds(query);
   console.log(`Found ${messages.length} messages.`);
 
   let shownCount = 0;
   let skippedCount = 0;
 
-  for (const msgSummary of messages) {
-     const fullMsg = await gmail.getMessage(msgSummary.id!);
-     if (!fullMsg) continue;
+  const { messages: fetched } = await fetchMessages(mail, messages);
 
+  for (const fullMsg of fetched) {
      const parser = parserRegistry.findParser(fullMsg);
      if (parser) {
          const t = parser.parse(fullMsg);
@@ -389,26 +571,39 @@ export async function dryRun(options: { days?: number; minDate?: string }) {
                }
              }
 
-             const n = rulesEngine.apply(t);
-             console.log(`[MATCH] ${parser.name}: ${n.date} - ${n.payee} - ${n.currency} ${n.amount} (Account: ${n.account || 'N/A'})`);
+             const n = normalizeTransaction(t);
+             const accountLabel = n.transferAccount ? `${n.account} → ${n.transferAccount}` : n.account || 'N/A';
+             const statusLabel = n.status && n.status !== 'posted' ? ` [${n.status}]` : '';
+             const categoryLabel = n.category ? ` -> ${n.category}` : '';
+             const actions = [n.ynabHold, n.unapproved && 'unapproved', n.flag && `flag: ${n.flag}`].filter(Boolean);
+             const actionLabel = actions.length > 0 ? ` {${actions.join(', ')}}` : '';
+             console.log(`[MATCH] ${parser.name}: ${n.date} - ${n.payee} - ${n.currency} ${n.amount} (Account: ${accountLabel})${statusLabel}${categoryLabel}${actionLabel}`);
+             for (const split of n.splits || []) {
+               console.log(`          split: ${n.currency} ${split.amount.toFixed(2)}${split.category ? ` -> ${split.category}` : ''}${split.memo ? ` (${split.memo})` : ''}`);
+             }
              shownCount++;
          } else {
              console.log(`[FAIL] ${parser.name} could not parse: ${fullMsg.subject}`);
-             // debug
-             console.log('--- Body Preview (Plain) ---');
-             console.log(fullMsg.plainBody ? fullMsg.plainBody.substring(0, 500) : '[EMPTY]');
-             console.log('--- Body Preview (HTML) ---');
-             console.log(fullMsg.htmlBody ? fullMsg.htmlBody.substring(0, 500) : '[EMPTY]');
-             console.log('--------------------');
+             printBodyPreview(fullMsg);
          }
      } else {
          console.log(`[SKIP] No parser for: ${fullMsg.subject} (From: ${fullMsg.from})`);
      }
   }
 
+  printParserIssues();
+
   console.log(`\n[Dry Run] Summary: ${shownCount} transactions shown, ${skippedCount} skipped (before minDate)`);
 }
 
+function printBodyPreview(message: GmailMessageData) {
+  console.log('--- Body Preview (Plain) ---');
+  console.log(message.plainBody ? message.plainBody.substring(0, 500) : '[EMPTY]');
+  console.log('--- Body Preview (HTML) ---');
+  console.log(message.htmlBody ? message.htmlBody.substring(0, 500) : '[EMPTY]');
+  console.log('--------------------');
+}
+
 export async function setupYNAB() {
   const { createYNABConfigTemplate } = await import('../config/ynab');
   createYNABConfigTemplate();
@@ -467,6 +662,35 @@ export async function listYNABAccounts() {
   }
 }
 
+/**
+ * List the budget's categories, as rules can name them
+ */
+export async function listYNABCategories(options: { all?: boolean } = {}) {
+  try {
+    const ynabConfig = loadYNABConfig();
+    const ynabClient = new YNABClient(ynabConfig);
+
+    const groups = await ynabClient.getCategoryGroups();
+    console.log(`\nCategories in Budget "${ynabConfig.budgetId}":`);
+    for (const group of groups) {
+      if (group.deleted || (group.hidden && !options.all)) continue;
+      const categories = group.categories.filter(category => !category.deleted && (options.all || !category.hidden));
+      if (categories.length === 0) continue;
+
+      console.log(`\n${group.name}${group.hidden ? ' (hidden)' : ''}`);
+      for (const category of categories) {
+        console.log(`  ${category.name}${category.hidden ? ' (hidden)' : ''}  [${category.id}]`);
+      }
+    }
+    console.log('\nUse these names as "category" in rules.json ("Group: Category" when a name appears in more than one group).');
+  } catch (error: any) {
+    console.error('Failed to fetch categories:', error?.message || error);
+    if (error?.message?.includes('not found')) {
+      console.log('\nPlease run: npm start setup-ynab');
+    }
+  }
+}
+
 /**
  * Create a test transaction in YNAB
  *
@@ -556,33 +780,18 @@ export async function retryYNABSync() {
     const ynabConfig = loadYNABConfig();
     const ynabClient = new YNABClient(ynabConfig);
 
+    loadExchangeRates();
+    await applyPendingYNABActions(ynabClient);
+
     const getFailedSyncs = db.prepare(`
       SELECT * FROM transactions
-      WHERE ynab_synced_at IS NULL OR ynab_sync_error IS NOT NULL
+      WHERE (ynab_synced_at IS NULL OR ynab_sync_error IS NOT NULL)
+        AND ynab_hold IS NULL
+        AND status IN (${SYNCABLE_STATUS_SQL})
       ORDER BY date ASC, created_at ASC
     `);
 
-    const updateYNABSyncRetry = db.prepare(`
-      UPDATE transactions
-      SET ynab_transaction_id = @ynabId,
-          ynab_synced_at = CURRENT_TIMESTAMP,
-          ynab_sync_error = NULL,
-          ynab_sync_error_type = NULL,
-          ynab_sync_retry_count = 0
-      WHERE id = @id
-    `);
-
-    const updateYNABErrorRetry = db.prepare(`
-      UPDATE transactions
-      SET ynab_sync_error = @error,
-          ynab_sync_error_type = @errorType,
-          ynab_sync_retry_count = COALESCE(ynab_sync_retry_count, 0) + 1,
-          ynab_sync_last_retry = CURRENT_TIMESTAMP,
-          ynab_synced_at = CURRENT_TIMESTAMP
-      WHERE id = @id
-    `);
-
-    const failed = getFailedSyncs.all() as Transaction[];
+    const failed = getFailedSyncs.all().map(rowToTransaction);
 
     if (failed.length === 0) {
       console.log('No failed transactions to retry.');
@@ -591,99 +800,1070 @@ export async function retryYNABSync() {
 
     console.log(`Found ${failed.length} transactions to retry syncing to YNAB...`);
 
-    let syncResults: Map<string, string>;
-    let syncErrors: Map<string, AppError> = new Map();
+    const stats = await pushToYNAB(failed, ynabClient, ynabConfig);
 
-    try {
-      syncResults = await ynabClient.createTransactions(failed);
-    } catch (error: any) {
-      const appError = classifyError(error, {
-        transactionCount: failed.length,
-      });
+    console.log(`Retry complete:`);
+    console.log(`  Synced: ${stats.synced}`);
+    console.log(`  Still failed: ${stats.errors}`);
+    printErrorBreakdown(stats);
+  } catch (error: any) {
+    const appError = classifyError(error);
+    console.error('Failed to retry YNAB sync:', formatError(appError));
+    if (appError.context) {
+      console.error('Context:', JSON.stringify(appError.context, null, 2));
+    }
+  }
+}
 
-      // If batch fails and error is retryable, try individual transactions
-      if (appError.retryable && failed.length > 1) {
-        console.warn('Batch retry failed, attempting individual transactions...');
-        syncResults = new Map();
+/**
+ * Report (and with --apply, fix) stored transactions whose date changes with
+ * timezone-aware parsing. Re-fetches each transaction's email from the mail source.
+ */
+export async function migrateDates(options: { since?: string; apply?: boolean } & MailSourceOptions = {}) {
+  await withMailSource(options, mail => migrateDatesFrom(mail, options));
+}
 
-        for (const transaction of failed) {
-          try {
-            const ynabId = await ynabClient.createTransaction(transaction);
-            if (ynabId) {
-              syncResults.set(transaction.id, ynabId);
-            }
-          } catch (txError: any) {
-            const txAppError = classifyError(txError, {
-              transactionId: transaction.id,
-              payee: transaction.payee,
-            });
-            syncErrors.set(transaction.id, txAppError);
-          }
-        }
-      } else {
-        // Non-retryable error - mark all as failed
-        failed.forEach(tx => {
-          syncErrors.set(tx.id, appError);
-        });
-        syncResults = new Map();
-      }
-    }
+async function migrateDatesFrom(mail: MailSource, options: { since?: string; apply?: boolean }) {
+  const { planDateMigration, applyDateMigration } = await import('../db/migrations');
 
-    let syncedCount = 0;
-    let stillFailed = 0;
-    const errorBreakdown: Record<string, number> = {};
+  console.log(`Re-parsing stored transactions${options.since ? ` from ${options.since}` : ''} in ${parserRegistry.context.timezone}...`);
+  const plan = await planDateMigration(id => mail.getMessage(id), parserRegistry, { since: options.since });
 
-    for (const transaction of failed) {
-      const ynabId = syncResults.get(transaction.id);
-      if (ynabId) {
-        updateYNABSyncRetry.run({ id: transaction.id, ynabId });
-        syncedCount++;
-      } else {
-        const error = syncErrors.get(transaction.id);
+  for (const change of plan.changes) {
+    const synced = change.syncedToYNAB ? ' (in YNAB, will be updated)' : '';
+    console.log(`  ${change.storedDate} -> ${change.newDate}  ${change.bank} ${change.payee} ${change.currency} ${change.amount}${synced}`);
+  }
 
-        if (error) {
-          updateYNABErrorRetry.run({
-            id: transaction.id,
-            error: formatError(error),
-            errorType: error.type,
-          });
-          errorBreakdown[error.type] = (errorBreakdown[error.type] || 0) + 1;
-          stillFailed++;
-        } else {
-          // Check for missing account mapping
-          const accountId = ynabConfig.accountMappings[transaction.account || ''];
-          if (!accountId) {
-            const mappingError = classifyError(
-              new Error(`No YNAB account mapping for bank account: ${transaction.account}`),
-              { account: transaction.account }
-            );
-            updateYNABErrorRetry.run({
-              id: transaction.id,
-              error: mappingError.message,
-              errorType: ErrorType.CONFIGURATION_ERROR,
-            });
-            errorBreakdown[ErrorType.CONFIGURATION_ERROR] = (errorBreakdown[ErrorType.CONFIGURATION_ERROR] || 0) + 1;
-            stillFailed++;
-          }
-        }
-      }
-    }
+  console.log(`\nChecked: ${plan.checked}`);
+  console.log(`Date changes: ${plan.changes.length}`);
+  console.log(`Timestamps to backfill: ${plan.timestamps.length}`);
+  if (plan.unavailable.length > 0) {
+    console.log(`Could not re-parse: ${plan.unavailable.length} (email missing or no longer parseable)`);
+  }
 
-    console.log(`Retry complete:`);
-    console.log(`  Synced: ${syncedCount}`);
-    console.log(`  Still failed: ${stillFailed}`);
-    if (stillFailed > 0 && Object.keys(errorBreakdown).length > 0) {
-      console.log(`  Error breakdown:`);
-      Object.entries(errorBreakdown).forEach(([type, count]) => {
-        console.log(`    ${type}: ${count}`);
-      });
+  if (!options.apply) {
+    if (plan.changes.length > 0 || plan.timestamps.length > 0) {
+      console.log('\nNothing was changed. Run again with --apply to update these transactions.');
     }
-  } catch (error: any) {
-    const appError = classifyError(error);
-    console.error('Failed to retry YNAB sync:', formatError(appError));
-    if (appError.context) {
-      console.error('Context:', JSON.stringify(appError.context, null, 2));
+    return;
+  }
+
+  applyDateMigration(plan);
+  console.log(`\nUpdated ${plan.changes.length} dates and ${plan.timestamps.length} timestamps.`);
+  if (plan.changes.some(change => change.syncedToYNAB)) {
+    console.log('Transactions already in YNAB will be updated on the next sync.');
+  }
+}
+
+/**
+ * Rewrite transaction ids from fingerprint v1 to v2 (report only unless --apply).
+ * Re-fetches each transaction's email from the mail source to compute the new id.
+ */
+export async function migrateFingerprints(options: { since?: string; apply?: boolean } & MailSourceOptions = {}) {
+  await withMailSource(options, mail => migrateFingerprintsFrom(mail, options));
+}
+
+async function migrateFingerprintsFrom(mail: MailSource, options: { since?: string; apply?: boolean }) {
+  const { planFingerprintMigration, applyFingerprintMigration } = await import('../db/migrations');
+
+  console.log(`Computing v2 fingerprints for v1 transactions${options.since ? ` from ${options.since}` : ''}...`);
+  const plan = await planFingerprintMigration(id => mail.getMessage(id), parserRegistry, { since: options.since });
+
+  for (const rewrite of plan.rewrites) {
+    const synced = rewrite.syncedToYNAB ? ' (in YNAB, kept as is)' : '';
+    console.log(`  ${rewrite.oldId} -> ${rewrite.newId}  ${rewrite.date} ${rewrite.payee} ${rewrite.amount}${synced}`);
+  }
+
+  console.log(`\nChecked: ${plan.checked}`);
+  console.log(`Ids to rewrite: ${plan.rewrites.length}`);
+  if (plan.unavailable.length > 0) {
+    console.log(`Left on v1: ${plan.unavailable.length} (email missing or no longer parseable)`);
+  }
+
+  if (!options.apply) {
+    if (plan.rewrites.length > 0) {
+      console.log('\nNothing was changed. Run again with --apply to rewrite these ids.');
     }
+    return;
   }
+
+  applyFingerprintMigration(plan);
+  console.log(`\nRewrote ${plan.rewrites.length} transaction ids. YNAB transactions are unchanged.`);
 }
 
+/**
+ * Rerun the current parsers and rules over archived emails and show what
+ * would change (report only unless --apply). Applied changes to transactions
+ * already in YNAB are pushed right away when YNAB is configured.
+ */
+export async function reparse(options: { bank?: string; since?: string; apply?: boolean } = {}) {
+  const { planReparse, applyReparse } = await import('../db/reparse');
+
+  const scope = [options.bank, options.since && `from ${options.since}`].filter(Boolean).join(' ');
+  console.log(`Re-parsing archived emails${scope ? ` (${scope})` : ''}...`);
+  const plan = planReparse(parserRegistry, normalizeTransaction, {
+    bank: options.bank,
+    since: options.since,
+  });
+
+  const describe = (t: Transaction) => `${t.date} ${t.bank} ${t.payee} ${t.currency} ${t.amount} ${t.direction}`;
+  for (const change of plan.changes) {
+    if (change.kind === 'changed') {
+      const synced = change.syncedToYNAB ? ' (in YNAB, will be updated)' : '';
+      console.log(`~ ${describe(change.stored!)}${synced}`);
+      for (const { field, from, to } of change.fields) {
+        console.log(`    ${field}: ${JSON.stringify(from) ?? 'none'} -> ${JSON.stringify(to) ?? 'none'}`);
+      }
+    } else if (change.kind === 'new') {
+      console.log(`+ ${describe(change.reparsed!)} (from unparsed email "${change.subject}")`);
+    } else {
+      console.log(`! ${describe(change.stored!)} no longer parses ("${change.subject}"); left as is`);
+    }
+  }
+
+  const count = (kind: string) => plan.changes.filter(change => change.kind === kind).length;
+  console.log(`\nChecked: ${plan.checked}`);
+  console.log(`Changed: ${count('changed')}`);
+  console.log(`New: ${count('new')}`);
+  if (count('unparseable') > 0) {
+    console.log(`No longer parse: ${count('unparseable')}`);
+  }
+  printParserIssues();
+
+  if (!options.apply) {
+    if (count('changed') > 0 || count('new') > 0) {
+      console.log('\nNothing was changed. Run again with --apply to update these transactions.');
+    }
+    return;
+  }
+
+  const { updated, inserted } = applyReparse(plan);
+  console.log(`\nUpdated ${updated} transactions and added ${inserted}.`);
+  if (updated === 0 && inserted === 0) return;
+
+  // New transactions, and re-created splits
+  await pushSavedTransactions(plan.changes.filter(change => change.kind !== 'unparseable').map(change => change.messageId));
+}
+
+/**
+ * Push what a command changed outside `sync` to YNAB right away: queued
+ * updates, and transactions saved from the given emails that aren't in YNAB
+ * yet. Without a YNAB configuration they wait for the next sync.
+ */
+async function pushSavedTransactions(messageIds: string[]) {
+  let ynabClient: YNABClient;
+  let ynabConfig: YNABConfig;
+  try {
+    ynabConfig = loadYNABConfig();
+    ynabClient = new YNABClient(ynabConfig);
+  } catch (error: any) {
+    console.warn(`YNAB is not configured (${error.message}); changes will be pushed by the next sync.`);
+    return;
+  }
+
+  loadExchangeRates();
+  await applyPendingYNABActions(ynabClient);
+
+  const findUnsynced = db.prepare(`
+    SELECT * FROM transactions
+    WHERE raw_message_id = ? AND ynab_transaction_id IS NULL AND ynab_sync_error IS NULL AND ynab_hold IS NULL
+      AND status IN (${SYNCABLE_STATUS_SQL})
+  `);
+  const added = messageIds.flatMap(messageId => findUnsynced.all(messageId)).map(rowToTransaction);
+  if (added.length > 0) {
+    const stats = await pushToYNAB(added, ynabClient, ynabConfig);
+    console.log(`Pushed ${stats.synced} new transactions to YNAB (${stats.errors} errors).`);
+    printErrorBreakdown(stats);
+  }
+}
+
+/**
+ * Check a rules file (rules.json by default) without running it
+ */
+export async function validateRulesFile(options: { file?: string } = {}) {
+  const file = options.file ? path.resolve(options.file) : RULES_PATH;
+
+  let rules: unknown;
+  try {
+    rules = readRulesFile(file);
+  } catch (error: any) {
+    console.error(`❌ ${error.message}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const issues = validateRules(rules);
+  printRuleIssues(issues);
+
+  const errors = issues.filter(issue => issue.severity === 'error').length;
+  console.log(`\n${file}: ${errors} errors, ${issues.length - errors} warnings`);
+  if (errors > 0) {
+    process.exitCode = 1;
+  }
+}
+
+function printRuleIssues(issues: RuleIssue[]) {
+  for (const issue of issues) {
+    const icon = issue.severity === 'error' ? '❌' : '⚠️ ';
+    console.log(`${icon} ${issue.rule ? `${issue.rule}: ` : ''}${issue.message}`);
+  }
+}
+
+/**
+ * Replay stored transactions through a rules file (rules.json by default)
+ * and show which payees, categories and splits would change, and how often
+ * each rule matched. Nothing is written.
+ */
+export async function testRules(options: { file?: string; since?: string } = {}) {
+  const { planRulesReplay } = await import('../db/replay');
+  const file = options.file ? path.resolve(options.file) : RULES_PATH;
+
+  let rules: unknown;
+  try {
+    rules = readRulesFile(file);
+  } catch (error: any) {
+    console.error(`❌ ${error.message}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const issues = validateRules(rules);
+  if (issues.some(issue => issue.severity === 'error')) {
+    printRuleIssues(issues.filter(issue => issue.severity === 'error'));
+    console.log(`\nFix the errors in ${file} first (see rules validate).`);
+    process.exitCode = 1;
+    return;
+  }
+
+  console.log(`Replaying stored transactions${options.since ? ` from ${options.since}` : ''} through ${file}...`);
+  const engine = new RulesEngine(rules as RulesConfig);
+  const plan = planRulesReplay(engine, merchantNormalizer, parserRegistry, { since: options.since });
+
+  for (const change of plan.changes) {
+    const t = change.stored;
+    console.log(`~ ${t.date} ${t.bank} ${t.payee} ${t.currency} ${t.amount} ${t.direction}`);
+    for (const { field, from, to } of change.fields) {
+      console.log(`    ${field}: ${JSON.stringify(from) ?? 'none'} -> ${JSON.stringify(to) ?? 'none'}`);
+    }
+    if (change.rules.length > 0) {
+      console.log(`    rules: ${change.rules.map(ruleLabel).join(', ')}`);
+    }
+  }
+
+  console.log('\nRule hits:');
+  for (const [rule, hits] of plan.hits) {
+    console.log(`  ${String(hits).padStart(6)}  ${ruleLabel(rule)}${hits === 0 ? ' (never matched)' : ''}`);
+  }
+
+  console.log(`\nChecked: ${plan.checked}`);
+  console.log(`Would change: ${plan.changes.length}`);
+  if (plan.fromStored > 0) {
+    console.log(`(${plan.fromStored} had no archived email or raw payee; rules ran on their stored, already normalized payee)`);
+  }
+}
+
+/**
+ * Propose merchant_normalization rules from the payees and categories set in
+ * YNAB for imported transactions. Accepted rules are added to rules.json, or
+ * all proposals are written to a file for review.
+ */
+export async function learnRules(options: { since?: string; minSupport?: number; minConfidence?: number; output?: string } = {}) {
+  const { suggestRules } = await import('../rules/learn');
+
+  let samples: LearningSample[];
+  try {
+    const ynabClient = new YNABClient(loadYNABConfig());
+    console.log(`Fetching YNAB transactions${options.since ? ` from ${options.since}` : ''}...`);
+    samples = collectLearningSamples(await ynabClient.getMappedAccountTransactions(options.since));
+  } catch (error: any) {
+    console.error('Failed to fetch YNAB transactions:', error?.message || error);
+    process.exitCode = 1;
+    return;
+  }
+  console.log(`Matched ${samples.length} imported transactions to YNAB.`);
+
+  const suggestions = suggestRules(samples, rulesEngine, {
+    minSupport: options.minSupport,
+    minConfidence: options.minConfidence,
+  });
+  if (suggestions.length === 0) {
+    console.log('No new rules to suggest.');
+    return;
+  }
+
+  const describe = (suggestion: RuleSuggestion) => {
+    const { rule, support, matches, confidence } = suggestion;
+    const actions = [rule.payee && `payee "${rule.payee}"`, rule.category && `category "${rule.category}"`].filter(Boolean).join(', ');
+    return `"${rule.match}" -> ${actions}  (${support}/${matches} transactions, ${Math.round(confidence * 100)}% confidence)\n` +
+      `    e.g. ${suggestion.examples.join(' | ')}`;
+  };
+
+  if (options.output) {
+    const file = path.resolve(options.output);
+    suggestions.forEach((suggestion, index) => console.log(`${index + 1}. ${describe(suggestion)}`));
+    await fs.writeJson(file, { merchant_normalization: suggestions.map(suggestion => suggestion.rule) }, { spaces: 2 });
+    console.log(`\nWrote ${suggestions.length} rules to ${file}. Review them with: rules test --file ${options.output}`);
+    return;
+  }
+
+  if (!process.stdin.isTTY) {
+    suggestions.forEach((suggestion, index) => console.log(`${index + 1}. ${describe(suggestion)}`));
+    console.log('\nRun in a terminal to accept rules one by one, or use --output <file> to save them for review.');
+    return;
+  }
+
+  const accepted: MerchantRule[] = [];
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  const ask = (question: string) => new Promise<string>(resolve => rl.question(question, resolve));
+  try {
+    for (const [index, suggestion] of suggestions.entries()) {
+      console.log(`\n${index + 1}/${suggestions.length}. ${describe(suggestion)}`);
+      const answer = (await ask('Add to rules.json? [y/N/q] ')).trim().toLowerCase();
+      if (answer === 'q') break;
+      if (answer === 'y' || answer === 'yes') accepted.push(suggestion.rule);
+    }
+  } finally {
+    rl.close();
+  }
+
+  if (accepted.length === 0) {
+    console.log('\nNo rules added.');
+    return;
+  }
+  const rules = (fs.existsSync(RULES_PATH) ? readRulesFile(RULES_PATH) : {}) as RulesConfig;
+  rules.merchant_normalization = [...(rules.merchant_normalization || []), ...accepted];
+  await fs.writeJson(RULES_PATH, rules, { spaces: 2 });
+  console.log(`\nAdded ${accepted.length} rules to ${RULES_PATH}.`);
+}
+
+/**
+ * Imported transactions next to what they became in YNAB (joined on
+ * ynab_transaction_id). Transfers are left out: their payee is the account.
+ */
+function collectLearningSamples(ynabTransactions: TransactionDetail[]): LearningSample[] {
+  const byId = new Map(ynabTransactions.map(transaction => [transaction.id, transaction]));
+  const rows = db.prepare(`SELECT * FROM transactions WHERE ynab_transaction_id IS NOT NULL`).all() as any[];
+
+  return rows.flatMap(row => {
+    const ynab = byId.get(row.ynab_transaction_id);
+    if (!ynab?.payee_name || ynab.transfer_account_id) return [];
+
+    const stored = rowToTransaction(row);
+    const original = originalTransaction(stored, parserRegistry) ?? stored;
+    const category = ynab.subtransactions.length > 0 || ynab.category_name === 'Uncategorized'
+      ? undefined
+      : ynab.category_name ?? undefined;
+    return [{
+      // What rules will see: the bank's payee after merchant normalization
+      transaction: merchantNormalizer.apply(original),
+      payee: ynab.payee_name,
+      category,
+    }];
+  });
+}
+
+/**
+ * Stored payees whose closest dictionary merchant scored too low to be used
+ * but close enough to be worth a look (matched with the current merchants.json)
+ */
+export async function reviewMerchants() {
+  const rows = db.prepare(`
+    SELECT COALESCE(raw_payee, payee) AS payee, COUNT(*) AS count
+    FROM transactions
+    GROUP BY COALESCE(raw_payee, payee)
+  `).all() as { payee: string; count: number }[];
+
+  const byCleaned = new Map<string, { match: MerchantMatch; count: number }>();
+  for (const row of rows) {
+    const match = merchantNormalizer.match(row.payee);
+    if (!merchantNormalizer.needsReview(match)) continue;
+    const key = JSON.stringify([match.cleaned.toUpperCase(), match.merchant!.name]);
+    const entry = byCleaned.get(key);
+    byCleaned.set(key, { match: entry?.match ?? match, count: (entry?.count ?? 0) + row.count });
+  }
+
+  if (byCleaned.size === 0) {
+    console.log('No low-confidence merchant matches.');
+    return;
+  }
+
+  const entries = [...byCleaned.values()].sort((a, b) => b.match.score - a.match.score || b.count - a.count);
+  console.log(`Low-confidence merchant matches (used from ${Math.round(merchantNormalizer.matchScore * 100)}%):\n`);
+  for (const { match, count } of entries) {
+    console.log(`  ${String(Math.round(match.score * 100)).padStart(3)}%  "${match.cleaned}" ~ ${match.merchant!.name}  (${count} transactions, e.g. "${match.raw}")`);
+  }
+  console.log('\nTo use a match, add the payee to the merchant\'s "aliases" in merchants.json, then run reparse to update stored transactions.');
+}
+
+/**
+ * Transactions rules held back from YNAB (and, with --all, skipped ones)
+ */
+export async function listReviewQueue(options: { all?: boolean } = {}) {
+  const held = listHeld({ includeSkipped: options.all });
+  if (held.length === 0) {
+    console.log(options.all ? 'No held or skipped transactions.' : 'No transactions held for review.');
+    return;
+  }
+
+  for (const t of held) {
+    const sign = t.direction === 'inflow' ? '+' : '-';
+    const labels = [t.ynabHold === 'skip' && 'skipped', t.flag && `flag: ${t.flag}`, t.category].filter(Boolean);
+    console.log(`  ${t.id.slice(0, 8)}  ${t.date}  ${t.bank} ${t.account ?? ''}  ${t.payee}  ${sign}${t.currency} ${t.amount.toFixed(2)}${labels.length > 0 ? `  (${labels.join(', ')})` : ''}`);
+  }
+  console.log(`\n${held.length} transactions. Send one to YNAB with "review release <id>", or keep it out with "review skip <id>".`);
+}
+
+/**
+ * Send held (or skipped) transactions to YNAB: the given ids (or id
+ * prefixes), or every held one with --all
+ */
+export async function releaseFromReview(ids: string[], options: { all?: boolean } = {}) {
+  const transactions = options.all ? listHeld() : resolveHeld(ids);
+  if (transactions.length === 0) {
+    console.log('Nothing to release.');
+    return;
+  }
+
+  transactions.forEach(t => releaseHeld(t.id));
+  console.log(`Released ${transactions.length} transactions.`);
+  await pushSavedTransactions([...new Set(transactions.map(t => t.rawMessageId))]);
+}
+
+/**
+ * Keep held transactions out of YNAB for good
+ */
+export async function skipFromReview(ids: string[]) {
+  const transactions = resolveHeld(ids);
+  transactions.forEach(t => skipHeld(t.id));
+  if (transactions.length > 0) {
+    console.log(`Skipped ${transactions.length} transactions; they stay in the database only.`);
+  }
+}
+
+function resolveHeld(ids: string[]): Transaction[] {
+  return ids.flatMap(id => {
+    const transaction = findHeld(id);
+    if (!transaction) {
+      console.error(`No single held or skipped transaction with id ${id} (see "review list --all")`);
+      process.exitCode = 1;
+      return [];
+    }
+    return [transaction];
+  });
+}
+
+// Stored and YNAB dates of the same transaction can differ by a few days
+// (YNAB matching an import to a hand-entered one moves it)
+const RECONCILE_FETCH_MARGIN_DAYS = 10;
+
+/**
+ * Compare each YNAB account's cleared balance with the latest balance the
+ * bank reported (emails, statements, or --balance), and list transactions on
+ * one side only. With --mark-reconciled, accounts that agree get their
+ * matched cleared transactions marked reconciled in YNAB.
+ */
+export async function reconcileAccounts(options: {
+  account?: string;
+  since?: string;
+  balance?: string;
+  asOf?: string;
+  markReconciled?: boolean;
+  json?: boolean;
+} = {}) {
+  const { reconcileAccount } = await import('../ynab/reconcile');
+  const { listAccountTransactions, linkedYNABIds } = await import('../db/balances');
+
+  let ynabConfig: YNABConfig;
+  let ynabClient: YNABClient;
+  try {
+    ynabConfig = loadYNABConfig();
+    ynabClient = new YNABClient(ynabConfig);
+  } catch (error: any) {
+    console.error(`YNAB is not configured: ${error.message}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const accountCurrency = (bankAccount: string) =>
+    ynabConfig.accountCurrencies?.[bankAccount] || ynabConfig.currency || DEFAULT_CURRENCY;
+
+  let groups = Object.entries(ynabConfig.accountMappings).reduce((acc, [bankAccount, ynabId]) => {
+    acc.set(ynabId, [...(acc.get(ynabId) ?? []), bankAccount]);
+    return acc;
+  }, new Map<string, string[]>());
+
+  if (options.account) {
+    const ynabId = ynabConfig.accountMappings[options.account];
+    if (!ynabId) {
+      console.error(`Bank account ${options.account} is not mapped to a YNAB account`);
+      process.exitCode = 1;
+      return;
+    }
+    groups = new Map([[ynabId, groups.get(ynabId)!]]);
+  }
+
+  if (options.balance !== undefined) {
+    const amount = parseFloat(options.balance.replace(/,/g, ''));
+    const date = options.asOf || format(new Date(), 'yyyy-MM-dd');
+    if (!options.account || isNaN(amount) || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      console.error('--balance needs --account, a number and (with --as-of) a YYYY-MM-DD date');
+      process.exitCode = 1;
+      return;
+    }
+    recordManualBalance(options.account, date, amount, accountCurrency(options.account));
+  }
+
+  const until = format(new Date(), 'yyyy-MM-dd');
+  const since = options.since || format(subDays(new Date(), 30), 'yyyy-MM-dd');
+  const linked = linkedYNABIds();
+  const results: AccountReconciliation[] = [];
+
+  try {
+    const ynabAccounts = new Map((await ynabClient.getAccounts()).map(account => [account.id, account]));
+
+    for (const [ynabId, bankAccounts] of groups) {
+      const account = ynabAccounts.get(ynabId);
+      if (!account || account.deleted) {
+        console.warn(`YNAB account ${ynabId} (mapped from ${bankAccounts.join(', ')}) not found in the budget`);
+        continue;
+      }
+
+      const currency = accountCurrency(bankAccounts[0]);
+      const balance = latestBalance(bankAccounts, currency);
+      const earliest = balance && balance.date < since ? balance.date : since;
+      const fetchSince = format(subDays(parse(earliest, 'yyyy-MM-dd', new Date()), RECONCILE_FETCH_MARGIN_DAYS), 'yyyy-MM-dd');
+
+      results.push(reconcileAccount({
+        account,
+        bankAccounts,
+        currency,
+        balance,
+        since,
+        until,
+        ynabTransactions: await ynabClient.getAccountTransactions(ynabId, fetchSince),
+        local: listAccountTransactions(bankAccounts, since, until),
+        linkedYnabIds: linked,
+      }));
+    }
+
+    if (options.markReconciled) {
+      for (const result of results.filter(result => result.balanced)) {
+        await ynabClient.markReconciled(result.reconcilable);
+      }
+    }
+  } catch (error: any) {
+    console.error('Reconciliation failed:', formatError(classifyError(error)));
+    process.exitCode = 1;
+    return;
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify(results, null, 2));
+    return;
+  }
+  printBalanceReconciliation(results, { since, until, markReconciled: options.markReconciled });
+}
+
+function printBalanceReconciliation(results: AccountReconciliation[], options: { since: string; until: string; markReconciled?: boolean }) {
+  if (results.length === 0) {
+    console.log('No mapped YNAB accounts to reconcile.');
+    return;
+  }
+
+  const money = (amount: number | undefined) => amount === undefined ? '-' : amount.toFixed(2);
+  const header = ['YNAB account', 'Bank accounts', 'As of', 'Source', 'Bank', 'YNAB cleared', 'Difference', 'Not in YNAB', 'Only in YNAB'];
+  const rows = results.map(result => [
+    result.ynabAccount.name,
+    result.bankAccounts.join(', '),
+    result.balance?.date ?? '-',
+    result.balance?.source ?? '-',
+    money(result.bankBalance),
+    money(result.ynabCleared),
+    result.balance ? `${money(result.difference)}${result.balanced ? ' ✓' : ''}` : '-',
+    String(result.missingInYNAB.length),
+    String(result.ynabOnly.length),
+  ]);
+  const numeric = new Set([4, 5, 6, 7, 8]);
+  const widths = header.map((title, column) => Math.max(title.length, ...rows.map(row => row[column].length)));
+  const line = (cells: string[]) => cells
+    .map((cell, column) => numeric.has(column) ? cell.padStart(widths[column]) : cell.padEnd(widths[column]))
+    .join('  ');
+
+  console.log(`\nBalances (YNAB cleared on the bank balance's date, in the account's currency; cards as negative):\n`);
+  console.log(line(header));
+  console.log(widths.map(width => '─'.repeat(width)).join('  '));
+  rows.forEach(row => console.log(line(row)));
+
+  for (const result of results) {
+    if (result.missingInYNAB.length === 0 && result.ynabOnly.length === 0) continue;
+
+    console.log(`\n${result.ynabAccount.name} (${options.since} to ${options.until})`);
+    if (result.missingInYNAB.length > 0) {
+      console.log(`  Not in YNAB (${result.missingInYNAB.length}):`);
+      for (const t of result.missingInYNAB) {
+        console.log(`    ${t.date}  ${t.account ?? ''}  ${t.payee}  ${t.currency} ${t.amount.toFixed(2)}  (${t.reason})`);
+      }
+    }
+    if (result.ynabOnly.length > 0) {
+      console.log(`  In YNAB with no bank source (${result.ynabOnly.length}):`);
+      for (const t of result.ynabOnly) {
+        console.log(`    ${t.date}  ${t.payee}  ${t.amount.toFixed(2)}  (${t.cleared})`);
+      }
+    }
+  }
+
+  const withoutBalance = results.filter(result => !result.balance).map(result => result.bankAccounts.join(', '));
+  if (withoutBalance.length > 0) {
+    console.log(`\nNo bank balance for ${withoutBalance.join('; ')}. Import a statement, or enter one with "reconcile --account <account> --balance <amount>".`);
+  }
+
+  if (options.markReconciled) {
+    const marked = results.reduce((sum, result) => sum + result.reconcilable.length, 0);
+    const skipped = results.filter(result => result.balance && !result.balanced).map(result => result.ynabAccount.name);
+    console.log(`\nMarked ${marked} YNAB transactions reconciled.${skipped.length > 0 ? ` Not reconciled (balances differ): ${skipped.join(', ')}.` : ''}`);
+  }
+}
+
+/**
+ * The unparsed queue grouped by sender, then subject
+ */
+export async function listUnparsedMessages(options: { all?: boolean } = {}) {
+  const queue = listUnparsed({ includeIgnored: options.all });
+  if (queue.length === 0) {
+    console.log('No unparsed emails.');
+    return;
+  }
+
+  const bySender = new Map<string, Map<string, UnparsedMessage[]>>();
+  for (const message of queue) {
+    const sender = message.from || '(unknown sender)';
+    const subjects = bySender.get(sender) ?? new Map<string, UnparsedMessage[]>();
+    subjects.set(message.subject, [...(subjects.get(message.subject) ?? []), message]);
+    bySender.set(sender, subjects);
+  }
+
+  const senders = [...bySender.entries()]
+    .map(([sender, subjects]) => ({ sender, subjects, count: [...subjects.values()].flat().length }))
+    .sort((a, b) => b.count - a.count);
+
+  for (const { sender, subjects, count } of senders) {
+    console.log(`\n${sender} (${count})`);
+    for (const [subject, messages] of subjects) {
+      const [latest] = messages;
+      const ignored = messages.every(message => message.ignored) ? ' [ignored]' : '';
+      const ids = messages.slice(0, 3).map(message => message.messageId).join(', ');
+      const more = messages.length > 3 ? ` +${messages.length - 3} more` : '';
+      console.log(`  ${messages.length}x ${subject || '(no subject)'}${ignored}`);
+      console.log(`     ${latest.reason}; latest ${latest.date.substring(0, 10)}; ids: ${ids}${more}`);
+    }
+  }
+
+  console.log(`\n${queue.length} unparsed emails. Inspect one with "unparsed show <id>", or ignore a sender with "unparsed ignore-sender <pattern>".`);
+}
+
+/**
+ * An unparsed email's headers and body preview (from the archive, or the mail source)
+ */
+export async function showUnparsedMessage(messageId: string, options: MailSourceOptions = {}) {
+  const entry = getUnparsed(messageId);
+  if (!entry) {
+    console.error(`No unparsed email with id ${messageId}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  let message = getArchivedMessage(messageId);
+  if (!message) {
+    await withMailSource(options, async mail => {
+      message = await mail.getMessage(messageId);
+    });
+  }
+
+  console.log(`Id:       ${entry.messageId}`);
+  console.log(`From:     ${message?.from || entry.from}`);
+  console.log(`Subject:  ${entry.subject}`);
+  console.log(`Date:     ${entry.date}`);
+  console.log(`Reason:   ${entry.reason} (${entry.attempts} attempts, last ${entry.lastAttempt})${entry.ignored ? ' [ignored]' : ''}`);
+
+  const parser = message ? parserRegistry.findParser(message) : undefined;
+  console.log(`Parser:   ${parser ? parser.name : 'none matches'}`);
+
+  if (message) {
+    printBodyPreview(message);
+  } else {
+    console.log('The email is no longer available from the mail source.');
+  }
+}
+
+/**
+ * Run the current parsers over queued emails (or one of them). Emails that
+ * now parse are saved as transactions, leave the queue and are pushed to YNAB.
+ */
+export async function retryUnparsed(options: { id?: string } & MailSourceOptions = {}) {
+  const queue = options.id
+    ? [getUnparsed(options.id)].filter((entry): entry is UnparsedMessage => entry !== undefined)
+    : listUnparsed();
+  if (queue.length === 0) {
+    console.log(options.id ? `No unparsed email with id ${options.id}` : 'No unparsed emails to retry.');
+    return;
+  }
+
+  const ignoredSenders = loadIgnoredSenders();
+  const counts = { saved: 0, failed: 0, ignored: 0 };
+  const promoted: string[] = [];
+
+  const retry = (messages: GmailMessageData[]) => {
+    for (const retried of retryUnparsedMessages(messages, parserRegistry, normalizeTransaction, ignoredSenders)) {
+      if (retried.result === 'ignored') {
+        counts.ignored++;
+      } else if (retried.result === 'unparsed') {
+        counts.failed++;
+        if (retried.error) {
+          console.error(`Failed to save ${retried.messageId} (${retried.parser}): ${retried.error}`);
+        }
+      } else {
+        const t = retried.transaction!;
+        promoted.push(retried.messageId);
+        counts.saved++;
+        console.log(`[${retried.outcome}] ${retried.parser}: ${t.date} - ${t.payee} - ${t.currency} ${t.amount}`);
+      }
+    }
+  };
+
+  // Archived copies first, so they are retried even if the mail source is unavailable
+  const archived: GmailMessageData[] = [];
+  const missing: string[] = [];
+  for (const entry of queue) {
+    const message = getArchivedMessage(entry.messageId);
+    if (message) {
+      archived.push(message);
+    } else {
+      missing.push(entry.messageId);
+    }
+  }
+  retry(archived);
+
+  if (missing.length > 0) {
+    await withMailSource(options, async mail => {
+      const { messages } = await fetchMessages(mail, missing);
+      messages.forEach(message => archiveMessage(message, mail.name));
+      retry(messages);
+    });
+  }
+
+  printParserIssues();
+  console.log(`\nRetried: ${queue.length}`);
+  console.log(`Saved: ${counts.saved}`);
+  console.log(`Still unparsed: ${counts.failed}`);
+  if (counts.ignored > 0) {
+    console.log(`Ignored (sender): ${counts.ignored}`);
+  }
+
+  if (promoted.length > 0) {
+    await pushSavedTransactions(promoted);
+  }
+}
+
+export async function ignoreUnparsedMessage(messageId: string) {
+  if (!getUnparsed(messageId)) {
+    console.error(`No unparsed email with id ${messageId}`);
+    process.exitCode = 1;
+    return;
+  }
+  ignoreUnparsed(messageId);
+  console.log(`Ignoring ${messageId}.`);
+}
+
+export async function ignoreUnparsedSender(pattern: string) {
+  const count = ignoreSender(pattern);
+  console.log(`Ignoring emails from senders containing "${pattern}" (${count} queued emails ignored).`);
+  console.log('Future syncs mark them processed without parsing them.');
+}
+
+/**
+ * Import exchange rates from a JSON or CSV file into the database
+ */
+export async function importRates(file?: string) {
+  const filePath = file ? path.resolve(file) : RATES_FILE_PATH;
+  if (!fs.existsSync(filePath)) {
+    console.error(`Rates file not found: ${filePath}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  try {
+    const count = new ExchangeRateStore().importFile(filePath);
+    console.log(`Imported ${count} exchange rates from ${filePath}`);
+    console.log('Run "npm start retry-ynab" to sync transactions held for a missing rate.');
+  } catch (error: any) {
+    console.error(`Failed to import exchange rates: ${error.message}`);
+    process.exitCode = 1;
+  }
+}
+
+/**
+ * Run every parser fixture offline and report a pass/fail diff per fixture
+ *
+ * @param options.updateSnapshots Record the current output as the expected output
+ * @param options.dir Fixtures directory (defaults to fixtures/parsers)
+ */
+export async function testParsers(options: { updateSnapshots?: boolean; dir?: string } = {}) {
+  const { loadFixtures, runFixture, writeExpected, createFixtureRegistry, FIXTURES_DIR } = await import('../parsers/fixtures');
+  const dir = options.dir ? path.resolve(options.dir) : FIXTURES_DIR;
+
+  const fixtures = await loadFixtures(dir);
+  if (fixtures.length === 0) {
+    console.log(`No parser fixtures found in ${dir}`);
+    return;
+  }
+
+  const registry = createFixtureRegistry(dir);
+  let passed = 0;
+  let failed = 0;
+  let updated = 0;
+
+  for (const fixture of fixtures) {
+    const result = runFixture(fixture, registry);
+    const parserLabel = result.actual.parser || 'no parser';
+
+    if (result.passed) {
+      console.log(`✅ PASS ${fixture.name} (${parserLabel})`);
+      passed++;
+    } else if (options.updateSnapshots) {
+      writeExpected(result);
+      console.log(`📝 UPDATED ${fixture.name} (${parserLabel})`);
+      updated++;
+    } else {
+      console.log(`❌ FAIL ${fixture.name} (${parserLabel})`);
+      result.differences.forEach(difference => console.log(`     ${difference}`));
+      failed++;
+    }
+  }
+
+  console.log(`\nParser fixtures: ${passed} passed, ${failed} failed${updated > 0 ? `, ${updated} updated` : ''}`);
+  if (failed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+function printReconciliation(statement: Statement, reconciliation: Reconciliation) {
+  const account = statement.account ? ` ${statement.account}` : '';
+  console.log(`\n${statement.bank}${account} statement ${statement.periodStart} to ${statement.periodEnd}: ${statement.lines.length} lines, ${reconciliation.matched.length} matched`);
+
+  if (reconciliation.missingFromNotifications.length > 0) {
+    console.log(`  On the statement but never notified (${reconciliation.missingFromNotifications.length}):`);
+    for (const line of reconciliation.missingFromNotifications) {
+      const sign = line.direction === 'inflow' ? '+' : '-';
+      console.log(`    ${line.date}  ${line.description}  ${sign}${line.currency} ${line.amount.toFixed(2)}`);
+    }
+  }
+
+  if (reconciliation.missingFromStatement.length > 0) {
+    console.log(`  Notified but not on the statement (${reconciliation.missingFromStatement.length}):`);
+    for (const transaction of reconciliation.missingFromStatement) {
+      const sign = transaction.direction === 'inflow' ? '+' : '-';
+      console.log(`    ${transaction.date}  ${transaction.payee}  ${sign}${transaction.currency} ${transaction.amount.toFixed(2)}  (${transaction.status})`);
+    }
+  }
+}
+
+/**
+ * Download monthly statement PDFs from the mail source, store their line items and
+ * reconcile them against the transactions parsed from notifications.
+ *
+ * @param options.days How far back to look for statement emails
+ * @param options.force Re-import statements that were already imported
+ */
+export async function syncStatements(options: { days?: number; force?: boolean } & MailSourceOptions = {}) {
+  await withMailSource(options, mail => syncStatementsFrom(mail, options));
+}
+
+async function syncStatementsFrom(mail: MailSource, options: { days?: number; force?: boolean }) {
+  const { StatementParserRegistry } = await import('../statements/registry');
+  const { extractPdfText } = await import('../statements/pdf');
+  const { importStatement, isStatementImported } = await import('../db/statements');
+
+  let passwords: Record<string, string> = {};
+  try {
+    passwords = loadAccountsConfig().statements?.passwords || {};
+  } catch {
+    // No accounts.json: only unprotected statements can be read
+  }
+
+  const registry = new StatementParserRegistry();
+  const query: MailQuery = {
+    after: subDays(new Date(), options.days ?? 90),
+    searchTerms: registry.getAllParsers().flatMap(p => p.getSearchTerms()),
+  };
+
+  console.log(`Searching ${mail.name} for statements with query: ${formatMailQuery(query)}`);
+  const messages = await mail.listMessageIds(query);
+  console.log(`Found ${messages.length} messages.`);
+
+  let imported = 0;
+  let skipped = 0;
+  let failed = 0;
+
+  for (const messageId of messages) {
+    const message = await mail.getMessage(messageId);
+    if (!message) continue;
+
+    for (const attachment of message.attachments || []) {
+      const parser = registry.findParser(message, attachment);
+      if (!parser) continue;
+
+      if (!options.force && isStatementImported(message.id, attachment.filename)) {
+        skipped++;
+        continue;
+      }
+
+      try {
+        const data = await mail.getAttachment(message.id, attachment);
+        const text = await extractPdfText(data, passwords[parser.bank]);
+        const statement = parser.parse(text);
+        if (!statement) {
+          console.warn(`Could not parse ${attachment.filename} (${message.subject}) as a ${parser.name} statement`);
+          failed++;
+          continue;
+        }
+
+        const reconciliation = importStatement(statement, { messageId: message.id, filename: attachment.filename });
+        printReconciliation(statement, reconciliation);
+        imported++;
+      } catch (error: any) {
+        const appError = classifyError(error);
+        console.error(`Failed to import ${attachment.filename}: ${formatError(appError)}`);
+        failed++;
+      }
+    }
+  }
+
+  console.log(`\nStatements: ${imported} imported, ${skipped} already imported, ${failed} failed`);
+  if (failed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+/**
+ * Import a CSV/OFX/QFX export from online banking: movements that match a
+ * stored transaction (by amount, direction and date) are reported and skipped,
+ * the rest are stored like parsed notifications and synced to YNAB.
+ *
+ * @param options.account Account key (or number) the file belongs to; OFX files name their own
+ * @param options.dryRun Only report what would be imported
+ */
+export async function importStatementFile(
+  file: string,
+  options: { bank: string; account?: string; currency?: string; dateFormat?: string; dryRun?: boolean }
+) {
+  const { readStatementFile, statementLineToTransaction } = await import('../statements/files');
+  const { reconcileStatement } = await import('../statements/reconcile');
+  const { loadStatementCandidates, statementId } = await import('../db/statements');
+  const { loadAccountOwnership } = await import('../config/ownership');
+
+  const filePath = path.resolve(file);
+  if (!fs.existsSync(filePath)) {
+    console.error(`Statement file not found: ${filePath}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const bank = options.bank.toUpperCase();
+  const ownership = loadAccountOwnership();
+  const resolveAccount = (identifier: string | undefined) => ownership.resolve(identifier, bank) ?? identifier;
+
+  let statement: Statement;
+  try {
+    statement = readStatementFile(filePath, {
+      bank,
+      account: options.account ? resolveAccount(options.account) : undefined,
+      currency: options.currency,
+      dateFormat: options.dateFormat,
+    }, resolveAccount);
+  } catch (error: any) {
+    console.error(`Failed to read ${path.basename(filePath)}: ${error.message}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  if (!statement.account) {
+    console.error('This file does not say which account it belongs to; pass it with --account');
+    process.exitCode = 1;
+    return;
+  }
+  if (statement.lines.length === 0) {
+    console.log(`No movements found in ${path.basename(filePath)}`);
+    return;
+  }
+
+  console.log(`Read ${statement.lines.length} movements for ${bank} ${statement.account} (${statement.periodStart} to ${statement.periodEnd})`);
+  const reconciliation = reconcileStatement(statement, loadStatementCandidates(statement));
+
+  if (reconciliation.matched.length > 0) {
+    console.log(`\nAlready recorded (${reconciliation.matched.length}):`);
+    for (const { line, transaction } of reconciliation.matched) {
+      const source = transaction.rawMessageId.startsWith('import:') ? 'earlier import' : 'notification';
+      console.log(`  ${line.date}  ${line.description}  ${line.currency} ${line.amount.toFixed(2)}  =  ${transaction.date} ${transaction.payee} (${source})`);
+    }
+  }
+
+  const fileName = path.basename(filePath);
+  const toImport = reconciliation.missingFromNotifications.map(line =>
+    normalizeTransaction(statementLineToTransaction(line, statement, fileName))
+  );
+
+  if (toImport.length > 0) {
+    console.log(`\n${options.dryRun ? 'Would import' : 'Importing'} (${toImport.length}):`);
+    toImport.forEach(tx => {
+      const sign = tx.direction === 'inflow' ? '+' : '-';
+      console.log(`  ${tx.date}  ${tx.payee}  ${sign}${tx.currency} ${tx.amount.toFixed(2)}`);
+    });
+  }
+
+  if (options.dryRun) {
+    console.log(`\nDry run: ${reconciliation.matched.length} already recorded, ${toImport.length} to import. Nothing was saved.`);
+    return;
+  }
+
+  // Stored ids, which differ from the line's fingerprint when it had to be disambiguated
+  const inserted = toImport
+    .map(tx => saveTransaction(tx))
+    .filter(result => result.outcome === 'inserted')
+    .map(result => result.id);
+  console.log(`\nImported ${inserted.length} transactions (${reconciliation.matched.length} already recorded).`);
+
+  if (statement.closingBalance !== undefined) {
+    recordBalance({
+      account: statement.account,
+      date: statement.periodEnd,
+      amount: statement.closingBalance,
+      currency: statement.currency,
+      source: 'statement',
+      reference: statementId(statement),
+    });
+    console.log(`Balance on ${statement.periodEnd}: ${statement.currency} ${statement.closingBalance.toFixed(2)}`);
+  }
+  if (inserted.length === 0) return;
+
+  console.log('\nSyncing imported transactions to YNAB...');
+  try {
+    const ynabConfig = loadYNABConfig();
+    const ynabClient = new YNABClient(ynabConfig);
+    loadExchangeRates();
+
+    const ids = new Set(inserted);
+    const unsynced = db.prepare(`
+      SELECT * FROM transactions
+      WHERE ynab_synced_at IS NULL AND ynab_sync_error IS NULL AND ynab_hold IS NULL
+        AND status IN (${SYNCABLE_STATUS_SQL})
+    `).all().map(rowToTransaction).filter(tx => ids.has(tx.id));
+
+    const stats = await pushToYNAB(unsynced, ynabClient, ynabConfig);
+    console.log(`  Synced: ${stats.synced}`);
+    console.log(`  Errors: ${stats.errors}`);
+    printErrorBreakdown(stats);
+  } catch (error: any) {
+    console.error('Failed to sync to YNAB:', error.message);
+    console.log('The transactions are saved; run "npm start retry-ynab" to push them.');
+  }
+}
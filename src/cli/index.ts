@@ -8,8 +8,29 @@ import {
   setupAccounts,
   listYNABBudgets,
   listYNABAccounts,
+  listYNABCategories,
   testTransaction,
-  retryYNABSync
+  retryYNABSync,
+  testParsers,
+  importRates,
+  migrateDates,
+  migrateFingerprints,
+  reparse,
+  validateRulesFile,
+  testRules,
+  learnRules,
+  reviewMerchants,
+  listReviewQueue,
+  releaseFromReview,
+  skipFromReview,
+  listUnparsedMessages,
+  showUnparsedMessage,
+  retryUnparsed,
+  ignoreUnparsedMessage,
+  ignoreUnparsedSender,
+  syncStatements,
+  importStatementFile,
+  reconcileAccounts
 } from './commands';
 
 const program = new Command();
@@ -23,10 +44,14 @@ program.command('sync')
   .description('Fetch, parse, and sync transactions from Gmail to YNAB')
   .option('-d, --days <number>', 'Number of days to look back')
   .option('--min-date <date>', 'Minimum date to process transactions (YYYY-MM-DD format, e.g., 2026-01-01)')
+  .option('--source <type>', 'Mail source: gmail, imap or local (default: from accounts.json, else gmail)')
+  .option('--path <path>', 'mbox file, Maildir or .eml directory to read (local source)')
   .action(async (options) => {
     await sync({
       days: options.days ? parseInt(options.days) : undefined,
-      minDate: options.minDate
+      minDate: options.minDate,
+      source: options.source,
+      path: options.path,
     });
   });
 
@@ -34,10 +59,66 @@ program.command('dry-run')
   .description('Simulate sync without saving')
   .option('-d, --days <number>', 'Number of days to look back', '30')
   .option('--min-date <date>', 'Minimum date to process transactions (YYYY-MM-DD format, e.g., 2026-01-01)')
+  .option('--source <type>', 'Mail source: gmail, imap or local (default: from accounts.json, else gmail)')
+  .option('--path <path>', 'mbox file, Maildir or .eml directory to read (local source)')
   .action(async (options) => {
     await dryRun({
       days: parseInt(options.days),
-      minDate: options.minDate
+      minDate: options.minDate,
+      source: options.source,
+      path: options.path,
+    });
+  });
+
+program.command('sync-statements')
+  .description('Import monthly PDF statements from Gmail and reconcile them against notifications')
+  .option('-d, --days <number>', 'Number of days to look back', '90')
+  .option('--force', 'Re-import statements that were already imported')
+  .option('--source <type>', 'Mail source: gmail, imap or local (default: from accounts.json, else gmail)')
+  .option('--path <path>', 'mbox file, Maildir or .eml directory to read (local source)')
+  .action(async (options) => {
+    await syncStatements({
+      days: parseInt(options.days),
+      force: options.force,
+      source: options.source,
+      path: options.path,
+    });
+  });
+
+program.command('import-statement')
+  .description('Import a CSV, OFX or QFX export, skipping movements already recorded from notifications')
+  .argument('<file>', 'Statement file')
+  .requiredOption('-b, --bank <name>', 'Bank the file comes from (e.g. BHD)')
+  .option('-a, --account <string>', 'Account the file belongs to (e.g. 0014); OFX/QFX files name their own')
+  .option('--currency <code>', 'Currency of the amounts when the file does not say (default: DOP)')
+  .option('--date-format <format>', 'Date format of CSV files (default: dd/MM/yyyy)')
+  .option('--dry-run', 'Only report what would be imported')
+  .action(async (file, options) => {
+    await importStatementFile(file, {
+      bank: options.bank,
+      account: options.account,
+      currency: options.currency,
+      dateFormat: options.dateFormat,
+      dryRun: options.dryRun,
+    });
+  });
+
+program.command('reconcile')
+  .description('Compare YNAB cleared balances with the balances banks reported, and list transactions missing on either side')
+  .option('-a, --account <string>', 'Only the YNAB account this bank account maps to (e.g. 1610)')
+  .option('--since <date>', 'Start of the window for missing transactions (YYYY-MM-DD, default: 30 days ago)')
+  .option('--balance <amount>', 'Record the balance the bank shows (needs --account; amount owed for cards)')
+  .option('--as-of <date>', 'Date of --balance (YYYY-MM-DD, default: today)')
+  .option('--mark-reconciled', 'Mark matched cleared YNAB transactions reconciled where the balances agree')
+  .option('--json', 'Print the results as JSON')
+  .action(async (options) => {
+    await reconcileAccounts({
+      account: options.account,
+      since: options.since,
+      balance: options.balance,
+      asOf: options.asOf,
+      markReconciled: options.markReconciled,
+      json: options.json,
     });
   });
 
@@ -65,6 +146,13 @@ program.command('list-accounts')
     await listYNABAccounts();
   });
 
+program.command('list-categories')
+  .description('List the categories in the configured YNAB budget (names to use in rules.json)')
+  .option('--all', 'Include hidden categories')
+  .action(async (options) => {
+    await listYNABCategories({ all: options.all });
+  });
+
 program.command('test-transaction')
   .description('Create a test transaction in YNAB')
   .option('-a, --account <string>', 'Bank account number (e.g., 0014)', '0014')
@@ -86,5 +174,155 @@ program.command('retry-ynab')
     await retryYNABSync();
   });
 
+program.command('import-rates')
+  .description('Import exchange rates from a JSON or CSV file (default: exchange-rates.json)')
+  .argument('[file]', 'Rates file')
+  .action(async (file) => {
+    await importRates(file);
+  });
+
+program.command('migrate-dates')
+  .description('Report stored transactions whose date changes with timezone-aware parsing')
+  .option('--since <date>', 'Only check transactions from this date (YYYY-MM-DD)')
+  .option('--apply', 'Update the dates (and queue YNAB updates) instead of only reporting')
+  .option('--source <type>', 'Mail source: gmail, imap or local (default: from accounts.json, else gmail)')
+  .option('--path <path>', 'mbox file, Maildir or .eml directory to read (local source)')
+  .action(async (options) => {
+    await migrateDates({ since: options.since, apply: options.apply, source: options.source, path: options.path });
+  });
+
+program.command('migrate-fingerprints')
+  .description('Rewrite transaction ids from fingerprint v1 to v2 without re-creating YNAB transactions')
+  .option('--since <date>', 'Only migrate transactions from this date (YYYY-MM-DD)')
+  .option('--apply', 'Rewrite the ids instead of only reporting')
+  .option('--source <type>', 'Mail source: gmail, imap or local (default: from accounts.json, else gmail)')
+  .option('--path <path>', 'mbox file, Maildir or .eml directory to read (local source)')
+  .action(async (options) => {
+    await migrateFingerprints({ since: options.since, apply: options.apply, source: options.source, path: options.path });
+  });
+
+const unparsed = program.command('unparsed')
+  .description('Inspect, retry or ignore emails no parser could handle');
+
+unparsed.command('list')
+  .description('List unparsed emails grouped by sender and subject')
+  .option('--all', 'Include ignored emails')
+  .action(async (options) => {
+    await listUnparsedMessages({ all: options.all });
+  });
+
+unparsed.command('show <id>')
+  .description('Show an unparsed email and a preview of its body')
+  .option('--source <type>', 'Mail source: gmail, imap or local (default: from accounts.json, else gmail)')
+  .option('--path <path>', 'mbox file, Maildir or .eml directory to read (local source)')
+  .action(async (id, options) => {
+    await showUnparsedMessage(id, { source: options.source, path: options.path });
+  });
+
+unparsed.command('retry [id]')
+  .description('Run the current parsers over unparsed emails (all, or one) and save what parses')
+  .option('--source <type>', 'Mail source: gmail, imap or local (default: from accounts.json, else gmail)')
+  .option('--path <path>', 'mbox file, Maildir or .eml directory to read (local source)')
+  .action(async (id, options) => {
+    await retryUnparsed({ id, source: options.source, path: options.path });
+  });
+
+unparsed.command('ignore <id>')
+  .description('Stop listing and retrying an unparsed email')
+  .action(async (id) => {
+    await ignoreUnparsedMessage(id);
+  });
+
+unparsed.command('ignore-sender <pattern>')
+  .description('Ignore emails whose sender contains the pattern (e.g. promos@bank.com), now and in future syncs')
+  .action(async (pattern) => {
+    await ignoreUnparsedSender(pattern);
+  });
+
+const review = program.command('review')
+  .description('Transactions rules held back from YNAB ("hold" and "skip" actions)');
+
+review.command('list')
+  .description('List held transactions')
+  .option('--all', 'Include skipped transactions')
+  .action(async (options) => {
+    await listReviewQueue({ all: options.all });
+  });
+
+review.command('release [ids...]')
+  .description('Send held or skipped transactions to YNAB (ids as shown by review list)')
+  .option('--all', 'Release every held transaction')
+  .action(async (ids, options) => {
+    await releaseFromReview(ids, { all: options.all });
+  });
+
+review.command('skip <ids...>')
+  .description('Keep held transactions out of YNAB for good')
+  .action(async (ids) => {
+    await skipFromReview(ids);
+  });
+
+program.command('reparse')
+  .description('Rerun current parsers and rules over archived emails and show what changes')
+  .option('-b, --bank <bank>', 'Only emails from this bank (e.g. BHD)')
+  .option('--since <date>', 'Only emails received from this date (YYYY-MM-DD)')
+  .option('--apply', 'Update the transactions (and YNAB) instead of only reporting')
+  .action(async (options) => {
+    await reparse({ bank: options.bank, since: options.since, apply: options.apply });
+  });
+
+const rules = program.command('rules')
+  .description('Check and try out rules before using them');
+
+rules.command('validate')
+  .description('Check the rules file: its shape, regexes, and duplicate or shadowed rules')
+  .option('-f, --file <path>', 'Rules file (default: rules.json)')
+  .action(async (options) => {
+    await validateRulesFile({ file: options.file });
+  });
+
+rules.command('test')
+  .description('Replay stored transactions through the rules and show which payees/categories would change')
+  .option('-f, --file <path>', 'Rules file (default: rules.json)')
+  .option('--since <date>', 'Only transactions from this date (YYYY-MM-DD)')
+  .action(async (options) => {
+    await testRules({ file: options.file, since: options.since });
+  });
+
+rules.command('learn')
+  .description('Suggest merchant_normalization rules from payees and categories set in YNAB')
+  .option('--since <date>', 'Only YNAB transactions from this date (YYYY-MM-DD)')
+  .option('--min-support <number>', 'Transactions a rule must be right for (default: 2)')
+  .option('--min-confidence <percent>', 'Share of matched transactions a rule must be right for (default: 80)')
+  .option('-o, --output <path>', 'Write the suggestions to a rules file for review instead of asking')
+  .action(async (options) => {
+    await learnRules({
+      since: options.since,
+      minSupport: options.minSupport ? parseInt(options.minSupport) : undefined,
+      minConfidence: options.minConfidence ? parseFloat(options.minConfidence) / 100 : undefined,
+      output: options.output,
+    });
+  });
+
+const merchants = program.command('merchants')
+  .description('Merchant dictionary (merchants.json)');
+
+merchants.command('review')
+  .description('List stored payees that only loosely match a dictionary merchant')
+  .action(async () => {
+    await reviewMerchants();
+  });
+
+program.command('test-parsers')
+  .description('Run parser regression fixtures offline and show a diff per fixture')
+  .option('-u, --update-snapshots', 'Record current parser output as the expected output')
+  .option('--dir <path>', 'Fixtures directory (default: fixtures/parsers)')
+  .action(async (options) => {
+    await testParsers({
+      updateSnapshots: options.updateSnapshots,
+      dir: options.dir,
+    });
+  });
+
 program.parse(process.argv);
 
@@ -0,0 +1,68 @@
+import fs from 'fs-extra';
+import path from 'path';
+
+const ACCOUNTS_CONFIG_PATH = path.join(process.cwd(), 'accounts.json');
+
+export type MailSourceType = 'gmail' | 'imap' | 'local';
+
+export const MAIL_SOURCE_TYPES: MailSourceType[] = ['gmail', 'imap', 'local'];
+
+export interface ImapConfig {
+  host: string;
+  port?: number; // Defaults to 993
+  secure?: boolean; // TLS from the start (default true); false upgrades with STARTTLS when offered
+  user: string;
+  password?: string; // Prefer the IMAP_PASSWORD environment variable
+  mailbox?: string; // Defaults to INBOX
+}
+
+export interface GmailFetchConfig {
+  concurrency?: number; // Messages fetched in parallel (default 10)
+  quotaUnitsPerSecond?: number; // Share of the per-user Gmail quota to use (default 250, the whole quota)
+  metadataPrefilter?: boolean; // Fetch From/Subject first and only download bodies some parser can handle
+}
+
+export interface MailConfig {
+  source?: MailSourceType; // Defaults to gmail
+  gmail?: GmailFetchConfig;
+  imap?: ImapConfig;
+  path?: string; // mbox file, Maildir or directory of .eml files for the `local` source
+}
+
+/**
+ * Mail source settings from the `mail` section of accounts.json, with
+ * environment overrides (MAIL_SOURCE, MAIL_PATH, GMAIL_CONCURRENCY, IMAP_HOST,
+ * IMAP_PORT, IMAP_USER, IMAP_PASSWORD, IMAP_MAILBOX).
+ */
+export function loadMailConfig(configPath: string = ACCOUNTS_CONFIG_PATH): MailConfig {
+  const fileConfig: MailConfig = fs.existsSync(configPath)
+    ? (fs.readJsonSync(configPath) as { mail?: MailConfig }).mail || {}
+    : {};
+  const env = process.env;
+
+  const source = (env.MAIL_SOURCE as MailSourceType | undefined) || fileConfig.source || 'gmail';
+  if (!MAIL_SOURCE_TYPES.includes(source)) {
+    throw new Error(`Invalid mail source "${source}" (expected one of: ${MAIL_SOURCE_TYPES.join(', ')})`);
+  }
+
+  const imap = fileConfig.imap || env.IMAP_HOST
+    ? {
+        ...fileConfig.imap,
+        host: env.IMAP_HOST || fileConfig.imap?.host || '',
+        port: env.IMAP_PORT ? parseInt(env.IMAP_PORT) : fileConfig.imap?.port,
+        user: env.IMAP_USER || fileConfig.imap?.user || '',
+        password: env.IMAP_PASSWORD || fileConfig.imap?.password,
+        mailbox: env.IMAP_MAILBOX || fileConfig.imap?.mailbox,
+      }
+    : undefined;
+
+  const gmail = {
+    ...fileConfig.gmail,
+    ...(env.GMAIL_CONCURRENCY && { concurrency: parseInt(env.GMAIL_CONCURRENCY) }),
+  };
+  if (gmail.concurrency !== undefined && !(gmail.concurrency >= 1)) {
+    throw new Error(`Invalid Gmail concurrency "${gmail.concurrency}" (expected a number of at least 1)`);
+  }
+
+  return { source, gmail, imap, path: env.MAIL_PATH || fileConfig.path };
+}
@@ -0,0 +1,119 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { AccountResolver } from '../types';
+import { AccountsConfig, AccountMapping, loadYNABConfig } from './ynab';
+
+const ACCOUNTS_CONFIG_PATH = path.join(process.cwd(), 'accounts.json');
+
+export interface OwnedAccount {
+  key: string; // Key used in accountMappings (usually the last 4 digits)
+  bank?: string; // Only match emails from this bank (any bank if omitted)
+  aliases: string[]; // Other ways the bank refers to it (masked numbers, product names)
+}
+
+/**
+ * Normalize an account identifier for comparison: upper-case, no spaces or dashes,
+ * and `*` masks treated the same as `X` masks.
+ */
+function normalizeIdentifier(identifier: string): string {
+  return identifier.toUpperCase().replace(/[\s-]/g, '').replace(/\*/g, 'X');
+}
+
+function lastDigits(identifier: string): string | undefined {
+  const match = identifier.match(/(\d{4})$/);
+  return match ? match[1] : undefined;
+}
+
+/**
+ * Two identifiers of the same length match if every position is equal or masked in either one
+ */
+function maskedMatch(a: string, b: string): boolean {
+  if (a.length !== b.length || !/\d/.test(a) || !/\d/.test(b)) return false;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i] && a[i] !== 'X' && b[i] !== 'X') return false;
+  }
+  return true;
+}
+
+/**
+ * Which accounts belong to the user, built from the accountMappings in accounts.json.
+ * Parsers use it to decide transfer direction and to map the many ways a bank
+ * prints an account number (last 4, masked full number, alias) to one mapping key.
+ */
+export class AccountOwnership implements AccountResolver {
+  constructor(private accounts: OwnedAccount[] = []) {}
+
+  static fromConfig(config: { accountMappings?: Record<string, AccountMapping | string> }): AccountOwnership {
+    const accounts = Object.entries(config.accountMappings || {}).map(([key, mapping]) => {
+      const details: Partial<AccountMapping> = typeof mapping === 'string' ? {} : mapping;
+      return { key, bank: details.bank, aliases: details.aliases || [] };
+    });
+    return new AccountOwnership(accounts);
+  }
+
+  /**
+   * Resolve an identifier found in an email to the accountMappings key, if it is one of ours.
+   *
+   * Matching order: exact key or alias, masked number (e.g. XXXXXXXXXXXX1610),
+   * then the last 4 digits against 4-digit keys and aliases.
+   */
+  resolve(identifier: string | undefined, bank?: string): string | undefined {
+    if (!identifier) return undefined;
+
+    const candidates = this.accounts.filter(
+      account => !bank || !account.bank || account.bank.toUpperCase() === bank.toUpperCase()
+    );
+    const normalized = normalizeIdentifier(identifier);
+
+    for (const account of candidates) {
+      const names = [account.key, ...account.aliases].map(normalizeIdentifier);
+      if (names.includes(normalized)) return account.key;
+    }
+
+    for (const account of candidates) {
+      const names = [account.key, ...account.aliases].map(normalizeIdentifier);
+      if (names.some(name => maskedMatch(name, normalized))) return account.key;
+    }
+
+    const last4 = lastDigits(normalized);
+    if (last4) {
+      for (const account of candidates) {
+        const names = [account.key, ...account.aliases].map(normalizeIdentifier);
+        if (names.some(name => /^\d{4}$/.test(name) && name === last4)) return account.key;
+      }
+    }
+
+    return undefined;
+  }
+
+  isOwn(identifier: string | undefined, bank?: string): boolean {
+    return this.resolve(identifier, bank) !== undefined;
+  }
+
+  /**
+   * Account keys that can appear in emails from a bank
+   */
+  accountsForBank(bank: string): string[] {
+    return this.accounts
+      .filter(account => !account.bank || account.bank.toUpperCase() === bank.toUpperCase())
+      .map(account => account.key);
+  }
+}
+
+/**
+ * Build account ownership from accounts.json, falling back to the keys of the
+ * other YNAB config sources. Returns an empty ownership if nothing is configured
+ * so parsing (e.g. dry runs) still works without YNAB set up.
+ */
+export function loadAccountOwnership(configPath: string = ACCOUNTS_CONFIG_PATH): AccountOwnership {
+  if (fs.existsSync(configPath)) {
+    return AccountOwnership.fromConfig(fs.readJsonSync(configPath) as AccountsConfig);
+  }
+
+  try {
+    const { accountMappings } = loadYNABConfig();
+    return AccountOwnership.fromConfig({ accountMappings });
+  } catch (error) {
+    return new AccountOwnership();
+  }
+}
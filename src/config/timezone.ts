@@ -0,0 +1,24 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { DEFAULT_BANK_TIMEZONE, isValidTimezone } from '../utils/dates';
+
+const ACCOUNTS_CONFIG_PATH = path.join(process.cwd(), 'accounts.json');
+
+/**
+ * Timezone bank emails are written in.
+ * Priority: BANK_TIMEZONE env var > `timezone` in accounts.json > America/Santo_Domingo
+ */
+export function loadBankTimezone(configPath: string = ACCOUNTS_CONFIG_PATH): string {
+  let timezone = process.env.BANK_TIMEZONE;
+
+  if (!timezone && fs.existsSync(configPath)) {
+    timezone = (fs.readJsonSync(configPath) as { timezone?: string }).timezone;
+  }
+
+  if (!timezone) return DEFAULT_BANK_TIMEZONE;
+
+  if (!isValidTimezone(timezone)) {
+    throw new Error(`Invalid bank timezone "${timezone}" (expected an IANA name like ${DEFAULT_BANK_TIMEZONE})`);
+  }
+  return timezone;
+}
@@ -1,6 +1,7 @@
 import fs from 'fs-extra';
 import path from 'path';
 import dotenv from 'dotenv';
+import { MailConfig } from './mail';
 
 // Load environment variables from .env file
 dotenv.config();
@@ -9,23 +10,34 @@ export interface AccountMapping {
   ynabAccountId: string;
   ynabAccountName?: string;
   description?: string;
+  bank?: string; // Bank that issued the account (e.g. 'BHD'); matches any bank if omitted
+  aliases?: string[]; // Other identifiers the bank uses for it (e.g. 'XXXXXXXXXXXX1610')
+  currency?: string; // Currency of the YNAB account (defaults to the budget currency)
 }
 
 export interface AccountsConfig {
   ynab: {
     accessToken: string;
     budgetId: string;
+    currency?: string; // Budget currency (defaults to DOP)
   };
   accountMappings: Record<string, AccountMapping>;
   notifications?: {
     email?: string; // Email address to send sync notifications to
   };
+  timezone?: string; // IANA timezone of the banks' emails (defaults to America/Santo_Domingo)
+  mail?: MailConfig; // Where to read bank emails from (defaults to Gmail)
+  statements?: {
+    passwords?: Record<string, string>; // Bank name -> password of its statement PDFs
+  };
 }
 
 export interface YNABConfig {
   accessToken: string;
   budgetId: string;
   accountMappings: Record<string, string>; // Maps bank account (e.g., '1610') to YNAB account ID
+  currency?: string; // Budget currency (defaults to DOP)
+  accountCurrencies?: Record<string, string>; // Bank account -> YNAB account currency, when it differs from the budget's
 }
 
 const ACCOUNTS_CONFIG_PATH = path.join(process.cwd(), 'accounts.json');
@@ -64,12 +76,16 @@ export function loadYNABConfig(): YNABConfig {
 
     // Convert AccountMapping objects to simple string mappings
     const accountMappings: Record<string, string> = {};
+    const accountCurrencies: Record<string, string> = {};
     for (const [bankAccount, mapping] of Object.entries(accountsConfig.accountMappings)) {
       if (typeof mapping === 'string') {
         // Support legacy format where mapping is just a string
         accountMappings[bankAccount] = mapping;
       } else if (mapping.ynabAccountId) {
         accountMappings[bankAccount] = mapping.ynabAccountId;
+        if (mapping.currency) {
+          accountCurrencies[bankAccount] = mapping.currency;
+        }
       }
     }
 
@@ -77,6 +93,8 @@ export function loadYNABConfig(): YNABConfig {
       accessToken: accountsConfig.ynab.accessToken,
       budgetId: accountsConfig.ynab.budgetId,
       accountMappings,
+      currency: accountsConfig.ynab.currency,
+      accountCurrencies,
     };
   }
 
@@ -135,6 +153,7 @@ export function createAccountsConfigTemplate(): void {
     ynab: {
       accessToken: 'YOUR_YNAB_PERSONAL_ACCESS_TOKEN',
       budgetId: 'YOUR_BUDGET_ID_OR_USE_default',
+      currency: 'DOP',
     },
     notifications: {
       email: 'your-email@gmail.com', // Optional: Email to receive sync notifications
@@ -142,21 +161,25 @@ export function createAccountsConfigTemplate(): void {
     accountMappings: {
       '1610': {
         ynabAccountId: 'YNAB_ACCOUNT_ID_FOR_1610',
+        bank: 'BHD',
         ynabAccountName: 'Visa Mi País',
         description: 'Visa Mi País credit card',
       },
       '3709': {
         ynabAccountId: 'YNAB_ACCOUNT_ID_FOR_3709',
+        bank: 'BHD',
         ynabAccountName: 'Visa Débito Oro',
         description: 'Visa Débito Oro debit card',
       },
       '0014': {
         ynabAccountId: 'YNAB_ACCOUNT_ID_FOR_0014',
+        bank: 'BHD',
         ynabAccountName: 'Savings',
         description: 'Savings account linked to 3709',
       },
       '9508': {
         ynabAccountId: 'YNAB_ACCOUNT_ID_FOR_9508',
+        bank: 'BHD',
         ynabAccountName: 'Visa Mi País Other',
         description: 'Visa Mi País (Other)',
       },
@@ -0,0 +1,68 @@
+import { initDB } from '../../db/schema';
+import { ExchangeRateStore } from '../rates';
+import { CurrencyConverter, formatConversionMemo } from '../converter';
+import { AppError, ErrorType } from '../../utils/errors';
+import { Transaction } from '../../types';
+
+// rates.ts defaults to the app database; keep it from opening data/bank_transactions.db
+jest.mock('../../db', () => ({ db: jest.requireActual('../../db/schema').initDB(':memory:') }));
+
+const purchase: Transaction = {
+  id: 'usd-purchase',
+  bank: 'BHD',
+  account: '3709',
+  date: '2025-12-18',
+  payee: 'AMAZON MKTP US',
+  memo: 'Visa Débito Oro 3709',
+  amount: 25.99,
+  currency: 'US',
+  direction: 'outflow',
+  rawMessageId: 'msg',
+  rawThreadId: 'msg',
+};
+
+describe('CurrencyConverter', () => {
+  let rates: ExchangeRateStore;
+  let converter: CurrencyConverter;
+
+  beforeEach(() => {
+    rates = new ExchangeRateStore(initDB(':memory:'));
+    converter = new CurrencyConverter(rates);
+  });
+
+  it('leaves transactions in the account currency alone', () => {
+    expect(converter.convert({ ...purchase, currency: 'RD' }, 'DOP')).toBeNull();
+  });
+
+  it('uses the most recent rate up to a week old', () => {
+    rates.record({ from: 'USD', to: 'DOP', date: '2025-12-15', rate: 63, source: 'file' });
+    rates.record({ from: 'USD', to: 'DOP', date: '2025-12-17', rate: 63.5, source: 'file' });
+
+    const conversion = converter.convert(purchase, 'DOP');
+    expect(conversion).toMatchObject({ amount: 1650.37, currency: 'DOP', originalCurrency: 'USD', rate: 63.5 });
+    expect(formatConversionMemo(purchase.memo, conversion!)).toBe('Visa Débito Oro 3709 (USD 25.99 @ 63.5000)');
+  });
+
+  it('inverts rates stored the other way around', () => {
+    rates.record({ from: 'DOP', to: 'USD', date: '2025-12-18', rate: 1 / 64, source: 'file' });
+    expect(converter.convert(purchase, 'DOP')?.amount).toBe(1663.36);
+  });
+
+  it('prefers the amount the bank posted in the account currency', () => {
+    rates.record({ from: 'USD', to: 'DOP', date: '2025-12-18', rate: 63, source: 'file' });
+    const conversion = converter.convert({ ...purchase, postedAmount: 1660.1, postedCurrency: 'RD$' }, 'DOP');
+    expect(conversion).toMatchObject({ amount: 1660.1, source: 'bank' });
+  });
+
+  it('holds transactions without a usable rate', () => {
+    rates.record({ from: 'USD', to: 'DOP', date: '2025-12-01', rate: 63, source: 'file' });
+
+    expect.assertions(2);
+    try {
+      converter.convert(purchase, 'DOP');
+    } catch (error: any) {
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.type).toBe(ErrorType.EXCHANGE_RATE_MISSING);
+    }
+  });
+});
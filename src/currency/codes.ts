@@ -0,0 +1,28 @@
+/**
+ * ISO 4217 codes for the ways banks print currencies in their emails
+ */
+const CURRENCY_ALIASES: Record<string, string> = {
+  'RD': 'DOP',
+  'RD$': 'DOP',
+  '$RD': 'DOP',
+  'DO': 'DOP',
+  'DOP': 'DOP',
+  'US': 'USD',
+  'US$': 'USD',
+  'U$S': 'USD',
+  'USD': 'USD',
+  '€': 'EUR',
+  'EUR': 'EUR',
+};
+
+export const DEFAULT_CURRENCY = 'DOP';
+
+/**
+ * Normalize a currency as printed by a bank (e.g. 'RD$', 'US') to its ISO code.
+ * Unknown values are upper-cased and passed through.
+ */
+export function normalizeCurrency(raw: string | undefined, fallback: string = DEFAULT_CURRENCY): string {
+  const cleaned = (raw || '').trim().toUpperCase().replace(/\s+/g, '');
+  if (!cleaned) return fallback;
+  return CURRENCY_ALIASES[cleaned] || cleaned;
+}
@@ -0,0 +1,75 @@
+import { Transaction } from '../types';
+import { AppError, ErrorType } from '../utils/errors';
+import { ExchangeRateStore, ExchangeRateSource } from './rates';
+import { normalizeCurrency } from './codes';
+
+export interface Conversion {
+  amount: number; // In the target currency, rounded to cents
+  currency: string;
+  originalAmount: number;
+  originalCurrency: string;
+  rate: number;
+  source: ExchangeRateSource;
+}
+
+/**
+ * Converts transactions to the currency of the YNAB account they are pushed to
+ */
+export class CurrencyConverter {
+  constructor(private rates: ExchangeRateStore = new ExchangeRateStore()) {}
+
+  /**
+   * Convert a transaction to `targetCurrency`. Returns null when no conversion is needed.
+   * Throws an EXCHANGE_RATE_MISSING error when there is no usable rate, so the
+   * transaction is held instead of being synced with the wrong amount.
+   */
+  convert(transaction: Transaction, targetCurrency: string): Conversion | null {
+    const from = normalizeCurrency(transaction.currency);
+    const to = normalizeCurrency(targetCurrency);
+    if (from === to) return null;
+
+    // The bank already told us what it charged in the account's currency
+    if (transaction.postedAmount && normalizeCurrency(transaction.postedCurrency) === to) {
+      return {
+        amount: roundCents(transaction.postedAmount),
+        currency: to,
+        originalAmount: transaction.amount,
+        originalCurrency: from,
+        rate: transaction.postedAmount / transaction.amount,
+        source: 'bank',
+      };
+    }
+
+    const rate = this.rates.find(from, to, transaction.date);
+    if (!rate) {
+      throw new AppError({
+        type: ErrorType.EXCHANGE_RATE_MISSING,
+        message: `No ${from}->${to} exchange rate for ${transaction.date}; add one to exchange-rates.json and run retry-ynab`,
+        retryable: false,
+        context: { transactionId: transaction.id, from, to, date: transaction.date },
+      });
+    }
+
+    return {
+      amount: roundCents(transaction.amount * rate.rate),
+      currency: to,
+      originalAmount: transaction.amount,
+      originalCurrency: from,
+      rate: rate.rate,
+      source: rate.source,
+    };
+  }
+}
+
+/**
+ * Append the original amount, currency and rate to a memo,
+ * e.g. "Visa Débito Oro 3709 (USD 25.99 @ 63.1500)"
+ */
+export function formatConversionMemo(memo: string | undefined, conversion: Conversion): string {
+  const note = `${conversion.originalCurrency} ${conversion.originalAmount.toFixed(2)} @ ${conversion.rate.toFixed(4)}`;
+  return memo ? `${memo} (${note})` : note;
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
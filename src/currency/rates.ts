@@ -0,0 +1,130 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { Database as DatabaseType } from 'better-sqlite3';
+import { subDays, format, parse, isValid } from 'date-fns';
+import { db } from '../db';
+import { Transaction } from '../types';
+import { normalizeCurrency } from './codes';
+
+export const RATES_FILE_PATH = path.join(process.cwd(), 'exchange-rates.json');
+
+// A rate this many days older than the transaction is still used (weekends, holidays)
+const MAX_RATE_AGE_DAYS = 7;
+
+export type ExchangeRateSource = 'file' | 'bank';
+
+/**
+ * 1 `from` = `rate` `to` on `date`
+ */
+export interface ExchangeRate {
+  from: string;
+  to: string;
+  date: string; // YYYY-MM-DD
+  rate: number;
+  source: ExchangeRateSource;
+}
+
+/**
+ * Exchange rates stored in SQLite, fed from a local rates file and from
+ * the amounts banks post in the account's own currency.
+ */
+export class ExchangeRateStore {
+  constructor(private database: DatabaseType = db) {}
+
+  record(rate: ExchangeRate): void {
+    this.database.prepare(`
+      INSERT OR REPLACE INTO exchange_rates (base, quote, date, rate, source)
+      VALUES (@from, @to, @date, @rate, @source)
+    `).run({
+      ...rate,
+      from: normalizeCurrency(rate.from),
+      to: normalizeCurrency(rate.to),
+    });
+  }
+
+  /**
+   * Most recent rate on or before `date` (up to a week old), in either direction.
+   * On the same day a bank-derived rate wins over the rates file.
+   */
+  find(from: string, to: string, date: string): ExchangeRate | undefined {
+    const base = normalizeCurrency(from);
+    const quote = normalizeCurrency(to);
+    const day = parse(date, 'yyyy-MM-dd', new Date());
+
+    const row = this.database.prepare(`
+      SELECT * FROM exchange_rates
+      WHERE ((base = @base AND quote = @quote) OR (base = @quote AND quote = @base))
+        AND date BETWEEN @minDate AND @date
+      ORDER BY date DESC, CASE source WHEN 'bank' THEN 0 ELSE 1 END
+      LIMIT 1
+    `).get({
+      base,
+      quote,
+      date,
+      minDate: format(subDays(day, MAX_RATE_AGE_DAYS), 'yyyy-MM-dd'),
+    }) as any;
+
+    if (!row) return undefined;
+
+    const inverted = row.base !== base;
+    return {
+      from: base,
+      to: quote,
+      date: row.date,
+      rate: inverted ? 1 / row.rate : row.rate,
+      source: row.source,
+    };
+  }
+
+  /**
+   * Load a rates file into the store. Returns the number of rates imported.
+   *
+   * JSON: `{ "rates": [{ "date": "2025-12-18", "from": "USD", "to": "DOP", "rate": 63.15 }] }`
+   * CSV:  `date,from,to,rate` (header row optional)
+   */
+  importFile(filePath: string = RATES_FILE_PATH): number {
+    const rates = readRatesFile(filePath);
+    const importAll = this.database.transaction((entries: ExchangeRate[]) => {
+      entries.forEach(rate => this.record(rate));
+    });
+    importAll(rates);
+    return rates.length;
+  }
+}
+
+function readRatesFile(filePath: string): ExchangeRate[] {
+  const content = fs.readFileSync(filePath, 'utf-8');
+  const entries: Array<Partial<Record<keyof ExchangeRate, unknown>>> = path.extname(filePath).toLowerCase() === '.csv'
+    ? content
+        .split(/\r?\n/)
+        .map(line => line.trim())
+        .filter(line => line && !/^date\s*,/i.test(line))
+        .map(line => {
+          const [date, from, to, rate] = line.split(',').map(cell => cell.trim());
+          return { date, from, to, rate };
+        })
+    : (JSON.parse(content).rates || []);
+
+  return entries.map((entry, index) => {
+    const rate = Number(entry.rate);
+    const date = String(entry.date || '');
+    if (!entry.from || !entry.to || !isValid(parse(date, 'yyyy-MM-dd', new Date())) || !(rate > 0)) {
+      throw new Error(`Invalid exchange rate #${index + 1} in ${path.basename(filePath)}: ${JSON.stringify(entry)}`);
+    }
+    return { from: String(entry.from), to: String(entry.to), date, rate, source: 'file' as const };
+  });
+}
+
+/**
+ * The rate implied by a transaction whose email shows both the charged amount
+ * and the amount posted in the account's currency
+ */
+export function rateFromPostedAmount(transaction: Transaction): ExchangeRate | undefined {
+  if (!transaction.postedAmount || !transaction.postedCurrency || !transaction.amount) return undefined;
+
+  const from = normalizeCurrency(transaction.currency);
+  const to = normalizeCurrency(transaction.postedCurrency);
+  if (from === to) return undefined;
+
+  return { from, to, date: transaction.date, rate: transaction.postedAmount / transaction.amount, source: 'bank' };
+}
@@ -0,0 +1,87 @@
+import { db } from '../index';
+import { archiveMessage, getArchivedMessage, listArchivedMessageIds, originalTransaction } from '../archive';
+import { createFixtureRegistry } from '../../parsers/fixtures';
+import { GmailMessageData, Transaction } from '../../types';
+
+jest.mock('../index', () => ({
+  ...jest.requireActual('../rows'),
+  db: jest.requireActual('../schema').initDB(':memory:'),
+}));
+
+function message(id: string, date: string, overrides: Partial<GmailMessageData> = {}): GmailMessageData {
+  return {
+    id,
+    threadId: `thread-${id}`,
+    subject: 'Notificación',
+    from: 'BHD <alertas@bhd.com.do>',
+    date: new Date(date),
+    snippet: 'Consumo aprobado',
+    plainBody: 'Consumo aprobado por RD$ 1,250.00',
+    htmlBody: '<p>Consumo aprobado por <b>RD$ 1,250.00</b> ñ</p>',
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  db.exec(`DELETE FROM raw_messages`);
+});
+
+describe('raw message archive', () => {
+  it('stores a compressed copy and reads it back without attachments', () => {
+    const original = message('a', '2025-11-08T14:30:00Z', {
+      attachments: [{ filename: 'estado.pdf', mimeType: 'application/pdf', size: 3, data: Buffer.from('pdf') }],
+    });
+    archiveMessage(original, 'gmail');
+
+    const row = db.prepare(`SELECT source, content FROM raw_messages WHERE message_id = 'a'`).get() as { source: string; content: Buffer };
+    expect(row.source).toBe('gmail');
+    expect(row.content.subarray(0, 2)).toEqual(Buffer.from([0x1f, 0x8b])); // gzip
+
+    const { attachments, ...withoutAttachments } = original;
+    expect(attachments).toHaveLength(1);
+    expect(getArchivedMessage('a')).toEqual(withoutAttachments);
+    expect(getArchivedMessage('missing')).toBeNull();
+  });
+
+  it('keeps the first copy of a message', () => {
+    archiveMessage(message('a', '2025-11-08T14:30:00Z'), 'gmail');
+    archiveMessage(message('a', '2025-11-08T14:30:00Z', { plainBody: 'changed' }), 'imap');
+
+    expect(getArchivedMessage('a')?.plainBody).toBe('Consumo aprobado por RD$ 1,250.00');
+  });
+
+  it('lists archived ids oldest first from a date', () => {
+    archiveMessage(message('c', '2025-12-01T10:00:00Z'), 'gmail');
+    archiveMessage(message('a', '2025-10-01T10:00:00Z'), 'gmail');
+    archiveMessage(message('b', '2025-11-08T10:00:00Z'), 'gmail');
+
+    expect(listArchivedMessageIds()).toEqual(['a', 'b', 'c']);
+    expect(listArchivedMessageIds({ since: '2025-11-01' })).toEqual(['b', 'c']);
+  });
+});
+
+describe('originalTransaction', () => {
+  const stored: Transaction = {
+    id: 'stored',
+    bank: 'BHD',
+    account: '1610',
+    date: '2025-11-08',
+    payee: 'Nacional',
+    rawPayee: 'SUPERMERCADO NACIONAL',
+    memo: '',
+    amount: 1250,
+    currency: 'DOP',
+    direction: 'outflow',
+    category: 'Groceries',
+    rawMessageId: 'not-archived',
+    rawThreadId: 'not-archived',
+  };
+
+  it('puts the raw payee back when the email is not archived', () => {
+    expect(originalTransaction(stored, createFixtureRegistry())).toMatchObject({
+      payee: 'SUPERMERCADO NACIONAL',
+      category: undefined,
+    });
+    expect(originalTransaction({ ...stored, rawPayee: undefined }, createFixtureRegistry())).toBeUndefined();
+  });
+});
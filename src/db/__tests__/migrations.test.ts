@@ -0,0 +1,115 @@
+import { db } from '../index';
+import { applyFingerprintMigration, planFingerprintMigration } from '../migrations';
+import { disambiguateFingerprint } from '../../parsers/fingerprint';
+import { ParserRegistry } from '../../parsers/registry';
+import { GmailMessageData, Parser, Transaction } from '../../types';
+
+jest.mock('../index', () => ({
+  ...jest.requireActual('../rows'),
+  db: jest.requireActual('../schema').initDB(':memory:'),
+}));
+
+// What the current parser makes of each archived email, by message id
+const reparsed: Record<string, Partial<Transaction>> = {
+  'msg-a': { id: 'v2-a' },
+  'msg-b': { id: 'v2-a' }, // Identical purchase in the same minute
+  'msg-e': { id: 'v2-e' },
+};
+
+const parser: Parser = {
+  name: 'BHD',
+  getSearchTerms: () => [],
+  canParse: () => true,
+  parse: message => ({
+    bank: 'BHD',
+    date: '2025-11-08',
+    payee: 'SUPERMERCADO NACIONAL',
+    memo: '',
+    amount: 2500,
+    currency: 'DOP',
+    direction: 'outflow',
+    rawMessageId: message.id,
+    rawThreadId: message.id,
+    ...reparsed[message.id],
+  } as Transaction),
+};
+const registry = { findParser: () => parser } as unknown as ParserRegistry;
+
+async function fetchMessage(id: string): Promise<GmailMessageData | null> {
+  if (!reparsed[id]) return null;
+  return { id, threadId: id, subject: '', from: '', date: new Date(), snippet: '', plainBody: '', htmlBody: '' };
+}
+
+function insert(id: string, messageId: string, columns: Record<string, unknown> = {}) {
+  const row: Record<string, unknown> = {
+    id,
+    bank: 'BHD',
+    account: '1610',
+    date: '2025-11-08',
+    payee: 'SUPERMERCADO NACIONAL',
+    amount: 2500,
+    currency: 'DOP',
+    direction: 'outflow',
+    raw_message_id: messageId,
+    raw_thread_id: messageId,
+    fingerprint_version: 1,
+    ...columns,
+  };
+  const names = Object.keys(row);
+  db.prepare(`INSERT INTO transactions (${names.join(', ')}) VALUES (${names.map(name => `@${name}`).join(', ')})`).run(row);
+}
+
+function ids(): string[] {
+  return (db.prepare(`SELECT id FROM transactions ORDER BY id`).all() as { id: string }[]).map(row => row.id);
+}
+
+beforeEach(() => {
+  db.exec(`DELETE FROM transactions; DELETE FROM statement_lines; DELETE FROM statement_missing_transactions;`);
+  insert('v1-a', 'msg-a', { status: 'reversed', reversed_by: 'v1-e', ynab_transaction_id: 'ynab-a' });
+  insert('v1-b', 'msg-b');
+  insert('v1-c', 'msg-c'); // Email no longer available
+  insert('v1-e', 'msg-e', { direction: 'inflow', status: 'reversed', reversal_of: 'v1-a', date: '2025-11-10' });
+  insert('v2-d', 'msg-d', { fingerprint_version: 2 });
+  insert('v1-old', 'msg-old', { date: '2025-01-05' });
+});
+
+describe('planFingerprintMigration', () => {
+  it('maps v1 rows to their v2 ids, keeping identical purchases apart', async () => {
+    const plan = await planFingerprintMigration(fetchMessage, registry, { since: '2025-06-01' });
+
+    expect(plan.checked).toBe(3);
+    expect(plan.unavailable).toEqual(['v1-c']);
+    expect(plan.rewrites.map(({ oldId, newId, syncedToYNAB }) => ({ oldId, newId, syncedToYNAB }))).toEqual([
+      { oldId: 'v1-a', newId: 'v2-a', syncedToYNAB: true },
+      { oldId: 'v1-b', newId: disambiguateFingerprint('v2-a', 'msg-b'), syncedToYNAB: false },
+      { oldId: 'v1-e', newId: 'v2-e', syncedToYNAB: false },
+    ]);
+    expect(ids()).toContain('v1-a'); // Nothing written
+  });
+});
+
+describe('applyFingerprintMigration', () => {
+  it('rewrites ids and every reference to them, keeping the YNAB import_id', async () => {
+    db.prepare(`
+      INSERT INTO statement_lines (statement_id, line_no, date, description, amount, currency, direction, matched_transaction_id)
+      VALUES ('stmt', 1, '2025-11-08', 'SUPERMERCADO NACIONAL', 2500, 'DOP', 'outflow', 'v1-a')
+    `).run();
+    db.prepare(`INSERT INTO statement_missing_transactions (statement_id, transaction_id) VALUES ('stmt', 'v1-b')`).run();
+    const bId = disambiguateFingerprint('v2-a', 'msg-b');
+
+    applyFingerprintMigration(await planFingerprintMigration(fetchMessage, registry, { since: '2025-06-01' }));
+
+    expect(ids()).toEqual([bId, 'v1-c', 'v1-old', 'v2-a', 'v2-d', 'v2-e'].sort());
+    expect(db.prepare(`SELECT * FROM transactions WHERE id = 'v2-a'`).get()).toMatchObject({
+      fingerprint_version: 2,
+      reversed_by: 'v2-e',
+      ynab_transaction_id: 'ynab-a',
+      ynab_import_id: 'BS:v1-a',
+    });
+    expect(db.prepare(`SELECT reversal_of FROM transactions WHERE id = 'v2-e'`).get()).toEqual({ reversal_of: 'v2-a' });
+    expect(db.prepare(`SELECT matched_transaction_id FROM statement_lines`).get()).toEqual({ matched_transaction_id: 'v2-a' });
+    expect(db.prepare(`SELECT transaction_id FROM statement_missing_transactions`).get()).toEqual({ transaction_id: bId });
+    expect(db.prepare(`SELECT fingerprint_version, ynab_import_id FROM transactions WHERE id = 'v1-c'`).get())
+      .toEqual({ fingerprint_version: 1, ynab_import_id: null });
+  });
+});
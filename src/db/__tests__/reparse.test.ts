@@ -0,0 +1,105 @@
+import path from 'path';
+import { db } from '../index';
+import { archiveMessage } from '../archive';
+import { applyReparse, planReparse } from '../reparse';
+import { saveTransaction } from '../transactions';
+import { getUnparsed, recordUnparsed } from '../unparsed';
+import { FIXTURES_DIR, createFixtureRegistry, loadFixture } from '../../parsers/fixtures';
+import { GmailMessageData, Transaction } from '../../types';
+
+jest.mock('../index', () => ({
+  ...jest.requireActual('../rows'),
+  db: jest.requireActual('../schema').initDB(':memory:'),
+}));
+
+const registry = createFixtureRegistry();
+
+async function caribe(name: string): Promise<GmailMessageData> {
+  return (await loadFixture(path.join(FIXTURES_DIR, 'caribe', `${name}.eml`))).message;
+}
+
+const newsletter: GmailMessageData = {
+  id: 'newsletter',
+  threadId: 'newsletter',
+  subject: 'Weekly news',
+  from: 'News <news@example.com>',
+  date: new Date('2025-11-09T13:00:00Z'),
+  snippet: '',
+  plainBody: 'Nothing about banks.',
+  htmlBody: '',
+};
+
+// Rules as they are now: DOMEX gets a category
+const normalize = (transaction: Transaction): Transaction =>
+  transaction.payee.includes('DOMEX') ? { ...transaction, category: 'Shipping' } : transaction;
+
+function row(where: string): any {
+  return db.prepare(`SELECT * FROM transactions WHERE ${where}`).get();
+}
+
+beforeEach(async () => {
+  db.exec(`
+    DELETE FROM transactions; DELETE FROM raw_messages; DELETE FROM unparsed_messages;
+    DELETE FROM processed_messages; DELETE FROM account_balances;
+  `);
+
+  // Synced before the DOMEX rule existed
+  const consumo = await caribe('consumo');
+  archiveMessage(consumo, 'gmail');
+  const { id } = saveTransaction(registry.findParser(consumo)!.parse(consumo)!);
+  db.prepare(`UPDATE transactions SET ynab_transaction_id = 'ynab-consumo' WHERE id = ?`).run(id);
+
+  // Queued as unparsed before the Caribe parser handled payments
+  const pago = await caribe('pago-recibido');
+  archiveMessage(pago, 'gmail');
+  recordUnparsed(pago, 'No parser matched');
+
+  // A transaction whose email no parser claims any more
+  archiveMessage(newsletter, 'gmail');
+  saveTransaction({ ...registry.findParser(consumo)!.parse(consumo)!, id: 'orphan', rawMessageId: 'newsletter', date: '2025-11-09' });
+});
+
+describe('planReparse', () => {
+  it('diffs archived emails against what is stored without writing', () => {
+    const plan = planReparse(registry, normalize);
+
+    expect(plan.checked).toBe(3);
+    expect(plan.changes.map(({ kind, messageId, fields, syncedToYNAB }) => ({ kind, messageId, fields, syncedToYNAB }))).toEqual([
+      { kind: 'changed', messageId: 'consumo', fields: [{ field: 'category', from: undefined, to: 'Shipping' }], syncedToYNAB: true },
+      { kind: 'unparseable', messageId: 'newsletter', fields: [], syncedToYNAB: false },
+      { kind: 'new', messageId: 'pago-recibido', fields: [], syncedToYNAB: false },
+    ]);
+    expect(row(`raw_message_id = 'consumo'`).category).toBeNull();
+  });
+
+  it('narrows the plan by bank and date', () => {
+    expect(planReparse(registry, normalize, { bank: 'bhd' }).checked).toBe(0);
+    expect(planReparse(registry, normalize, { since: '2025-11-10' }).changes.map(change => change.messageId)).toEqual(['pago-recibido']);
+  });
+});
+
+describe('applyReparse', () => {
+  it('updates changed rows in place, queuing a YNAB update, and saves new transactions', () => {
+    const consumoId = row(`raw_message_id = 'consumo'`).id;
+
+    expect(applyReparse(planReparse(registry, normalize))).toEqual({ updated: 1, inserted: 1 });
+
+    expect(row(`raw_message_id = 'consumo'`)).toMatchObject({ id: consumoId, category: 'Shipping', ynab_pending_action: 'update' });
+    expect(row(`raw_message_id = 'pago-recibido'`)).toMatchObject({ direction: 'inflow', ynab_transaction_id: null });
+    expect(getUnparsed('pago-recibido')).toBeUndefined();
+    expect(row(`id = 'orphan'`)).toMatchObject({ raw_message_id: 'newsletter', ynab_pending_action: null });
+    expect(planReparse(registry, normalize).changes.map(change => change.kind)).toEqual(['unparseable']);
+  });
+
+  it('queues a re-create when the splits of a synced transaction change', () => {
+    const split = (transaction: Transaction): Transaction => ({
+      ...transaction,
+      splits: [{ amount: transaction.amount / 2, category: 'Shipping' }, { amount: transaction.amount / 2, category: 'Gifts' }],
+    });
+
+    applyReparse(planReparse(registry, transaction => (transaction.payee.includes('DOMEX') ? split(transaction) : transaction)));
+
+    expect(row(`raw_message_id = 'consumo'`).ynab_pending_action).toBe('recreate');
+    expect(JSON.parse(row(`raw_message_id = 'consumo'`).splits)).toHaveLength(2);
+  });
+});
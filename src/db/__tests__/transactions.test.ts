@@ -0,0 +1,175 @@
+import { db } from '../index';
+import { findAuthorization, findReversedPurchase, saveTransaction } from '../transactions';
+import { disambiguateFingerprint } from '../../parsers/fingerprint';
+import { Transaction } from '../../types';
+
+jest.mock('../index', () => ({
+  ...jest.requireActual('../rows'),
+  db: jest.requireActual('../schema').initDB(':memory:'),
+}));
+
+const purchase: Transaction = {
+  id: 'purchase',
+  bank: 'BHD',
+  account: '1610',
+  date: '2025-11-08',
+  payee: 'SUPERMERCADO NACIONAL',
+  memo: '',
+  amount: 2500,
+  currency: 'DOP',
+  direction: 'outflow',
+  rawMessageId: 'msg-purchase',
+  rawThreadId: 'msg-purchase',
+};
+
+function row(id: string): any {
+  return db.prepare(`SELECT * FROM transactions WHERE id = ?`).get(id);
+}
+
+function markSynced(id: string) {
+  db.prepare(`UPDATE transactions SET ynab_transaction_id = ? WHERE id = ?`).run(`ynab-${id}`, id);
+}
+
+beforeEach(() => {
+  db.exec(`DELETE FROM transactions; DELETE FROM account_balances; DELETE FROM exchange_rates;`);
+});
+
+describe('saveTransaction', () => {
+  it('moves an authorization to posted, queuing a YNAB update once synced', () => {
+    expect(saveTransaction({ ...purchase, status: 'authorized' }).outcome).toBe('inserted');
+    expect(saveTransaction({ ...purchase, status: 'posted', rawMessageId: 'msg-posted' }).outcome).toBe('status_changed');
+    expect(row('purchase')).toMatchObject({ status: 'posted', ynab_pending_action: null });
+
+    saveTransaction({ ...purchase, id: 'synced', status: 'authorized' });
+    markSynced('synced');
+    expect(saveTransaction({ ...purchase, id: 'synced', status: 'posted' }).outcome).toBe('status_changed');
+    expect(row('synced')).toMatchObject({ status: 'posted', ynab_pending_action: 'update' });
+  });
+
+  it('settles an authorization with a posting sent at another time and amount', () => {
+    saveTransaction({ ...purchase, id: 'authorization', datetime: '2025-11-08T19:02:11-04:00', status: 'authorized' });
+    markSynced('authorization');
+    const posting: Transaction = {
+      ...purchase,
+      id: 'posting',
+      date: '2025-11-10',
+      datetime: '2025-11-10T03:15:00-04:00',
+      amount: 2875, // With the tip
+      payee: 'SUPERMERCADO NACIONAL SANTO DOMINGO',
+      status: 'posted',
+      rawMessageId: 'msg-posting',
+      rawThreadId: 'msg-posting',
+    };
+
+    expect(saveTransaction(posting)).toEqual({ outcome: 'status_changed', id: 'authorization' });
+    expect(row('authorization')).toMatchObject({
+      status: 'posted',
+      amount: 2875,
+      date: '2025-11-10',
+      datetime: '2025-11-10T03:15:00-04:00',
+      raw_message_id: 'msg-posting',
+      ynab_pending_action: 'update',
+    });
+    expect(row('posting')).toBeUndefined();
+  });
+
+  it('matches postings only to open authorizations of the same account and merchant', () => {
+    const posting: Transaction = { ...purchase, id: 'posting', date: '2025-11-12', status: 'posted', rawMessageId: 'msg-posting' };
+    saveTransaction({ ...purchase, id: 'too-old', date: '2025-11-01', status: 'authorized' });
+    saveTransaction({ ...purchase, id: 'other-account', account: '3709', status: 'authorized' });
+    saveTransaction({ ...purchase, id: 'other-merchant', payee: 'FARMACIA CAROL', status: 'authorized' });
+    saveTransaction({ ...purchase, id: 'too-different', amount: 4000, status: 'authorized' });
+    saveTransaction({ ...purchase, id: 'already-posted' });
+
+    expect(findAuthorization(posting)).toBeUndefined();
+
+    saveTransaction({ ...purchase, id: 'close', amount: 2400, status: 'authorized', rawMessageId: 'msg-close' });
+    saveTransaction({ ...purchase, id: 'closest', amount: 2450, status: 'authorized', rawMessageId: 'msg-closest' });
+    expect(findAuthorization(posting)?.id).toBe('closest');
+  });
+
+  it('queues a YNAB delete when a synced authorization is declined', () => {
+    saveTransaction({ ...purchase, status: 'authorized' });
+    markSynced('purchase');
+
+    expect(saveTransaction({ ...purchase, status: 'declined' }).outcome).toBe('status_changed');
+    expect(row('purchase')).toMatchObject({ status: 'declined', ynab_pending_action: 'delete' });
+  });
+
+  it('never moves a posted transaction back', () => {
+    saveTransaction(purchase);
+
+    expect(saveTransaction({ ...purchase, status: 'authorized' }).outcome).toBe('duplicate');
+    expect(saveTransaction({ ...purchase, status: 'declined' }).outcome).toBe('duplicate');
+    expect(row('purchase').status).toBe('posted');
+  });
+
+  it('keeps an identical purchase from another email under a disambiguated id', () => {
+    saveTransaction(purchase);
+    const second = { ...purchase, rawMessageId: 'msg-second', rawThreadId: 'msg-second' };
+
+    expect(saveTransaction(second)).toEqual({ outcome: 'inserted', id: disambiguateFingerprint('purchase', 'msg-second') });
+    expect(row(disambiguateFingerprint('purchase', 'msg-second'))).toMatchObject({ raw_message_id: 'msg-second', status: 'posted' });
+    expect(saveTransaction(second).outcome).toBe('duplicate');
+    expect(db.prepare(`SELECT COUNT(*) AS count FROM transactions`).get()).toEqual({ count: 2 });
+  });
+
+  it('finds rows stored under the v1 fingerprint by legacyId', () => {
+    db.prepare(`
+      INSERT INTO transactions (id, bank, account, date, payee, amount, currency, direction, raw_message_id, raw_thread_id, status, fingerprint_version)
+      VALUES ('legacy', 'BHD', '1610', '2025-11-08', 'SUPERMERCADO NACIONAL', 2500, 'DOP', 'outflow', 'msg-purchase', 'msg-purchase', 'authorized', 1)
+    `).run();
+
+    expect(saveTransaction({ ...purchase, legacyId: 'legacy', status: 'posted' })).toEqual({ outcome: 'status_changed', id: 'legacy' });
+    expect(row('legacy').status).toBe('posted');
+    expect(row('purchase')).toBeUndefined();
+  });
+});
+
+describe('reversals', () => {
+  const reversal: Transaction = {
+    ...purchase,
+    id: 'reversal',
+    date: '2025-12-01',
+    payee: 'REV SUPERMERCADO NACIONAL',
+    direction: 'inflow',
+    status: 'reversed',
+    rawMessageId: 'msg-reversal',
+    rawThreadId: 'msg-reversal',
+  };
+
+  it('links a reversal to the purchase and queues the YNAB copy for deletion', () => {
+    saveTransaction(purchase);
+    markSynced('purchase');
+
+    expect(saveTransaction(reversal).outcome).toBe('reversal_linked');
+    expect(row('purchase')).toMatchObject({ status: 'reversed', reversed_by: 'reversal', ynab_pending_action: 'delete' });
+    expect(row('reversal')).toMatchObject({ status: 'reversed', reversal_of: 'purchase' });
+    expect(saveTransaction(reversal).outcome).toBe('duplicate');
+  });
+
+  it('matches the latest live purchase within 45 days with a similar merchant', () => {
+    saveTransaction({ ...purchase, id: 'too-old', date: '2025-10-16' });
+    saveTransaction({ ...purchase, id: 'other-account', date: '2025-11-20', account: '3709' });
+    saveTransaction({ ...purchase, id: 'other-merchant', date: '2025-11-25', payee: 'FARMACIA CAROL' });
+    saveTransaction({ ...purchase, id: 'in-window', date: '2025-10-17' });
+
+    expect(findReversedPurchase(reversal)?.id).toBe('in-window');
+
+    saveTransaction(reversal);
+    expect(findReversedPurchase({ ...reversal, id: 'second-reversal' })).toBeUndefined();
+  });
+
+  it('records a reversal with no purchase to match as a plain inflow', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    saveTransaction({ ...purchase, date: '2025-10-01' });
+
+    try {
+      expect(saveTransaction(reversal).outcome).toBe('inserted');
+    } finally {
+      warn.mockRestore();
+    }
+    expect(row('reversal')).toMatchObject({ status: 'posted', direction: 'inflow', reversal_of: null });
+    expect(row('purchase')).toMatchObject({ status: 'posted', reversed_by: null });
+  });
+});
@@ -0,0 +1,67 @@
+import path from 'path';
+import { db } from '../index';
+import { getUnparsed, recordUnparsed, retryUnparsedMessages } from '../unparsed';
+import { FIXTURES_DIR, createFixtureRegistry, loadFixture } from '../../parsers/fixtures';
+import { GmailMessageData, Transaction } from '../../types';
+
+jest.mock('../index', () => ({
+  ...jest.requireActual('../rows'),
+  db: jest.requireActual('../schema').initDB(':memory:'),
+}));
+
+const registry = createFixtureRegistry();
+
+async function caribe(name: string): Promise<GmailMessageData> {
+  return (await loadFixture(path.join(FIXTURES_DIR, 'caribe', `${name}.eml`))).message;
+}
+
+const newsletter: GmailMessageData = {
+  id: 'newsletter',
+  threadId: 'newsletter',
+  subject: 'Weekly news',
+  from: 'News <news@example.com>',
+  date: new Date('2025-11-09T13:00:00Z'),
+  snippet: '',
+  plainBody: 'Nothing about banks.',
+  htmlBody: '',
+};
+
+// A rule that breaks on one transaction
+const normalize = (transaction: Transaction): Transaction => {
+  if (transaction.rawMessageId === 'devolucion') throw new Error('Invalid regular expression');
+  return transaction;
+};
+
+beforeEach(() => {
+  db.exec(`DELETE FROM transactions; DELETE FROM unparsed_messages; DELETE FROM processed_messages;`);
+});
+
+describe('retryUnparsedMessages', () => {
+  it('keeps going past an email that fails, leaving it queued with the reason', async () => {
+    const queue = [await caribe('consumo'), await caribe('devolucion'), newsletter, await caribe('pago-recibido')];
+    queue.forEach(message => recordUnparsed(message, 'No parser matched'));
+
+    const retried = retryUnparsedMessages(queue, registry, normalize, ['news@example.com']);
+
+    expect(retried.map(({ messageId, result, error }) => ({ messageId, result, error }))).toEqual([
+      { messageId: 'consumo', result: 'saved', error: undefined },
+      { messageId: 'devolucion', result: 'unparsed', error: 'Invalid regular expression' },
+      { messageId: 'newsletter', result: 'ignored', error: undefined },
+      { messageId: 'pago-recibido', result: 'saved', error: undefined },
+    ]);
+    expect(getUnparsed('consumo')).toBeUndefined();
+    expect(getUnparsed('pago-recibido')).toBeUndefined();
+    expect(getUnparsed('devolucion')).toMatchObject({ reason: 'Retry failed: Invalid regular expression', attempts: 2 });
+    expect(db.prepare(`SELECT raw_message_id FROM transactions ORDER BY raw_message_id`).all()).toEqual([
+      { raw_message_id: 'consumo' },
+      { raw_message_id: 'pago-recibido' },
+    ]);
+  });
+
+  it('counts another attempt for an email no parser handles', () => {
+    recordUnparsed(newsletter, 'No parser matched');
+
+    expect(retryUnparsedMessages([newsletter], registry, normalize, [])).toEqual([{ messageId: 'newsletter', result: 'unparsed', parser: undefined }]);
+    expect(getUnparsed('newsletter')).toMatchObject({ reason: 'No parser matched', attempts: 2 });
+  });
+});
@@ -0,0 +1,90 @@
+import zlib from 'zlib';
+import { db } from './index';
+import { GmailMessageData, Transaction } from '../types';
+import { ParserRegistry } from '../parsers/registry';
+
+interface ArchivedContent {
+  snippet: string;
+  plainBody: string;
+  htmlBody: string;
+}
+
+/**
+ * Keep a compressed copy of an email. Attachments are not archived (statement
+ * PDFs are imported on their own and can be large).
+ */
+export function archiveMessage(message: GmailMessageData, source: string): void {
+  const content: ArchivedContent = {
+    snippet: message.snippet,
+    plainBody: message.plainBody,
+    htmlBody: message.htmlBody,
+  };
+
+  db.prepare(`
+    INSERT OR IGNORE INTO raw_messages (message_id, source, thread_id, subject, from_address, date, content)
+    VALUES (@id, @source, @threadId, @subject, @from, @date, @content)
+  `).run({
+    id: message.id,
+    source,
+    threadId: message.threadId ?? null,
+    subject: message.subject,
+    from: message.from,
+    date: isNaN(message.date.getTime()) ? '' : message.date.toISOString(),
+    content: zlib.gzipSync(JSON.stringify(content)),
+  });
+}
+
+export function getArchivedMessage(messageId: string): GmailMessageData | null {
+  const row = db.prepare(`SELECT * FROM raw_messages WHERE message_id = ?`).get(messageId) as any;
+  if (!row) return null;
+
+  const content = JSON.parse(zlib.gunzipSync(row.content).toString('utf-8')) as ArchivedContent;
+  return {
+    id: row.message_id,
+    threadId: row.thread_id ?? '',
+    subject: row.subject,
+    from: row.from_address,
+    date: new Date(row.date),
+    ...content,
+  };
+}
+
+/**
+ * Ids of archived emails received on or after `since` (YYYY-MM-DD), oldest first
+ */
+export function listArchivedMessageIds(options: { since?: string } = {}): string[] {
+  const rows = db.prepare(`
+    SELECT message_id FROM raw_messages
+    WHERE date >= @since
+    ORDER BY date ASC, message_id ASC
+  `).all({ since: options.since || '' }) as { message_id: string }[];
+  return rows.map(row => row.message_id);
+}
+
+/**
+ * The transaction's email, parsed again, when it is archived and still
+ * yields the same transaction (same bank, amount and date)
+ */
+export function parseArchivedTransaction(stored: Transaction, registry: ParserRegistry): Transaction | undefined {
+  const message = getArchivedMessage(stored.rawMessageId);
+  if (!message) return undefined;
+
+  const parsed = registry.findParser(message)?.parse(message);
+  if (!parsed || parsed.bank !== stored.bank || parsed.amount !== stored.amount || parsed.date !== stored.date) {
+    return undefined;
+  }
+  return parsed;
+}
+
+/**
+ * A stored transaction as it was before merchant normalization and rules:
+ * parsed again from its archived email, else with its raw payee put back
+ * (the memo may still carry what rules appended). Undefined when neither is
+ * available.
+ */
+export function originalTransaction(stored: Transaction, registry: ParserRegistry): Transaction | undefined {
+  const parsed = parseArchivedTransaction(stored, registry);
+  if (parsed) return parsed;
+  if (stored.rawPayee) return { ...stored, payee: stored.rawPayee, category: undefined, splits: undefined };
+  return undefined;
+}
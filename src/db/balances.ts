@@ -0,0 +1,89 @@
+import { db, rowToTransaction } from './index';
+import { SYNCABLE_STATUS_SQL } from './transactions';
+import type { LocalTransaction } from '../ynab/reconcile';
+
+export type BalanceSource = 'email' | 'statement' | 'manual';
+
+/**
+ * An account balance as the bank reported it: funds for deposit accounts,
+ * amount owed for cards
+ */
+export interface AccountBalance {
+  account: string;
+  date: string; // YYYY-MM-DD
+  amount: number;
+  currency: string;
+  source: BalanceSource;
+  reference: string;
+}
+
+// At equal dates, what the user typed beats a statement, which beats an email
+// (sent right after one transaction, before the rest of the day's)
+const SOURCE_RANK_SQL = `CASE source WHEN 'manual' THEN 0 WHEN 'statement' THEN 1 ELSE 2 END`;
+
+/**
+ * Store a balance, replacing an earlier one from the same email, statement or
+ * manual entry
+ */
+export function recordBalance(balance: AccountBalance): void {
+  db.prepare(`
+    INSERT OR REPLACE INTO account_balances (account, date, amount, currency, source, reference)
+    VALUES (@account, @date, @amount, @currency, @source, @reference)
+  `).run(balance);
+}
+
+/**
+ * Record a balance typed in by the user (one per account, date and currency)
+ */
+export function recordManualBalance(account: string, date: string, amount: number, currency: string): AccountBalance {
+  const balance: AccountBalance = { account, date, amount, currency, source: 'manual', reference: `${account}:${date}` };
+  recordBalance(balance);
+  return balance;
+}
+
+/**
+ * The most recent balance reported for any of the accounts, optionally in one currency
+ */
+export function latestBalance(accounts: string[], currency?: string): AccountBalance | undefined {
+  if (accounts.length === 0) return undefined;
+
+  const placeholders = accounts.map(() => '?').join(', ');
+  const row = db.prepare(`
+    SELECT account, date, amount, currency, source, reference FROM account_balances
+    WHERE account IN (${placeholders}) ${currency ? 'AND currency = ?' : ''}
+    ORDER BY date DESC, ${SOURCE_RANK_SQL}, recorded_at DESC
+    LIMIT 1
+  `).get(...accounts, ...(currency ? [currency] : [])) as AccountBalance | undefined;
+  return row;
+}
+
+/**
+ * Live transactions of the bank accounts dated within the window, with their
+ * YNAB sync state
+ */
+export function listAccountTransactions(accounts: string[], since: string, until: string): LocalTransaction[] {
+  if (accounts.length === 0) return [];
+
+  const placeholders = accounts.map(() => '?').join(', ');
+  const rows = db.prepare(`
+    SELECT * FROM transactions
+    WHERE account IN (${placeholders}) AND status IN (${SYNCABLE_STATUS_SQL}) AND date BETWEEN ? AND ?
+    ORDER BY date, created_at
+  `).all(...accounts, since, until) as any[];
+
+  return rows.map(row => ({
+    transaction: rowToTransaction(row),
+    ynabId: row.ynab_transaction_id ?? undefined,
+    syncError: row.ynab_sync_error ?? undefined,
+  }));
+}
+
+/**
+ * Every YNAB transaction id a stored transaction points to
+ */
+export function linkedYNABIds(): Set<string> {
+  const rows = db.prepare(`
+    SELECT ynab_transaction_id FROM transactions WHERE ynab_transaction_id IS NOT NULL
+  `).all() as { ynab_transaction_id: string }[];
+  return new Set(rows.map(row => row.ynab_transaction_id));
+}
@@ -0,0 +1,220 @@
+import { db, rowToTransaction } from './index';
+import { GmailMessageData, Transaction } from '../types';
+import { ParserRegistry } from '../parsers/registry';
+import { FINGERPRINT_VERSION, disambiguateFingerprint } from '../parsers/fingerprint';
+import { ynabImportId } from '../ynab/imports';
+
+type MessageFetcher = (messageId: string) => Promise<GmailMessageData | null>;
+
+/**
+ * Re-parse the email behind each stored row with the current parsers.
+ * `reparsed` is null when the email can't be fetched or no longer parses.
+ */
+async function* reparseStored(
+  rows: any[],
+  fetchMessage: MessageFetcher,
+  registry: ParserRegistry
+): AsyncGenerator<{ row: any; stored: Transaction; reparsed: Transaction | null }> {
+  for (const row of rows) {
+    const stored = rowToTransaction(row);
+    const message = await fetchMessage(stored.rawMessageId);
+    const parser = message ? registry.findParser(message) : undefined;
+    const reparsed = message && parser ? parser.parse(message) : null;
+    yield { row, stored, reparsed };
+  }
+}
+
+/**
+ * A stored transaction whose date changes when its email is re-parsed with
+ * timezone-aware date handling (e.g. a BHD purchase at 11:29 PM that was
+ * stored under the next day's UTC date).
+ */
+export interface DateChange {
+  id: string;
+  bank: string;
+  payee: string;
+  amount: number;
+  currency: string;
+  storedDate: string;
+  newDate: string;
+  datetime?: string;
+  syncedToYNAB: boolean;
+}
+
+export interface DateMigrationPlan {
+  checked: number;
+  changes: DateChange[];
+  timestamps: Array<{ id: string; datetime: string }>; // Backfill for rows stored before `datetime` existed
+  unavailable: string[]; // Transaction ids whose email could not be fetched or re-parsed
+}
+
+/**
+ * Re-parse the email behind every stored transaction (optionally only from
+ * `since` on) and report which ones would get a different date. Nothing is written.
+ */
+export async function planDateMigration(
+  fetchMessage: MessageFetcher,
+  registry: ParserRegistry,
+  options: { since?: string } = {}
+): Promise<DateMigrationPlan> {
+  const rows = db.prepare(`
+    SELECT * FROM transactions
+    WHERE date >= @since
+    ORDER BY date ASC, created_at ASC
+  `).all({ since: options.since || '0000-00-00' }) as any[];
+
+  const plan: DateMigrationPlan = { checked: 0, changes: [], timestamps: [], unavailable: [] };
+
+  for await (const { row, stored, reparsed } of reparseStored(rows, fetchMessage, registry)) {
+    if (!reparsed) {
+      plan.unavailable.push(stored.id);
+      continue;
+    }
+
+    plan.checked++;
+
+    if (reparsed.date !== stored.date) {
+      plan.changes.push({
+        id: stored.id,
+        bank: stored.bank,
+        payee: stored.payee,
+        amount: stored.amount,
+        currency: stored.currency,
+        storedDate: stored.date,
+        newDate: reparsed.date,
+        datetime: reparsed.datetime,
+        syncedToYNAB: !!row.ynab_transaction_id,
+      });
+    } else if (reparsed.datetime && !stored.datetime) {
+      plan.timestamps.push({ id: stored.id, datetime: reparsed.datetime });
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * Apply a date migration plan. Transaction ids (fingerprints) are kept so
+ * deduplication against already-processed emails is unaffected; transactions
+ * already in YNAB are queued for an update on the next sync.
+ */
+export function applyDateMigration(plan: DateMigrationPlan): void {
+  const updateDate = db.prepare(`
+    UPDATE transactions
+    SET date = @newDate,
+        datetime = @datetime,
+        ynab_pending_action = CASE
+          WHEN ynab_transaction_id IS NOT NULL THEN COALESCE(ynab_pending_action, 'update')
+          ELSE ynab_pending_action
+        END
+    WHERE id = @id
+  `);
+  const updateTimestamp = db.prepare(`UPDATE transactions SET datetime = @datetime WHERE id = @id`);
+
+  const apply = db.transaction(() => {
+    plan.changes.forEach(change => updateDate.run({ id: change.id, newDate: change.newDate, datetime: change.datetime ?? null }));
+    plan.timestamps.forEach(timestamp => updateTimestamp.run(timestamp));
+  });
+  apply();
+}
+
+/**
+ * A v1 transaction id and the v2 fingerprint it will be rewritten to
+ */
+export interface FingerprintRewrite {
+  oldId: string;
+  newId: string;
+  date: string;
+  payee: string;
+  amount: number;
+  syncedToYNAB: boolean;
+}
+
+export interface FingerprintMigrationPlan {
+  checked: number;
+  rewrites: FingerprintRewrite[];
+  unavailable: string[]; // v1 ids whose email could not be fetched or re-parsed (left as they are)
+}
+
+/**
+ * Work out the v2 id of every transaction still on fingerprint v1 by
+ * re-parsing its email. Nothing is written.
+ */
+export async function planFingerprintMigration(
+  fetchMessage: MessageFetcher,
+  registry: ParserRegistry,
+  options: { since?: string } = {}
+): Promise<FingerprintMigrationPlan> {
+  const rows = db.prepare(`
+    SELECT * FROM transactions
+    WHERE fingerprint_version < @version AND date >= @since
+    ORDER BY date ASC, created_at ASC
+  `).all({ version: FINGERPRINT_VERSION, since: options.since || '0000-00-00' }) as any[];
+
+  const plan: FingerprintMigrationPlan = { checked: 0, rewrites: [], unavailable: [] };
+  const claimed = new Set<string>();
+  const idInUse = db.prepare(`SELECT 1 FROM transactions WHERE id = ?`);
+
+  for await (const { row, stored, reparsed } of reparseStored(rows, fetchMessage, registry)) {
+    if (!reparsed) {
+      plan.unavailable.push(stored.id);
+      continue;
+    }
+
+    plan.checked++;
+
+    // Two v1 rows can only map to the same v2 id if they were identical
+    // purchases at the same minute; the message id keeps them apart, as on save
+    let newId = reparsed.id;
+    if (claimed.has(newId) || idInUse.get(newId)) {
+      newId = disambiguateFingerprint(newId, stored.rawMessageId);
+    }
+    claimed.add(newId);
+
+    plan.rewrites.push({
+      oldId: stored.id,
+      newId,
+      date: stored.date,
+      payee: stored.payee,
+      amount: stored.amount,
+      syncedToYNAB: !!row.ynab_transaction_id,
+    });
+  }
+
+  return plan;
+}
+
+/**
+ * Rewrite v1 ids to their v2 fingerprints. Everything else on the row is kept,
+ * including `ynab_transaction_id`, so synced transactions are not created again
+ * in YNAB. Links between reversals and purchases and statement matches follow
+ * the new ids.
+ *
+ * The row keeps the YNAB import_id of its old id: a push that got through
+ * without being recorded is still found as a duplicate instead of copied.
+ */
+export function applyFingerprintMigration(plan: FingerprintMigrationPlan): void {
+  const findRow = db.prepare(`SELECT * FROM transactions WHERE id = ?`);
+  const rewriteId = db.prepare(`
+    UPDATE transactions
+    SET id = @newId, fingerprint_version = @version, ynab_import_id = @importId
+    WHERE id = @oldId
+  `);
+  const rewriteReferences = [
+    `UPDATE transactions SET reversal_of = @newId WHERE reversal_of = @oldId`,
+    `UPDATE transactions SET reversed_by = @newId WHERE reversed_by = @oldId`,
+    `UPDATE statement_lines SET matched_transaction_id = @newId WHERE matched_transaction_id = @oldId`,
+    `UPDATE statement_missing_transactions SET transaction_id = @newId WHERE transaction_id = @oldId`,
+  ].map(sql => db.prepare(sql));
+
+  const apply = db.transaction(() => {
+    for (const { oldId, newId } of plan.rewrites) {
+      const row = findRow.get(oldId);
+      if (!row) continue;
+
+      rewriteId.run({ oldId, newId, version: FINGERPRINT_VERSION, importId: ynabImportId(rowToTransaction(row)) });
+      rewriteReferences.forEach(statement => statement.run({ oldId, newId }));
+    }
+  });
+  apply();
+}
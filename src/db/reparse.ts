@@ -0,0 +1,178 @@
+import { db, rowToTransaction } from './index';
+import { saveTransaction } from './transactions';
+import { getArchivedMessage, listArchivedMessageIds } from './archive';
+import { getUnparsed, removeUnparsed } from './unparsed';
+import { Transaction } from '../types';
+import { ParserRegistry } from '../parsers/registry';
+
+/**
+ * Fields a parser or rule can change. Ids, status and reversal links are left
+ * alone: they come from the transaction's lifecycle, not from one email. So is
+ * skip/hold, which the review queue may have changed since.
+ */
+const REPARSED_FIELDS = [
+  'account',
+  'date',
+  'datetime',
+  'payee',
+  'memo',
+  'amount',
+  'currency',
+  'direction',
+  'transferAccount',
+  'postedAmount',
+  'postedCurrency',
+  'category',
+  'splits',
+  'flag',
+  'unapproved',
+] as const;
+
+type ReparsedField = typeof REPARSED_FIELDS[number];
+
+const FIELD_COLUMNS: Record<ReparsedField, string> = {
+  account: 'account',
+  date: 'date',
+  datetime: 'datetime',
+  payee: 'payee',
+  memo: 'memo',
+  amount: 'amount',
+  currency: 'currency',
+  direction: 'direction',
+  transferAccount: 'transfer_account',
+  postedAmount: 'posted_amount',
+  postedCurrency: 'posted_currency',
+  category: 'category',
+  splits: 'splits',
+  flag: 'flag',
+  unapproved: 'unapproved',
+};
+
+export interface FieldChange<F extends keyof Transaction = ReparsedField> {
+  field: F;
+  from: unknown;
+  to: unknown;
+}
+
+export interface ReparseChange {
+  kind: 'changed' | 'new' | 'unparseable';
+  messageId: string;
+  subject: string;
+  stored?: Transaction; // Missing for emails that never produced a transaction
+  reparsed?: Transaction; // Missing when the email no longer parses
+  fields: FieldChange[];
+  syncedToYNAB: boolean;
+}
+
+export interface ReparsePlan {
+  checked: number;
+  changes: ReparseChange[];
+}
+
+/**
+ * Run the current parsers and rules over archived emails and compare the
+ * result with what is stored. Nothing is written.
+ *
+ * - changed: the email's transaction would get different field values
+ * - new: the email is in the unparsed queue (not ignored) and now produces a transaction
+ * - unparseable: the email produced a transaction but no longer parses (kept as is)
+ */
+export function planReparse(
+  registry: ParserRegistry,
+  normalize: (transaction: Transaction) => Transaction,
+  options: { bank?: string; since?: string } = {}
+): ReparsePlan {
+  const findStored = db.prepare(`
+    SELECT * FROM transactions WHERE raw_message_id = ? ORDER BY created_at ASC LIMIT 1
+  `);
+  const bank = options.bank?.toUpperCase();
+  const plan: ReparsePlan = { checked: 0, changes: [] };
+
+  for (const messageId of listArchivedMessageIds({ since: options.since })) {
+    const message = getArchivedMessage(messageId);
+    if (!message) continue;
+
+    const row = findStored.get(messageId) as any;
+    const stored = row ? rowToTransaction(row) : undefined;
+    const parser = registry.findParser(message);
+    const parsed = parser ? parser.parse(message) : null;
+    const reparsed = parsed ? normalize(parsed) : undefined;
+
+    if (bank && stored?.bank.toUpperCase() !== bank && reparsed?.bank.toUpperCase() !== bank) {
+      continue;
+    }
+    plan.checked++;
+
+    const change = { messageId, subject: message.subject, stored, reparsed, syncedToYNAB: !!row?.ynab_transaction_id };
+    if (stored && reparsed) {
+      const fields = diffTransactions(stored, reparsed, REPARSED_FIELDS);
+      if (fields.length > 0) plan.changes.push({ ...change, kind: 'changed', fields });
+    } else if (reparsed && getUnparsed(messageId)?.ignored === false) {
+      plan.changes.push({ ...change, kind: 'new', fields: [] });
+    } else if (stored) {
+      plan.changes.push({ ...change, kind: 'unparseable', fields: [] });
+    }
+  }
+
+  return plan;
+}
+
+export function diffTransactions<F extends keyof Transaction>(
+  stored: Transaction,
+  reparsed: Transaction,
+  fields: readonly F[]
+): FieldChange<F>[] {
+  const normalize = (value: unknown) => {
+    if (value === undefined || value === '') return null;
+    return typeof value === 'object' ? JSON.stringify(value) : value;
+  };
+  return fields
+    .filter(field => normalize(stored[field]) !== normalize(reparsed[field]))
+    .map(field => ({ field, from: stored[field], to: reparsed[field] }));
+}
+
+// Splits are stored as JSON, flags like `unapproved` as 1/NULL
+function toColumnValue(value: unknown) {
+  if (value === undefined || value === false) return null;
+  if (value === true) return 1;
+  return typeof value === 'object' && value !== null ? JSON.stringify(value) : value;
+}
+
+/**
+ * Apply a reparse plan. Changed transactions keep their id (so emails already
+ * processed still deduplicate against them) and those already in YNAB are
+ * queued for an update; new ones are saved like sync saves them.
+ */
+export function applyReparse(plan: ReparsePlan): { updated: number; inserted: number } {
+  const markProcessed = db.prepare(`INSERT OR IGNORE INTO processed_messages (message_id) VALUES (?)`);
+  const counts = { updated: 0, inserted: 0 };
+
+  const apply = db.transaction(() => {
+    for (const change of plan.changes) {
+      if (change.kind === 'changed' && change.stored) {
+        const assignments = change.fields.map(({ field }) => `${FIELD_COLUMNS[field]} = @${field}`);
+        const values = Object.fromEntries(change.fields.map(({ field, to }) => [field, toColumnValue(to)]));
+        // A changed split can't be edited in YNAB, only re-created
+        const action = change.fields.some(({ field }) => field === 'splits') ? 'recreate' : 'update';
+        db.prepare(`
+          UPDATE transactions
+          SET ${assignments.join(', ')},
+              ynab_pending_action = CASE
+                WHEN ynab_transaction_id IS NULL THEN ynab_pending_action
+                WHEN ynab_pending_action IN ('delete', 'recreate') THEN ynab_pending_action
+                ELSE @action
+              END
+          WHERE id = @id
+        `).run({ ...values, action, id: change.stored.id });
+        counts.updated++;
+      } else if (change.kind === 'new' && change.reparsed) {
+        if (saveTransaction(change.reparsed).outcome === 'inserted') counts.inserted++;
+        markProcessed.run(change.messageId);
+        removeUnparsed(change.messageId);
+      }
+    }
+  });
+  apply();
+
+  return counts;
+}
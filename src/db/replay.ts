@@ -0,0 +1,71 @@
+import { db, rowToTransaction } from './index';
+import { originalTransaction } from './archive';
+import { Transaction } from '../types';
+import { ParserRegistry } from '../parsers/registry';
+import { ConditionalRule, RulesEngine } from '../rules/engine';
+import { MerchantNormalizer } from '../rules/merchants';
+import { diffTransactions, FieldChange } from './reparse';
+
+/**
+ * What rules decide. Memos are left out: rules append to them, so running
+ * rules again over a stored memo always looks like a change.
+ */
+const RULE_FIELDS = ['payee', 'category', 'splits', 'flag', 'unapproved', 'ynabHold'] as const;
+
+export interface ReplayChange {
+  stored: Transaction;
+  fields: FieldChange<typeof RULE_FIELDS[number]>[];
+  rules: ConditionalRule[]; // Candidate rules that matched
+}
+
+export interface ReplayPlan {
+  checked: number;
+  fromStored: number; // Transactions with neither an archived email nor a raw payee: rules ran on their stored payee
+  changes: ReplayChange[];
+  hits: Map<ConditionalRule, number>;
+}
+
+/**
+ * Run merchant normalization and candidate rules over stored transactions and
+ * compare what rules decide (payee, category, splits, flag, approval,
+ * skip/hold) with what is stored. Nothing is written.
+ *
+ * Each transaction starts as it was before normalization when that can be
+ * told (see `originalTransaction`), else as stored, which already went
+ * through the normalization and rules in use at the time.
+ */
+export function planRulesReplay(
+  engine: RulesEngine,
+  merchants: MerchantNormalizer,
+  registry: ParserRegistry,
+  options: { since?: string } = {}
+): ReplayPlan {
+  const rows = db.prepare(`
+    SELECT * FROM transactions
+    WHERE (@since IS NULL OR date >= @since)
+    ORDER BY date ASC, created_at ASC
+  `).all({ since: options.since ?? null }) as any[];
+
+  const plan: ReplayPlan = {
+    checked: 0,
+    fromStored: 0,
+    changes: [],
+    hits: new Map(engine.getRules().map(rule => [rule, 0])),
+  };
+
+  for (const row of rows) {
+    const stored = rowToTransaction(row);
+    const original = originalTransaction(stored, registry);
+    if (!original) plan.fromStored++;
+    plan.checked++;
+
+    const input = original ?? { ...stored, category: undefined, splits: undefined };
+    const { transaction, matched } = engine.applyWithMatches(merchants.apply(input));
+    matched.forEach(rule => plan.hits.set(rule, (plan.hits.get(rule) ?? 0) + 1));
+
+    const fields = diffTransactions(stored, transaction, RULE_FIELDS);
+    if (fields.length > 0) plan.changes.push({ stored, fields, rules: matched });
+  }
+
+  return plan;
+}
@@ -0,0 +1,49 @@
+import { db, rowToTransaction } from './index';
+import { Transaction } from '../types';
+
+/**
+ * Transactions rules kept out of YNAB and not sent since: held ones (the
+ * review queue) and, with `includeSkipped`, skipped ones
+ */
+export function listHeld(options: { includeSkipped?: boolean } = {}): Transaction[] {
+  const holds = options.includeSkipped ? `'hold', 'skip'` : `'hold'`;
+  return db.prepare(`
+    SELECT * FROM transactions
+    WHERE ynab_hold IN (${holds}) AND ynab_transaction_id IS NULL
+    ORDER BY date ASC, created_at ASC
+  `).all().map(rowToTransaction);
+}
+
+export function countHeld(): number {
+  const row = db.prepare(`
+    SELECT COUNT(*) AS count FROM transactions WHERE ynab_hold = 'hold' AND ynab_transaction_id IS NULL
+  `).get() as { count: number };
+  return row.count;
+}
+
+/**
+ * The held or skipped transaction whose id starts with `prefix`. Undefined
+ * when none or more than one does.
+ */
+export function findHeld(prefix: string): Transaction | undefined {
+  const rows = db.prepare(`
+    SELECT * FROM transactions
+    WHERE ynab_hold IS NOT NULL AND ynab_transaction_id IS NULL AND substr(id, 1, length(@prefix)) = @prefix
+    LIMIT 2
+  `).all({ prefix: prefix.trim().toLowerCase() });
+  return rows.length === 1 ? rowToTransaction(rows[0]) : undefined;
+}
+
+/**
+ * Let a held (or skipped) transaction go to YNAB with the next push
+ */
+export function releaseHeld(id: string): void {
+  db.prepare(`UPDATE transactions SET ynab_hold = NULL WHERE id = ?`).run(id);
+}
+
+/**
+ * Keep a held transaction out of YNAB for good
+ */
+export function skipHeld(id: string): void {
+  db.prepare(`UPDATE transactions SET ynab_hold = 'skip' WHERE id = ?`).run(id);
+}
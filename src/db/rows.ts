@@ -0,0 +1,56 @@
+import { Transaction } from '../types';
+
+/**
+ * Named parameters for inserting a Transaction (optional fields default to NULL)
+ */
+export function toTransactionParams(t: Transaction) {
+  return {
+    ...t,
+    account: t.account ?? null,
+    datetime: t.datetime ?? null,
+    rawPayee: t.rawPayee ?? null,
+    transferAccount: t.transferAccount ?? null,
+    status: t.status ?? 'posted',
+    reversalOf: t.reversalOf ?? null,
+    postedAmount: t.postedAmount ?? null,
+    postedCurrency: t.postedCurrency ?? null,
+    category: t.category ?? null,
+    splits: t.splits ? JSON.stringify(t.splits) : null,
+    flag: t.flag ?? null,
+    unapproved: t.unapproved ? 1 : null,
+    ynabHold: t.ynabHold ?? null,
+  };
+}
+
+/**
+ * Map a `transactions` row back to a Transaction
+ */
+export function rowToTransaction(row: any): Transaction {
+  return {
+    id: row.id,
+    bank: row.bank,
+    account: row.account ?? undefined,
+    date: row.date,
+    datetime: row.datetime ?? undefined,
+    payee: row.payee,
+    rawPayee: row.raw_payee ?? undefined,
+    memo: row.memo ?? '',
+    amount: row.amount,
+    currency: row.currency,
+    direction: row.direction,
+    rawMessageId: row.raw_message_id,
+    rawThreadId: row.raw_thread_id,
+    transferAccount: row.transfer_account ?? undefined,
+    status: row.status ?? 'posted',
+    reversalOf: row.reversal_of ?? undefined,
+    postedAmount: row.posted_amount ?? undefined,
+    postedCurrency: row.posted_currency ?? undefined,
+    category: row.category ?? undefined,
+    splits: row.splits ? JSON.parse(row.splits) : undefined,
+    flag: row.flag ?? undefined,
+    unapproved: row.unapproved ? true : undefined,
+    ynabHold: row.ynab_hold ?? undefined,
+    ynabImportRevision: row.ynab_import_revision || undefined,
+    ynabImportId: row.ynab_import_id ?? undefined,
+  };
+}
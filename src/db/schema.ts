@@ -0,0 +1,227 @@
+import Database, { Database as DatabaseType } from 'better-sqlite3';
+import path from 'path';
+import fs from 'fs-extra';
+
+const DB_PATH = path.join(process.cwd(), 'data', 'bank_transactions.db');
+
+/**
+ * Open the database (creating it if needed) and bring its schema up to date
+ */
+export function initDB(dbPath: string = DB_PATH): DatabaseType {
+  if (dbPath !== ':memory:') {
+    fs.ensureDirSync(path.dirname(dbPath));
+  }
+  const db = new Database(dbPath);
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS processed_messages (
+      message_id TEXT PRIMARY KEY,
+      processed_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS transactions (
+      id TEXT PRIMARY KEY,
+      bank TEXT NOT NULL,
+      account TEXT,
+      date TEXT NOT NULL,
+      payee TEXT NOT NULL,
+      memo TEXT,
+      amount REAL NOT NULL,
+      currency TEXT NOT NULL,
+      direction TEXT CHECK(direction IN ('inflow', 'outflow')) NOT NULL,
+      raw_message_id TEXT NOT NULL,
+      raw_thread_id TEXT NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      ynab_transaction_id TEXT,
+      ynab_synced_at DATETIME,
+      ynab_sync_error TEXT
+    );
+
+    CREATE TABLE IF NOT EXISTS unparsed_messages (
+      message_id TEXT PRIMARY KEY,
+      reason TEXT,
+      subject TEXT,
+      date TEXT,
+      attempts INTEGER DEFAULT 1,
+      last_attempt DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_transactions_ynab_synced ON transactions(ynab_synced_at);
+    CREATE INDEX IF NOT EXISTS idx_transactions_ynab_id ON transactions(ynab_transaction_id);
+  `);
+
+  // Migration: Add new error tracking columns if they don't exist
+  try {
+    db.exec(`
+      ALTER TABLE transactions ADD COLUMN ynab_sync_error_type TEXT;
+      ALTER TABLE transactions ADD COLUMN ynab_sync_retry_count INTEGER DEFAULT 0;
+      ALTER TABLE transactions ADD COLUMN ynab_sync_last_retry DATETIME;
+    `);
+  } catch (e: any) {
+    // Columns already exist, ignore error
+    if (!e.message.includes('duplicate column')) {
+      console.warn('Migration warning:', e.message);
+    }
+  }
+
+  // Create indexes for new columns
+  try {
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_transactions_ynab_error ON transactions(ynab_sync_error_type);
+      CREATE INDEX IF NOT EXISTS idx_transactions_ynab_retry ON transactions(ynab_sync_retry_count);
+    `);
+  } catch (e: any) {
+    // Indexes might already exist, ignore
+  }
+
+  addColumnIfMissing(db, 'transactions', 'transfer_account', 'TEXT');
+
+  // Transaction lifecycle (authorized -> posted, reversals, declines)
+  addColumnIfMissing(db, 'transactions', 'status', "TEXT NOT NULL DEFAULT 'posted'");
+  addColumnIfMissing(db, 'transactions', 'reversal_of', 'TEXT');
+  addColumnIfMissing(db, 'transactions', 'reversed_by', 'TEXT');
+  addColumnIfMissing(db, 'transactions', 'ynab_pending_action', 'TEXT'); // 'update' | 'delete' | 'recreate'
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_transactions_status ON transactions(status)`);
+
+  // Multi-currency: amount in the account's currency when the bank reports it,
+  // and exchange rates (1 base = rate quote) used to convert at push time
+  addColumnIfMissing(db, 'transactions', 'posted_amount', 'REAL');
+  addColumnIfMissing(db, 'transactions', 'posted_currency', 'TEXT');
+
+  // Full timestamp in the bank timezone (date is derived from it)
+  addColumnIfMissing(db, 'transactions', 'datetime', 'TEXT');
+
+  // Which fingerprint scheme produced the id (rows from before v2 are 1)
+  addColumnIfMissing(db, 'transactions', 'fingerprint_version', 'INTEGER NOT NULL DEFAULT 1');
+
+  // YNAB category name chosen by rules
+  addColumnIfMissing(db, 'transactions', 'category', 'TEXT');
+  addColumnIfMissing(db, 'transactions', 'splits', 'TEXT'); // JSON TransactionSplit[]
+
+  // Payee as the bank wrote it (payee holds the normalized name)
+  addColumnIfMissing(db, 'transactions', 'raw_payee', 'TEXT');
+
+  // Set by rule actions: YNAB flag color, approved = false, and skip/hold
+  addColumnIfMissing(db, 'transactions', 'flag', 'TEXT');
+  addColumnIfMissing(db, 'transactions', 'unapproved', 'INTEGER');
+  addColumnIfMissing(db, 'transactions', 'ynab_hold', 'TEXT');
+
+  // Bumped when the YNAB copy is deleted to be created again, so the new copy
+  // gets a fresh import_id
+  addColumnIfMissing(db, 'transactions', 'ynab_import_revision', 'INTEGER NOT NULL DEFAULT 0');
+  // import_id derived from the id before migrate-fingerprints rewrote it
+  addColumnIfMissing(db, 'transactions', 'ynab_import_id', 'TEXT');
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS exchange_rates (
+      base TEXT NOT NULL,
+      quote TEXT NOT NULL,
+      date TEXT NOT NULL,
+      rate REAL NOT NULL,
+      source TEXT NOT NULL, -- 'file' (rates file) or 'bank' (derived from a posted amount)
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (base, quote, date, source)
+    );
+  `);
+
+  // Monthly statements and their line items, for reconciliation against notifications
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS statements (
+      id TEXT PRIMARY KEY, -- md5 of bank, account and period
+      bank TEXT NOT NULL,
+      account TEXT,
+      period_start TEXT NOT NULL,
+      period_end TEXT NOT NULL,
+      currency TEXT NOT NULL,
+      message_id TEXT, -- Email the statement came from (NULL for local files)
+      filename TEXT,
+      imported_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      reconciled_at DATETIME
+    );
+
+    CREATE TABLE IF NOT EXISTS statement_lines (
+      statement_id TEXT NOT NULL,
+      line_no INTEGER NOT NULL,
+      date TEXT NOT NULL,
+      posting_date TEXT,
+      description TEXT NOT NULL,
+      amount REAL NOT NULL,
+      currency TEXT NOT NULL,
+      direction TEXT CHECK(direction IN ('inflow', 'outflow')) NOT NULL,
+      matched_transaction_id TEXT, -- NULL: no notification for this line
+      PRIMARY KEY (statement_id, line_no)
+    );
+
+    -- Notified transactions the statement doesn't list
+    CREATE TABLE IF NOT EXISTS statement_missing_transactions (
+      statement_id TEXT NOT NULL,
+      transaction_id TEXT NOT NULL,
+      PRIMARY KEY (statement_id, transaction_id)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_statements_message ON statements(message_id);
+  `);
+
+  // Unparsed queue: sender for grouping, and emails or senders the user chose to ignore
+  addColumnIfMissing(db, 'unparsed_messages', 'from_address', 'TEXT');
+  addColumnIfMissing(db, 'unparsed_messages', 'ignored_at', 'DATETIME');
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS ignored_senders (
+      pattern TEXT PRIMARY KEY, -- Matched case-insensitively anywhere in the From header
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+  `);
+
+  // Copy of every email sync fetched, so parsers can be rerun without the mail source
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS raw_messages (
+      message_id TEXT PRIMARY KEY,
+      source TEXT NOT NULL, -- Mail source it was read from (gmail, imap, local)
+      thread_id TEXT,
+      subject TEXT NOT NULL,
+      from_address TEXT NOT NULL,
+      date TEXT NOT NULL, -- ISO 8601
+      content BLOB NOT NULL, -- gzipped JSON: snippet, plainBody, htmlBody
+      archived_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_raw_messages_date ON raw_messages(date);
+  `);
+
+  // Balances the bank reported, for `reconcile` against YNAB's cleared balance
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS account_balances (
+      account TEXT NOT NULL,
+      date TEXT NOT NULL, -- YYYY-MM-DD the balance is as of
+      amount REAL NOT NULL, -- As the bank shows it: funds for deposit accounts, amount owed for cards
+      currency TEXT NOT NULL,
+      source TEXT NOT NULL, -- 'email', 'statement' or 'manual'
+      reference TEXT NOT NULL, -- Email message id, statement id, or the account and date for manual entries
+      recorded_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (source, reference, currency)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_account_balances_account ON account_balances(account, date);
+  `);
+
+  // State carried between runs, e.g. `checkpoint:gmail` (the last synced history id)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS sync_state (
+      key TEXT PRIMARY KEY,
+      value TEXT NOT NULL,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+  `);
+
+  return db;
+}
+
+/**
+ * Add a column to an existing table unless it is already there
+ */
+function addColumnIfMissing(db: DatabaseType, table: string, column: string, definition: string) {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some(c => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
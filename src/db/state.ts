@@ -0,0 +1,16 @@
+import { db } from './index';
+
+/**
+ * Small key/value store for state carried between runs (e.g. the Gmail history id)
+ */
+export function getSyncState(key: string): string | undefined {
+  const row = db.prepare(`SELECT value FROM sync_state WHERE key = ?`).get(key) as { value: string } | undefined;
+  return row?.value;
+}
+
+export function setSyncState(key: string, value: string): void {
+  db.prepare(`
+    INSERT INTO sync_state (key, value, updated_at) VALUES (?, ?, CURRENT_TIMESTAMP)
+    ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at
+  `).run(key, value);
+}
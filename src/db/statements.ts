@@ -0,0 +1,136 @@
+import crypto from 'crypto';
+import { addDays, format, parse, subDays } from 'date-fns';
+import { db, rowToTransaction } from './index';
+import { SYNCABLE_STATUS_SQL } from './transactions';
+import { recordBalance } from './balances';
+import { Statement, Transaction } from '../types';
+import { Reconciliation, RECONCILE_TOLERANCE_DAYS, reconcileStatement } from '../statements/reconcile';
+
+export function statementId(statement: Statement): string {
+  return crypto
+    .createHash('md5')
+    .update(`${statement.bank}:${statement.account ?? ''}:${statement.periodStart}:${statement.periodEnd}`)
+    .digest('hex');
+}
+
+/**
+ * Whether a statement attachment was already imported
+ */
+export function isStatementImported(messageId: string, filename: string): boolean {
+  return !!db.prepare(`SELECT 1 FROM statements WHERE message_id = ? AND filename = ?`).get(messageId, filename);
+}
+
+/**
+ * Store a statement and its lines (and its closing balance, for `reconcile`),
+ * replacing an earlier import of the same account and period. Returns the
+ * statement id.
+ */
+export function saveStatement(statement: Statement, source: { messageId?: string; filename?: string } = {}): string {
+  const id = statementId(statement);
+
+  const save = db.transaction(() => {
+    db.prepare(`DELETE FROM statement_lines WHERE statement_id = ?`).run(id);
+    db.prepare(`DELETE FROM statement_missing_transactions WHERE statement_id = ?`).run(id);
+    db.prepare(`
+      INSERT OR REPLACE INTO statements (id, bank, account, period_start, period_end, currency, message_id, filename)
+      VALUES (@id, @bank, @account, @periodStart, @periodEnd, @currency, @messageId, @filename)
+    `).run({
+      id,
+      bank: statement.bank,
+      account: statement.account ?? null,
+      periodStart: statement.periodStart,
+      periodEnd: statement.periodEnd,
+      currency: statement.currency,
+      messageId: source.messageId ?? null,
+      filename: source.filename ?? null,
+    });
+
+    const insertLine = db.prepare(`
+      INSERT INTO statement_lines (statement_id, line_no, date, posting_date, description, amount, currency, direction)
+      VALUES (@statementId, @lineNo, @date, @postingDate, @description, @amount, @currency, @direction)
+    `);
+    statement.lines.forEach((line, lineNo) => {
+      insertLine.run({ ...line, postingDate: line.postingDate ?? null, statementId: id, lineNo });
+    });
+
+    if (statement.account && statement.closingBalance !== undefined) {
+      recordBalance({
+        account: statement.account,
+        date: statement.periodEnd,
+        amount: statement.closingBalance,
+        currency: statement.currency,
+        source: 'statement',
+        reference: id,
+      });
+    }
+  });
+  save();
+
+  return id;
+}
+
+/**
+ * Live transactions that could appear on a statement: the account's own, plus
+ * own-account transfers into it (as inflows), dated within the period give or
+ * take the matching tolerance.
+ */
+export function loadStatementCandidates(statement: Statement, toleranceDays: number = RECONCILE_TOLERANCE_DAYS): Transaction[] {
+  const toDate = (value: string) => parse(value, 'yyyy-MM-dd', new Date());
+
+  const rows = db.prepare(`
+    SELECT * FROM transactions
+    WHERE status IN (${SYNCABLE_STATUS_SQL})
+      AND date BETWEEN @from AND @to
+      AND ((bank = @bank AND IFNULL(account, '') = @account) OR transfer_account = @account)
+    ORDER BY date, created_at
+  `).all({
+    bank: statement.bank,
+    account: statement.account ?? '',
+    from: format(subDays(toDate(statement.periodStart), toleranceDays), 'yyyy-MM-dd'),
+    to: format(addDays(toDate(statement.periodEnd), toleranceDays), 'yyyy-MM-dd'),
+  });
+
+  return rows.map(rowToTransaction).map(transaction =>
+    transaction.transferAccount === statement.account && transaction.account !== statement.account
+      ? { ...transaction, direction: 'inflow' as const }
+      : transaction
+  );
+}
+
+/**
+ * Record which lines matched a transaction and which transactions the statement is missing
+ */
+export function recordReconciliation(statement: Statement, reconciliation: Reconciliation): void {
+  const id = statementId(statement);
+
+  const record = db.transaction(() => {
+    const matchLine = db.prepare(`
+      UPDATE statement_lines SET matched_transaction_id = @transactionId
+      WHERE statement_id = @statementId AND line_no = @lineNo
+    `);
+    for (const { line, transaction } of reconciliation.matched) {
+      matchLine.run({ statementId: id, lineNo: statement.lines.indexOf(line), transactionId: transaction.id });
+    }
+
+    db.prepare(`DELETE FROM statement_missing_transactions WHERE statement_id = ?`).run(id);
+    const flagMissing = db.prepare(`
+      INSERT OR IGNORE INTO statement_missing_transactions (statement_id, transaction_id) VALUES (?, ?)
+    `);
+    for (const transaction of reconciliation.missingFromStatement) {
+      flagMissing.run(id, transaction.id);
+    }
+
+    db.prepare(`UPDATE statements SET reconciled_at = CURRENT_TIMESTAMP WHERE id = ?`).run(id);
+  });
+  record();
+}
+
+/**
+ * Store a statement, reconcile it against the stored transactions and record the outcome
+ */
+export function importStatement(statement: Statement, source: { messageId?: string; filename?: string } = {}): Reconciliation {
+  saveStatement(statement, source);
+  const reconciliation = reconcileStatement(statement, loadStatementCandidates(statement));
+  recordReconciliation(statement, reconciliation);
+  return reconciliation;
+}
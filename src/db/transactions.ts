@@ -0,0 +1,264 @@
+import { subDays, format, parse } from 'date-fns';
+import { db, rowToTransaction, toTransactionParams } from './index';
+import { Transaction, TransactionStatus } from '../types';
+import { ExchangeRateStore, rateFromPostedAmount } from '../currency/rates';
+import { FINGERPRINT_VERSION, disambiguateFingerprint } from '../parsers/fingerprint';
+import { merchantsMatch } from '../utils/merchants';
+import { recordBalance } from './balances';
+
+/**
+ * Statuses that are pushed to YNAB. Reversed and declined transactions never are.
+ */
+export const SYNCABLE_STATUSES: TransactionStatus[] = ['authorized', 'posted'];
+
+export const SYNCABLE_STATUS_SQL = SYNCABLE_STATUSES.map(s => `'${s}'`).join(', ');
+
+// How far back a reversal may look for the purchase it reverses
+const REVERSAL_WINDOW_DAYS = 45;
+
+// How far back a posting may look for its authorization, and how far its
+// amount may move (tips, exchange rate) from the authorized one
+const AUTHORIZATION_WINDOW_DAYS = 10;
+const AUTHORIZATION_AMOUNT_TOLERANCE = 0.2;
+
+export type SaveOutcome =
+  | 'inserted' // New transaction
+  | 'duplicate' // Already stored, nothing changed
+  | 'status_changed' // Existing transaction moved along its lifecycle
+  | 'reversal_linked'; // Reversal matched to (and reversing) an earlier purchase
+
+export interface SaveResult {
+  outcome: SaveOutcome;
+  id: string; // Row the transaction is stored in (not its own id when disambiguated or matched by legacyId)
+}
+
+/**
+ * Store a parsed transaction, applying lifecycle transitions:
+ *
+ * - authorized -> posted / declined when a later notification for the same
+ *   purchase arrives (same fingerprint, different status). A posting with
+ *   another fingerprint (a later time, a tip, a different rate) is matched to
+ *   an open authorization by account, merchant and amount, and brings its
+ *   amount, date and email to the row
+ * - a second identical purchase from another email gets its own id instead of
+ *   being dropped as a duplicate
+ * - a reversal is matched back to the original purchase by bank/account/amount/merchant;
+ *   both are marked reversed and the original's YNAB copy is queued for deletion
+ *
+ * Changes to already-synced transactions are queued in `ynab_pending_action`
+ * and applied by the next YNAB sync.
+ */
+export function saveTransaction(transaction: Transaction): SaveResult {
+  const status = transaction.status ?? 'posted';
+
+  if (status === 'reversed' && !transaction.reversalOf) {
+    return saveReversal(transaction);
+  }
+
+  const existing = findExisting(transaction);
+  if (!existing) {
+    // A decline names the exact authorization; only postings are matched loosely
+    const authorization = status === 'posted' ? findAuthorization(transaction) : undefined;
+    if (authorization) {
+      return moveAlong(db.prepare(`SELECT * FROM transactions WHERE id = ?`).get(authorization.id), transaction, status);
+    }
+    insertTransaction({ ...transaction, status });
+    return { outcome: 'inserted', id: transaction.id };
+  }
+
+  if (canTransition(existing.status, status)) {
+    return moveAlong(existing, transaction, status);
+  }
+
+  // Same fingerprint from a different email: a genuine second identical
+  // purchase (e.g. two tolls in the same minute), not a re-delivery
+  if (existing.raw_message_id !== transaction.rawMessageId) {
+    const id = existing.id === transaction.id
+      ? disambiguateFingerprint(transaction.id, transaction.rawMessageId)
+      : transaction.id; // Only the v1 fingerprint matched; the v2 id is free
+    if (db.prepare(`SELECT 1 FROM transactions WHERE id = ?`).get(id)) {
+      return { outcome: 'duplicate', id };
+    }
+    insertTransaction({ ...transaction, id, status });
+    return { outcome: 'inserted', id };
+  }
+
+  return { outcome: 'duplicate', id: existing.id };
+}
+
+/**
+ * The stored row for a transaction: by id, or by its v1 fingerprint for rows
+ * stored before fingerprint v2 (until migrate-fingerprints rewrites them)
+ */
+function findExisting(transaction: Transaction): any {
+  const byId = db.prepare(`SELECT * FROM transactions WHERE id = ?`).get(transaction.id);
+  if (byId || !transaction.legacyId) return byId;
+
+  return db.prepare(`SELECT * FROM transactions WHERE id = ? AND fingerprint_version = 1`).get(transaction.legacyId);
+}
+
+function insertTransaction(transaction: Transaction) {
+  db.prepare(`
+    INSERT OR IGNORE INTO transactions (id, bank, account, date, datetime, payee, raw_payee, memo, amount, currency, direction, raw_message_id, raw_thread_id, transfer_account, status, reversal_of, posted_amount, posted_currency, category, splits, flag, unapproved, ynab_hold, fingerprint_version)
+    VALUES (@id, @bank, @account, @date, @datetime, @payee, @rawPayee, @memo, @amount, @currency, @direction, @rawMessageId, @rawThreadId, @transferAccount, @status, @reversalOf, @postedAmount, @postedCurrency, @category, @splits, @flag, @unapproved, @ynabHold, @fingerprintVersion)
+  `).run({ ...toTransactionParams(transaction), fingerprintVersion: FINGERPRINT_VERSION });
+
+  // The bank's own conversion is the best rate we can get for that day
+  const postedRate = rateFromPostedAmount(transaction);
+  if (postedRate) {
+    new ExchangeRateStore().record(postedRate);
+  }
+  recordEmailBalance(transaction);
+}
+
+/**
+ * Keep the account balance the email shows, for `reconcile`
+ */
+function recordEmailBalance(transaction: Transaction) {
+  if (transaction.balance === undefined || !transaction.account) return;
+  recordBalance({
+    account: transaction.account,
+    date: transaction.date,
+    amount: transaction.balance,
+    currency: transaction.balanceCurrency ?? transaction.currency,
+    source: 'email',
+    reference: transaction.rawMessageId,
+  });
+}
+
+/**
+ * Move a stored authorization to `status`. A declined authorization disappears
+ * from YNAB; a posted one becomes cleared, with the posted amount and date.
+ */
+function moveAlong(existing: any, transaction: Transaction, status: TransactionStatus): SaveResult {
+  const action = existing.ynab_transaction_id
+    ? (status === 'declined' ? 'delete' : 'update')
+    : null;
+  const settled = status === 'posted'
+    ? {
+      amount: transaction.amount,
+      date: transaction.date,
+      datetime: transaction.datetime ?? null,
+      rawMessageId: transaction.rawMessageId,
+      rawThreadId: transaction.rawThreadId,
+    }
+    : {
+      amount: existing.amount,
+      date: existing.date,
+      datetime: existing.datetime,
+      rawMessageId: existing.raw_message_id,
+      rawThreadId: existing.raw_thread_id,
+    };
+
+  db.prepare(`
+    UPDATE transactions
+    SET status = @status,
+        amount = @amount,
+        date = @date,
+        datetime = @datetime,
+        raw_message_id = @rawMessageId,
+        raw_thread_id = @rawThreadId,
+        ynab_pending_action = COALESCE(@action, ynab_pending_action)
+    WHERE id = @id
+  `).run({ id: existing.id, status, action, ...settled });
+  recordEmailBalance(transaction);
+
+  return { outcome: 'status_changed', id: existing.id };
+}
+
+/**
+ * Only an authorization can move on (to posted or declined)
+ */
+function canTransition(from: TransactionStatus, to: TransactionStatus): boolean {
+  return from === 'authorized' && (to === 'posted' || to === 'declined');
+}
+
+function saveReversal(reversal: Transaction): SaveResult {
+  const existing = findExisting(reversal);
+  if (existing) {
+    return { outcome: 'duplicate', id: existing.id };
+  }
+
+  const original = findReversedPurchase(reversal);
+
+  if (!original) {
+    // Nothing to reverse (e.g. the purchase predates our history): keep the
+    // old behaviour and record the reversal as a plain inflow.
+    console.warn(`No purchase found for reversal "${reversal.payee}" (${reversal.amount}); recording it as an inflow`);
+    insertTransaction({ ...reversal, status: 'posted', direction: 'inflow' });
+    return { outcome: 'inserted', id: reversal.id };
+  }
+
+  const link = db.transaction(() => {
+    insertTransaction({ ...reversal, status: 'reversed', reversalOf: original.id });
+    db.prepare(`
+      UPDATE transactions
+      SET status = 'reversed',
+          reversed_by = @reversalId,
+          ynab_pending_action = CASE WHEN ynab_transaction_id IS NOT NULL THEN 'delete' ELSE ynab_pending_action END
+      WHERE id = @id
+    `).run({ id: original.id, reversalId: reversal.id });
+  });
+  link();
+
+  return { outcome: 'reversal_linked', id: reversal.id };
+}
+
+/**
+ * Find the purchase a reversal undoes: same bank, account and amount, an outflow
+ * still live (not already reversed) within the reversal window, with a similar merchant.
+ */
+export function findReversedPurchase(reversal: Transaction): Transaction | undefined {
+  const reversalDate = parse(reversal.date, 'yyyy-MM-dd', new Date());
+  const candidates = db.prepare(`
+    SELECT * FROM transactions
+    WHERE bank = @bank
+      AND IFNULL(account, '') = @account
+      AND ABS(amount - @amount) < 0.005
+      AND direction = 'outflow'
+      AND status IN (${SYNCABLE_STATUS_SQL})
+      AND reversed_by IS NULL
+      AND date BETWEEN @minDate AND @date
+    ORDER BY date DESC, created_at DESC
+  `).all({
+    bank: reversal.bank,
+    account: reversal.account ?? '',
+    amount: reversal.amount,
+    minDate: format(subDays(reversalDate, REVERSAL_WINDOW_DAYS), 'yyyy-MM-dd'),
+    date: reversal.date,
+  }).map(rowToTransaction);
+
+  return candidates.find(candidate => merchantsMatch(candidate.payee, reversal.payee));
+}
+
+/**
+ * Find the open authorization a posting settles: same bank, account, currency
+ * and direction, authorized within the window before it, an amount within the
+ * tolerance and a similar merchant. The closest amount wins.
+ */
+export function findAuthorization(transaction: Transaction): Transaction | undefined {
+  const date = parse(transaction.date, 'yyyy-MM-dd', new Date());
+  const candidates = db.prepare(`
+    SELECT * FROM transactions
+    WHERE bank = @bank
+      AND IFNULL(account, '') = @account
+      AND currency = @currency
+      AND direction = @direction
+      AND status = 'authorized'
+      AND amount BETWEEN @minAmount AND @maxAmount
+      AND date BETWEEN @minDate AND @date
+    ORDER BY ABS(amount - @amount), date DESC, created_at DESC
+  `).all({
+    bank: transaction.bank,
+    account: transaction.account ?? '',
+    currency: transaction.currency,
+    direction: transaction.direction,
+    amount: transaction.amount,
+    minAmount: transaction.amount / (1 + AUTHORIZATION_AMOUNT_TOLERANCE),
+    maxAmount: transaction.amount * (1 + AUTHORIZATION_AMOUNT_TOLERANCE),
+    minDate: format(subDays(date, AUTHORIZATION_WINDOW_DAYS), 'yyyy-MM-dd'),
+    date: transaction.date,
+  }).map(rowToTransaction);
+
+  return candidates.find(candidate => merchantsMatch(candidate.payee, transaction.payee));
+}
@@ -0,0 +1,166 @@
+import { db } from './index';
+import { SaveOutcome, saveTransaction } from './transactions';
+import { GmailMessageData, Transaction } from '../types';
+import { ParserRegistry } from '../parsers/registry';
+
+export interface UnparsedMessage {
+  messageId: string;
+  reason: string;
+  subject: string;
+  from: string; // Empty for entries recorded before the sender was stored (and not archived)
+  date: string;
+  attempts: number;
+  lastAttempt: string;
+  ignored: boolean;
+}
+
+export interface UnparsedRetry {
+  messageId: string;
+  result: 'saved' | 'unparsed' | 'ignored';
+  parser?: string;
+  transaction?: Transaction; // Saved, after rules
+  outcome?: SaveOutcome;
+  error?: string; // Why a transaction that parsed couldn't be saved
+}
+
+function rowToUnparsed(row: any): UnparsedMessage {
+  return {
+    messageId: row.message_id,
+    reason: row.reason ?? '',
+    subject: row.subject ?? '',
+    from: row.from_address ?? '',
+    date: row.date ?? '',
+    attempts: row.attempts ?? 1,
+    lastAttempt: row.last_attempt,
+    ignored: !!row.ignored_at,
+  };
+}
+
+// Older entries have no sender; the archived copy of the email may
+const SELECT_UNPARSED = `
+  SELECT u.*, COALESCE(u.from_address, r.from_address) AS from_address
+  FROM unparsed_messages u
+  LEFT JOIN raw_messages r ON r.message_id = u.message_id
+`;
+
+/**
+ * Add an email to the unparsed queue (or count another attempt) and mark it
+ * processed so sync stops fetching it; `unparsed retry` picks it up again.
+ */
+export function recordUnparsed(message: GmailMessageData, reason: string): void {
+  const record = db.transaction(() => {
+    db.prepare(`
+      INSERT INTO unparsed_messages (message_id, reason, subject, from_address, date, attempts, last_attempt)
+      VALUES (@id, @reason, @subject, @from, @date, 1, CURRENT_TIMESTAMP)
+      ON CONFLICT(message_id) DO UPDATE SET
+        reason = excluded.reason,
+        subject = excluded.subject,
+        from_address = excluded.from_address,
+        date = excluded.date,
+        attempts = unparsed_messages.attempts + 1,
+        last_attempt = excluded.last_attempt
+    `).run({
+      id: message.id,
+      reason,
+      subject: message.subject,
+      from: message.from,
+      date: isNaN(message.date.getTime()) ? null : message.date.toISOString(),
+    });
+    db.prepare(`INSERT OR IGNORE INTO processed_messages (message_id) VALUES (?)`).run(message.id);
+  });
+  record();
+}
+
+/**
+ * Queued emails, newest first. Ignored ones only with `includeIgnored`.
+ */
+export function listUnparsed(options: { includeIgnored?: boolean } = {}): UnparsedMessage[] {
+  const rows = db.prepare(`
+    ${SELECT_UNPARSED}
+    ${options.includeIgnored ? '' : 'WHERE u.ignored_at IS NULL'}
+    ORDER BY u.date DESC
+  `).all();
+  return rows.map(rowToUnparsed);
+}
+
+export function getUnparsed(messageId: string): UnparsedMessage | undefined {
+  const row = db.prepare(`${SELECT_UNPARSED} WHERE u.message_id = ?`).get(messageId);
+  return row ? rowToUnparsed(row) : undefined;
+}
+
+/**
+ * Take an email off the queue once it has produced a transaction
+ */
+export function removeUnparsed(messageId: string): void {
+  db.prepare(`DELETE FROM unparsed_messages WHERE message_id = ?`).run(messageId);
+}
+
+/**
+ * Keep an email in the queue but out of listings and retries
+ */
+export function ignoreUnparsed(messageId: string): boolean {
+  const result = db.prepare(`
+    UPDATE unparsed_messages SET ignored_at = CURRENT_TIMESTAMP WHERE message_id = ? AND ignored_at IS NULL
+  `).run(messageId);
+  return result.changes > 0;
+}
+
+/**
+ * Ignore every email whose From header contains `pattern`, now and in future
+ * syncs. Returns how many queued emails it ignored.
+ */
+export function ignoreSender(pattern: string): number {
+  const ignore = db.transaction(() => {
+    db.prepare(`INSERT OR IGNORE INTO ignored_senders (pattern) VALUES (?)`).run(pattern);
+    const matching = listUnparsed().filter(message => senderMatches(message.from, [pattern]));
+    matching.forEach(message => ignoreUnparsed(message.messageId));
+    return matching.length;
+  });
+  return ignore();
+}
+
+export function loadIgnoredSenders(): string[] {
+  const rows = db.prepare(`SELECT pattern FROM ignored_senders ORDER BY pattern`).all() as { pattern: string }[];
+  return rows.map(row => row.pattern);
+}
+
+export function senderMatches(from: string, patterns: string[]): boolean {
+  const sender = from.toLowerCase();
+  return patterns.some(pattern => sender.includes(pattern.toLowerCase()));
+}
+
+/**
+ * Parse queued emails again and save what now parses, taking it off the
+ * queue. An email that still fails (no parser, or an error while saving) stays
+ * queued with the reason, without stopping the rest.
+ */
+export function retryUnparsedMessages(
+  messages: GmailMessageData[],
+  registry: ParserRegistry,
+  normalize: (transaction: Transaction) => Transaction,
+  ignoredSenders: string[]
+): UnparsedRetry[] {
+  return messages.map(message => {
+    if (senderMatches(message.from, ignoredSenders)) {
+      ignoreUnparsed(message.id);
+      return { messageId: message.id, result: 'ignored' };
+    }
+
+    const parser = registry.findParser(message);
+    try {
+      const transaction = parser ? parser.parse(message) : null;
+      if (!transaction) {
+        recordUnparsed(message, parser ? 'Parser returned null' : 'No parser matched');
+        return { messageId: message.id, result: 'unparsed', parser: parser?.name };
+      }
+
+      const normalized = normalize(transaction);
+      const { outcome } = saveTransaction(normalized);
+      removeUnparsed(message.id);
+      return { messageId: message.id, result: 'saved', parser: parser!.name, transaction: normalized, outcome };
+    } catch (error: any) {
+      recordUnparsed(message, `Retry failed: ${error.message}`);
+      return { messageId: message.id, result: 'unparsed', parser: parser?.name, error: error.message };
+    }
+  });
+}
@@ -0,0 +1,91 @@
+import { GmailClient } from '../client';
+
+jest.mock('../auth', () => ({ authorize: async () => ({}) }));
+jest.mock('googleapis', () => ({ google: { gmail: () => mockGmail } }));
+
+const notFound = () => Object.assign(new Error('Requested entity was not found.'), { response: { status: 404, data: {} } });
+
+// Headers of the messages in the mailbox; missing ids were deleted
+const mockHeaders: Record<string, { From: string; Subject: string; Date: string }> = {
+  bhd: { From: 'BHD <alertas@bhd.com.do>', Subject: 'Notificación', Date: 'Mon, 10 Nov 2025 10:00:00 -0400' },
+  old: { From: 'BHD <alertas@bhd.com.do>', Subject: 'Notificación', Date: 'Mon, 06 Oct 2025 10:00:00 -0400' },
+  news: { From: 'News <news@example.com>', Subject: 'Weekly news', Date: 'Tue, 11 Nov 2025 10:00:00 -0400' },
+};
+
+const mockGmail = {
+  users: {
+    history: { list: jest.fn() },
+    messages: {
+      // What the sender-scoped search finds in the lookback window
+      list: jest.fn(async () => ({ data: { messages: [{ id: 'bhd' }, { id: 'earlier' }] } })),
+      get: jest.fn(async ({ id, format }: { id: string; format: string }) => {
+        const headers = mockHeaders[id];
+        if (!headers) throw notFound();
+        return {
+          data: {
+            id,
+            threadId: id,
+            snippet: '',
+            payload: {
+              mimeType: 'text/plain',
+              headers: Object.entries(headers).map(([name, value]) => ({ name, value })),
+              body: format === 'full' ? { data: Buffer.from(`Body of ${id}`).toString('base64') } : {},
+            },
+          },
+        };
+      }),
+    },
+  },
+};
+
+const query = { after: new Date('2025-11-01T00:00:00Z'), searchTerms: ['from:alertas@bhd.com.do'] };
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('GmailClient.listMessageIdsSince', () => {
+  it('collects added messages across pages and keeps those the query lists', async () => {
+    mockGmail.users.history.list
+      .mockResolvedValueOnce({ data: { history: [{ messagesAdded: [{ message: { id: 'bhd' } }, { message: { id: 'news' } }] }], nextPageToken: 'p2' } })
+      .mockResolvedValueOnce({ data: { history: [{ messagesAdded: [{ message: { id: 'old' } }, { message: { id: 'bhd' } }, { message: { id: 'deleted' } }] }] } });
+
+    const ids = await new GmailClient().listMessageIdsSince('1000', query);
+
+    expect(ids).toEqual(['bhd']);
+    expect(mockGmail.users.history.list).toHaveBeenCalledTimes(2);
+    expect(mockGmail.users.history.list.mock.calls[0][0]).toMatchObject({ startHistoryId: '1000', historyTypes: ['messageAdded'] });
+    expect(mockGmail.users.history.list.mock.calls[1][0]).toMatchObject({ pageToken: 'p2' });
+    // One search instead of a request per added message
+    expect(mockGmail.users.messages.list).toHaveBeenCalledTimes(1);
+    expect((mockGmail.users.messages.list.mock.calls[0] as any[])[0].q).toContain('from:alertas@bhd.com.do');
+    expect(mockGmail.users.messages.get).not.toHaveBeenCalled();
+  });
+
+  it('skips the search when nothing was added', async () => {
+    mockGmail.users.history.list.mockResolvedValueOnce({ data: {} });
+
+    expect(await new GmailClient().listMessageIdsSince('1000', query)).toEqual([]);
+    expect(mockGmail.users.messages.list).not.toHaveBeenCalled();
+  });
+
+  it('returns null when the history id has expired', async () => {
+    mockGmail.users.history.list.mockRejectedValueOnce(notFound());
+
+    expect(await new GmailClient().listMessageIdsSince('1', query)).toBeNull();
+  });
+});
+
+describe('GmailClient.getMessages', () => {
+  it('leaves out messages it could not fetch', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const client = new GmailClient({ metadataPrefilter: true });
+
+    const { messages, rejected } = await client.getMessages(['bhd', 'news', 'deleted'], {
+      prefilter: message => message.from.includes('bhd.com.do'),
+    });
+
+    expect(messages.map(message => [message.id, message.plainBody])).toEqual([['bhd', 'Body of bhd']]);
+    expect(rejected.map(message => message.id)).toEqual(['news']);
+  });
+});
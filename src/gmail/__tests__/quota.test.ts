@@ -0,0 +1,82 @@
+import { QuotaThrottle, throttledRequest } from '../quota';
+import { AppError, ErrorType } from '../../utils/errors';
+
+const rateLimited = () => Object.assign(new Error('User-rate limit exceeded'), {
+  response: { status: 403, data: { error: { errors: [{ reason: 'userRateLimitExceeded' }] } } },
+});
+
+/**
+ * Whether a promise settles within `ms` of fake time
+ */
+async function settlesWithin(promise: Promise<unknown>, ms: number): Promise<boolean> {
+  let settled = false;
+  promise.then(() => { settled = true; }, () => { settled = true; });
+  await jest.advanceTimersByTimeAsync(ms);
+  return settled;
+}
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('QuotaThrottle', () => {
+  it('hands out the per-second budget, then makes callers wait for it to refill', async () => {
+    const throttle = new QuotaThrottle(10);
+
+    expect(await settlesWithin(throttle.acquire(10), 0)).toBe(true);
+    const next = throttle.acquire(5);
+    expect(await settlesWithin(next, 400)).toBe(false);
+    expect(await settlesWithin(next, 100)).toBe(true);
+  });
+
+  it('serves callers in arrival order and holds everyone during a pause', async () => {
+    const throttle = new QuotaThrottle(10);
+    const order: number[] = [];
+    throttle.pause(2000);
+
+    const first = throttle.acquire(5).then(() => order.push(1));
+    const second = throttle.acquire(5).then(() => order.push(2));
+
+    // The budget is empty after a pause: 500 ms each once it ends
+    expect(await settlesWithin(first, 2400)).toBe(false);
+    expect(await settlesWithin(first, 100)).toBe(true);
+    expect(await settlesWithin(second, 500)).toBe(true);
+    expect(order).toEqual([1, 2]);
+  });
+
+  it('rejects a quota that is not a positive number', () => {
+    expect(() => new QuotaThrottle(0)).toThrow('Invalid Gmail quota');
+  });
+});
+
+describe('throttledRequest', () => {
+  it('retries Gmail rate-limit errors, pausing the throttle', async () => {
+    const throttle = new QuotaThrottle(250);
+    const pause = jest.spyOn(throttle, 'pause');
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const request = jest.fn()
+      .mockRejectedValueOnce(rateLimited())
+      .mockResolvedValueOnce('ok');
+
+    const result = throttledRequest(throttle, 5, request);
+    await jest.advanceTimersByTimeAsync(5000);
+
+    await expect(result).resolves.toBe('ok');
+    expect(request).toHaveBeenCalledTimes(2);
+    expect(pause).toHaveBeenCalledWith(1000);
+  });
+
+  it('fails right away on errors that are not retryable', async () => {
+    const request = jest.fn().mockRejectedValue(Object.assign(new Error('Not Found'), { response: { status: 404, data: {} } }));
+
+    const result = throttledRequest(new QuotaThrottle(), 5, request);
+
+    await expect(result).rejects.toBeInstanceOf(AppError);
+    await expect(result).rejects.toMatchObject({ type: ErrorType.NOT_FOUND });
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,9 +1,24 @@
 import { google, gmail_v1 } from 'googleapis';
 import { authorize } from './auth';
-import { GmailMessageData } from '../types';
+import { GmailMessageData, MailAttachment } from '../types';
+import { FetchedMessages, FetchOptions, MailQuery, MailSource, formatMailQuery } from '../mail/source';
+import { GmailFetchConfig } from '../config/mail';
+import { classifyError, ErrorType } from '../utils/errors';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { GMAIL_QUOTA_UNITS, QuotaThrottle, throttledRequest } from './quota';
 
-export class GmailClient {
+const DEFAULT_CONCURRENCY = 10;
+
+export class GmailClient implements MailSource {
+  readonly name = 'gmail';
   private gmail: gmail_v1.Gmail | null = null;
+  private throttle: QuotaThrottle;
+  private concurrency: number;
+
+  constructor(private config: GmailFetchConfig = {}) {
+    this.throttle = new QuotaThrottle(config.quotaUnitsPerSecond);
+    this.concurrency = config.concurrency || DEFAULT_CONCURRENCY;
+  }
 
   async init() {
     const auth = await authorize();
@@ -17,12 +32,12 @@ export class GmailClient {
     let nextPageToken: string | undefined = undefined;
 
     do {
-      const res: any = await this.gmail!.users.messages.list({
+      const res: any = await this.request(GMAIL_QUOTA_UNITS.messagesList, () => this.gmail!.users.messages.list({
         userId: 'me',
         q: query,
         pageToken: nextPageToken,
         maxResults: 500
-      });
+      }));
 
       if (res.data.messages) {
         messages = messages.concat(res.data.messages);
@@ -34,15 +49,151 @@ export class GmailClient {
     return messages;
   }
 
+  async listMessageIds(query: MailQuery): Promise<string[]> {
+    const messages = await this.listMessages(formatMailQuery(query));
+    return messages.map(message => message.id!);
+  }
+
+  /**
+   * The mailbox's current history id
+   */
+  async getCheckpoint(): Promise<string> {
+    if (!this.gmail) await this.init();
+
+    const res = await this.request(GMAIL_QUOTA_UNITS.getProfile, () => this.gmail!.users.getProfile({ userId: 'me' }));
+    return res.data.historyId!;
+  }
+
+  /**
+   * Messages added since a history id (users.history.list) that the query's
+   * search also lists; history covers every sender, so it is intersected with
+   * one `messages.list` rather than fetching each added message's headers.
+   * Returns null when Gmail no longer has history that old (about a week).
+   */
+  async listMessageIdsSince(historyId: string, query: MailQuery): Promise<string[] | null> {
+    if (!this.gmail) await this.init();
+
+    const added = new Set<string>();
+    let pageToken: string | undefined = undefined;
+
+    try {
+      do {
+        const res: any = await this.request(GMAIL_QUOTA_UNITS.historyList, () => this.gmail!.users.history.list({
+          userId: 'me',
+          startHistoryId: historyId,
+          historyTypes: ['messageAdded'],
+          pageToken,
+          maxResults: 500,
+        }));
+
+        for (const record of res.data.history || []) {
+          for (const { message } of record.messagesAdded || []) {
+            if (message?.id) added.add(message.id);
+          }
+        }
+        pageToken = res.data.nextPageToken || undefined;
+      } while (pageToken);
+    } catch (error) {
+      if (classifyError(error).type === ErrorType.NOT_FOUND) return null;
+      throw error;
+    }
+
+    if (added.size === 0) return [];
+
+    // Deleted messages drop out here too
+    const matching = new Set(await this.listMessageIds(query));
+    return [...added].filter(id => matching.has(id));
+  }
+
+  /**
+   * Fetch messages `concurrency` at a time within the Gmail quota. With
+   * `metadataPrefilter` enabled, headers are fetched first and only messages
+   * the prefilter accepts are downloaded in full; that costs an extra request
+   * per message, so it only pays off when the search returns many emails no
+   * parser handles.
+   */
+  async getMessages(ids: string[], options: FetchOptions = {}): Promise<FetchedMessages> {
+    if (!this.gmail) await this.init();
+
+    let wanted = ids;
+    const rejected: GmailMessageData[] = [];
+
+    if (this.config.metadataPrefilter && options.prefilter) {
+      const headers = await mapWithConcurrency(ids, this.concurrency, async id => {
+        try {
+          return await this.getHeaders(id);
+        } catch (error) {
+          console.error(`Failed to fetch headers of message ${id}`, error);
+          return null;
+        }
+      });
+
+      wanted = [];
+      for (const message of headers) {
+        if (!message) continue;
+        if (options.prefilter(message)) {
+          wanted.push(message.id);
+        } else {
+          rejected.push(message);
+        }
+      }
+    }
+
+    const messages = await mapWithConcurrency(wanted, this.concurrency, id => this.getMessage(id));
+    return {
+      messages: messages.filter((message): message is GmailMessageData => message !== null),
+      rejected,
+    };
+  }
+
+  /**
+   * A message with headers only (no bodies or attachments), or null if it has
+   * been deleted since it was listed
+   */
+  private async getHeaders(id: string): Promise<GmailMessageData | null> {
+    try {
+      const res = await this.request(GMAIL_QUOTA_UNITS.messagesGet, () => this.gmail!.users.messages.get({
+        userId: 'me',
+        id,
+        format: 'metadata',
+        metadataHeaders: ['From', 'Subject', 'Date'],
+      }));
+      const headers = res.data.payload?.headers || [];
+      const header = (name: string) => headers.find(h => h.name === name)?.value || '';
+
+      return {
+        id,
+        threadId: res.data.threadId!,
+        subject: header('Subject'),
+        from: header('From'),
+        date: new Date(header('Date') || Number(res.data.internalDate)),
+        snippet: res.data.snippet || '',
+        plainBody: '',
+        htmlBody: '',
+      };
+    } catch (error) {
+      if (classifyError(error).type === ErrorType.NOT_FOUND) return null;
+      throw error;
+    }
+  }
+
+  private request<T>(units: number, call: () => Promise<T>): Promise<T> {
+    return throttledRequest(this.throttle, units, call);
+  }
+
+  async close() {
+    // Nothing to release: the API client holds no connection
+  }
+
   async getMessage(id: string): Promise<GmailMessageData | null> {
     if (!this.gmail) await this.init();
 
     try {
-      const res = await this.gmail!.users.messages.get({
+      const res = await this.request(GMAIL_QUOTA_UNITS.messagesGet, () => this.gmail!.users.messages.get({
         userId: 'me',
         id: id,
         format: 'full',
-      });
+      }));
 
       const payload = res.data.payload;
       if (!payload) return null;
@@ -56,12 +207,21 @@ export class GmailClient {
 
       let plainBody = '';
       let htmlBody = '';
+      const attachments: MailAttachment[] = [];
 
       const getBody = (parts: gmail_v1.Schema$MessagePart[]): { plain: string, html: string } => {
         let plain = '';
         let html = '';
         for (const part of parts) {
-          if (part.mimeType === 'text/plain' && part.body?.data) {
+          if (part.filename && part.body?.attachmentId) {
+            // Only the metadata comes with the message; content is fetched on demand
+            attachments.push({
+              filename: part.filename,
+              mimeType: part.mimeType || 'application/octet-stream',
+              size: part.body.size || 0,
+              attachmentId: part.body.attachmentId,
+            });
+          } else if (part.mimeType === 'text/plain' && part.body?.data) {
             plain += Buffer.from(part.body.data, 'base64').toString('utf-8');
           } else if (part.mimeType === 'text/html' && part.body?.data) {
             html += Buffer.from(part.body.data, 'base64').toString('utf-8');
@@ -94,7 +254,8 @@ export class GmailClient {
         date,
         snippet,
         plainBody,
-        htmlBody
+        htmlBody,
+        attachments
       };
     } catch (error) {
       console.error(`Failed to fetch message ${id}`, error);
@@ -102,6 +263,25 @@ export class GmailClient {
     }
   }
 
+  /**
+   * Download an attachment's content (only its metadata comes with getMessage)
+   */
+  async getAttachment(messageId: string, attachment: MailAttachment): Promise<Buffer> {
+    if (attachment.data) return attachment.data;
+    if (!this.gmail) await this.init();
+
+    const res = await this.request(GMAIL_QUOTA_UNITS.attachmentsGet, () => this.gmail!.users.messages.attachments.get({
+      userId: 'me',
+      messageId,
+      id: attachment.attachmentId,
+    }));
+
+    if (!res.data.data) {
+      throw new Error(`Attachment ${attachment.filename} of message ${messageId} is empty`);
+    }
+    return Buffer.from(res.data.data, 'base64');
+  }
+
   /**
    * Encode email subject for RFC 2047 (handles UTF-8 characters like emojis)
    */
@@ -0,0 +1,125 @@
+import { AppError, ErrorType, classifyError, retryWithBackoff, sleep } from '../utils/errors';
+
+/**
+ * Gmail API quota cost of each method we call, in quota units
+ * (https://developers.google.com/gmail/api/reference/quota)
+ */
+export const GMAIL_QUOTA_UNITS = {
+  getProfile: 1,
+  historyList: 2,
+  messagesList: 5,
+  messagesGet: 5,
+  attachmentsGet: 5,
+  messagesSend: 100,
+};
+
+// Gmail allows 250 quota units per user per second
+export const DEFAULT_QUOTA_UNITS_PER_SECOND = 250;
+
+/**
+ * Token bucket over Gmail's per-user quota. Every request waits for its units
+ * before it is sent, so any number of concurrent fetches stay under the
+ * per-second limit; a rate-limit response pauses everyone, not just the
+ * request that hit it.
+ */
+export class QuotaThrottle {
+  private available: number;
+  private lastRefill = Date.now();
+  private pausedUntil = 0;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private unitsPerSecond: number = DEFAULT_QUOTA_UNITS_PER_SECOND) {
+    if (!(unitsPerSecond > 0)) {
+      throw new Error(`Invalid Gmail quota "${unitsPerSecond}": expected a positive number of units per second`);
+    }
+    this.available = unitsPerSecond;
+  }
+
+  /**
+   * Wait until `units` can be spent. Callers are served in arrival order.
+   */
+  acquire(units: number): Promise<void> {
+    const turn = this.queue.then(() => this.waitFor(Math.min(units, this.unitsPerSecond)));
+    this.queue = turn;
+    return turn;
+  }
+
+  /**
+   * Stop handing out units for a while (after the server said we went too fast)
+   */
+  pause(ms: number) {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+    this.available = 0;
+  }
+
+  private async waitFor(units: number) {
+    for (;;) {
+      const now = Date.now();
+      if (now < this.pausedUntil) {
+        await sleep(this.pausedUntil - now);
+        this.lastRefill = Date.now();
+        continue;
+      }
+
+      this.available = Math.min(
+        this.unitsPerSecond,
+        this.available + ((now - this.lastRefill) / 1000) * this.unitsPerSecond
+      );
+      this.lastRefill = now;
+
+      if (this.available >= units) {
+        this.available -= units;
+        return;
+      }
+      await sleep(Math.ceil(((units - this.available) / this.unitsPerSecond) * 1000));
+    }
+  }
+}
+
+/**
+ * classifyError, plus Gmail's quota errors: it reports an exhausted per-user
+ * quota as 403 `userRateLimitExceeded`/`rateLimitExceeded` rather than 429
+ */
+export function classifyGmailError(error: any): AppError {
+  const status = error?.response?.status;
+  const reasons: string[] = (error?.response?.data?.error?.errors || []).map((e: any) => e.reason);
+
+  if (status === 403 && reasons.some(reason => /rateLimitExceeded/i.test(reason))) {
+    return new AppError({
+      type: ErrorType.RATE_LIMIT,
+      message: `Gmail quota exceeded: ${error.message}`,
+      retryable: true,
+      httpStatus: status,
+      originalError: error,
+    });
+  }
+
+  return classifyError(error);
+}
+
+/**
+ * Run a Gmail API call within the quota, retrying transient failures with
+ * backoff. Rate-limit failures also pause the throttle for the backoff delay.
+ */
+export function throttledRequest<T>(throttle: QuotaThrottle, units: number, request: () => Promise<T>): Promise<T> {
+  const initialDelay = 1000;
+
+  return retryWithBackoff(
+    async () => {
+      await throttle.acquire(units);
+      try {
+        return await request();
+      } catch (error) {
+        throw classifyGmailError(error);
+      }
+    },
+    {
+      initialDelay,
+      onRetry: (error, attempt) => {
+        if (error.type === ErrorType.RATE_LIMIT) {
+          throttle.pause(initialDelay * Math.pow(2, attempt - 1));
+        }
+      },
+    }
+  );
+}
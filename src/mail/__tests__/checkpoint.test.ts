@@ -0,0 +1,73 @@
+import { advanceCheckpoint, listMessagesToSync } from '../checkpoint';
+import { MailSource } from '../source';
+import { getSyncState, setSyncState } from '../../db/state';
+import { db } from '../../db';
+
+jest.mock('../../db', () => ({ db: jest.requireActual('../../db/schema').initDB(':memory:') }));
+
+const query = { after: new Date('2025-11-01T00:00:00Z'), searchTerms: ['from:alertas@bhd.com.do'] };
+
+function source(history: string[] | null): MailSource & { listMessageIds: jest.Mock; listMessageIdsSince: jest.Mock } {
+  return {
+    name: 'gmail',
+    init: async () => undefined,
+    close: async () => undefined,
+    getMessage: async () => null,
+    getAttachment: async () => Buffer.alloc(0),
+    getCheckpoint: async () => '2000',
+    listMessageIds: jest.fn(async () => ['a', 'b', 'c']),
+    listMessageIdsSince: jest.fn(async () => history),
+  };
+}
+
+beforeEach(() => {
+  db.exec(`DELETE FROM sync_state`);
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('listMessagesToSync', () => {
+  it('lists only what was added since the stored checkpoint', async () => {
+    setSyncState('checkpoint:gmail', '1000');
+    const mail = source(['c']);
+
+    expect(await listMessagesToSync(mail, query, false)).toEqual({ messageIds: ['c'], checkpoint: '2000' });
+    expect(mail.listMessageIdsSince).toHaveBeenCalledWith('1000', query);
+    expect(mail.listMessageIds).not.toHaveBeenCalled();
+  });
+
+  it('scans the lookback window when the checkpoint has expired', async () => {
+    setSyncState('checkpoint:gmail', '1000');
+    const mail = source(null);
+
+    expect(await listMessagesToSync(mail, query, false)).toEqual({ messageIds: ['a', 'b', 'c'], checkpoint: '2000' });
+    expect(mail.listMessageIds).toHaveBeenCalledWith(query);
+  });
+
+  it('scans the lookback window on the first run or when asked to', async () => {
+    const mail = source(['c']);
+    expect((await listMessagesToSync(mail, query, false)).messageIds).toEqual(['a', 'b', 'c']);
+
+    setSyncState('checkpoint:gmail', '1000');
+    expect((await listMessagesToSync(mail, query, true)).messageIds).toEqual(['a', 'b', 'c']);
+    expect(mail.listMessageIdsSince).not.toHaveBeenCalled();
+  });
+});
+
+describe('advanceCheckpoint', () => {
+  it('keeps the previous checkpoint while listed messages are unfinished', () => {
+    const mail = source([]);
+    setSyncState('checkpoint:gmail', '1000');
+
+    expect(advanceCheckpoint(mail, '2000', ['b'])).toBe(false);
+    expect(getSyncState('checkpoint:gmail')).toBe('1000');
+
+    expect(advanceCheckpoint(mail, '2000', [])).toBe(true);
+    expect(getSyncState('checkpoint:gmail')).toBe('2000');
+    expect(advanceCheckpoint(mail, undefined, [])).toBe(false);
+  });
+});
@@ -0,0 +1,118 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { ImapFlow, SearchObject } from 'imapflow';
+import { ImapMailSource } from '../imap';
+
+// An in-memory mailbox behind the parts of ImapFlow the source uses
+jest.mock('imapflow', () => ({
+  ImapFlow: jest.fn().mockImplementation(() => new MockImapFlow()),
+}));
+
+const CARIBE_DIR = path.join(process.cwd(), 'fixtures', 'parsers', 'caribe');
+
+const NEWSLETTER = [
+  'Message-ID: <newsletter-1@example.com>',
+  'Date: Sat, 08 Nov 2025 09:00:00 -0400',
+  'From: News <news@example.com>',
+  'Subject: Weekly news',
+  '',
+  'Nothing about banks.',
+  '',
+].join('\r\n');
+
+const mockMailbox = [
+  ...['consumo.eml', 'pago-recibido.eml', 'credito.eml'].map(file => fs.readFileSync(path.join(CARIBE_DIR, file), 'utf-8')),
+  NEWSLETTER,
+].map((source, index) => ({ uid: 101 + index, source }));
+
+function header(source: string, name: string): string {
+  return source.match(new RegExp(`^${name}: (.*)$`, 'mi'))?.[1].trim() || '';
+}
+
+class MockImapFlow {
+  connect = jest.fn(async () => undefined);
+  logout = jest.fn(async () => undefined);
+  searches: SearchObject[] = [];
+
+  async getMailboxLock() {
+    return { release: () => undefined };
+  }
+
+  async search(search: SearchObject) {
+    this.searches.push(search);
+    const day = (date: Date) => date.toISOString().substring(0, 10);
+    const fromMatches = (source: string, from?: string) => !from || header(source, 'From').toLowerCase().includes(from);
+
+    return mockMailbox
+      .filter(({ source }) => !search.since || day(new Date(header(source, 'Date'))) >= day(new Date(search.since)))
+      .filter(({ source }) => fromMatches(source, search.from) && (!search.or || search.or.some(or => fromMatches(source, or.from))))
+      .filter(({ source }) => !search.header || header(source, 'Message-ID') === `<${search.header['message-id']}>`)
+      .map(({ uid }) => uid);
+  }
+
+  async *fetch(uids: number[]) {
+    for (const { uid, source } of mockMailbox.filter(message => uids.includes(message.uid))) {
+      yield { uid, envelope: { messageId: header(source, 'Message-ID') } };
+    }
+  }
+
+  async fetchOne(uid: string) {
+    const message = mockMailbox.find(candidate => String(candidate.uid) === uid);
+    return message && { uid: message.uid, source: Buffer.from(message.source) };
+  }
+}
+
+const config = { host: 'imap.example.com', user: 'cliente@example.com', password: 'secret' };
+const caribe = 'from:NOTIFICACIONES@bancocaribe.com.do';
+
+function client(): MockImapFlow {
+  const mock = ImapFlow as unknown as jest.Mock;
+  return mock.mock.results[mock.mock.results.length - 1].value;
+}
+
+describe('ImapMailSource', () => {
+  it('lists messages by date and sender, with Message-ID as the id', async () => {
+    const source = new ImapMailSource(config);
+
+    const ids = await source.listMessageIds({ after: new Date('2025-11-15T12:00:00Z'), searchTerms: [caribe] });
+
+    expect(ids).toEqual(['20251115131005.1120@bancocaribe.com.do', '20251201120003.0457@bancocaribe.com.do']);
+    expect(client().searches[0]).toEqual({ since: new Date('2025-11-15T12:00:00Z'), from: 'notificaciones@bancocaribe.com.do' });
+    expect(ImapFlow).toHaveBeenLastCalledWith(expect.objectContaining({ host: 'imap.example.com', port: 993, secure: true }));
+
+    await source.listMessageIds({ after: new Date('2025-11-01T00:00:00Z'), searchTerms: [caribe, 'from:news@example.com'] });
+    expect(client().searches[1].or).toEqual([{ from: 'notificaciones@bancocaribe.com.do' }, { from: 'news@example.com' }]);
+  });
+
+  it('builds GmailMessageData from the raw message', async () => {
+    const source = new ImapMailSource(config);
+    const [id] = await source.listMessageIds({ after: new Date('2025-11-01T00:00:00Z'), searchTerms: [caribe] });
+
+    const message = await source.getMessage(id);
+
+    expect(message).toMatchObject({
+      id: '20251107164250.8842@bancocaribe.com.do',
+      threadId: '20251107164250.8842@bancocaribe.com.do',
+      subject: 'Notificación Caribe',
+      date: new Date('2025-11-07T16:42:50Z'),
+    });
+    expect(message!.from).toContain('NOTIFICACIONES@bancocaribe.com.do');
+    expect(message!.plainBody).toContain('terminada en 1469');
+    expect(message!.htmlBody).toContain('Monto: 14,920.82');
+  });
+
+  it('finds messages it did not list by their Message-ID header', async () => {
+    const source = new ImapMailSource(config);
+
+    expect((await source.getMessage('newsletter-1@example.com'))?.subject).toBe('Weekly news');
+    expect(client().searches).toEqual([{ header: { 'message-id': 'newsletter-1@example.com' } }]);
+    expect(await source.getMessage('missing@example.com')).toBeNull();
+
+    await source.close();
+    expect(client().logout).toHaveBeenCalled();
+  });
+
+  it('requires a host and user', async () => {
+    await expect(new ImapMailSource({ host: '', user: '' }).init()).rejects.toThrow('IMAP host and user are required');
+  });
+});
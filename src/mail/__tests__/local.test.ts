@@ -0,0 +1,110 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { LocalMailSource, splitMbox } from '../local';
+import { fetchMessages, MailSource, sendersFromSearchTerms } from '../source';
+
+const CARIBE_DIR = path.join(process.cwd(), 'fixtures', 'parsers', 'caribe');
+const CARIBE_FILES = ['consumo.eml', 'credito.eml', 'devolucion.eml', 'pago-recibido.eml'];
+
+const OTHER_SENDER = [
+  'Message-ID: <newsletter-1@example.com>',
+  'Date: Sat, 08 Nov 2025 09:00:00 -0400',
+  'From: News <news@example.com>',
+  'Subject: Weekly news',
+  '',
+  'From the editor: nothing about banks.',
+  '',
+].join('\r\n');
+
+function mbox(messages: string[]): string {
+  return messages.map(message => `From MAILER-DAEMON Sat Nov  8 09:00:00 2025\n${message.replace(/^(>*From )/gm, '>$1')}\n`).join('');
+}
+
+describe('LocalMailSource', () => {
+  let dir: string;
+  const caribeMessages = CARIBE_FILES.map(file => fs.readFileSync(path.join(CARIBE_DIR, file), 'utf-8'));
+  const query = { after: new Date('2025-01-01T00:00:00Z'), searchTerms: ['from:NOTIFICACIONES@bancocaribe.com.do'] };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mail-source-'));
+  });
+
+  afterEach(() => {
+    fs.removeSync(dir);
+  });
+
+  it('reads an mbox export, filtering by sender and date', async () => {
+    const file = path.join(dir, 'export.mbox');
+    fs.writeFileSync(file, mbox([...caribeMessages, OTHER_SENDER]));
+    const source = new LocalMailSource(file);
+
+    const ids = await source.listMessageIds(query);
+    expect(ids).toHaveLength(CARIBE_FILES.length);
+    expect(ids[0]).toBe('20251107164250.8842@bancocaribe.com.do');
+
+    const message = await source.getMessage(ids[0]);
+    expect(message).toMatchObject({ id: ids[0], subject: 'Notificación Caribe' });
+    expect(message!.from).toContain('NOTIFICACIONES@bancocaribe.com.do');
+
+    expect(await source.listMessageIds({ ...query, after: new Date('2030-01-01T00:00:00Z') })).toEqual([]);
+  });
+
+  it('undoes From quoting in mbox bodies', async () => {
+    const [message] = splitMbox(Buffer.from(mbox([OTHER_SENDER])));
+    expect(message.toString()).toContain('\r\nFrom the editor');
+  });
+
+  it('reads Maildir directories', async () => {
+    fs.ensureDirSync(path.join(dir, 'cur'));
+    fs.ensureDirSync(path.join(dir, 'new'));
+    fs.writeFileSync(path.join(dir, 'cur', '1700000000.1.host:2,S'), caribeMessages[0]);
+    fs.writeFileSync(path.join(dir, 'new', '1700000001.2.host'), caribeMessages[1]);
+    fs.writeFileSync(path.join(dir, 'new', '1700000002.3.host'), OTHER_SENDER);
+    const source = new LocalMailSource(dir);
+
+    expect(await source.listMessageIds(query)).toHaveLength(2);
+    expect(await source.listMessageIds({ ...query, searchTerms: [] })).toHaveLength(3);
+  });
+});
+
+describe('sendersFromSearchTerms', () => {
+  it('extracts from: addresses from Gmail search terms', () => {
+    expect(sendersFromSearchTerms(['from:Alertas@bhd.com.do', 'from:bhd.com.do has:attachment filename:pdf', 'subject:"Estado"'])).toEqual([
+      'alertas@bhd.com.do',
+      'bhd.com.do',
+    ]);
+  });
+});
+
+describe('fetchMessages', () => {
+  const message = (id: string, date: string) => ({
+    id, threadId: id, subject: '', from: '', date: new Date(date), snippet: '', plainBody: '', htmlBody: '',
+  });
+
+  it('returns messages oldest first whatever order the source produced', async () => {
+    const source = {
+      getMessages: async () => ({
+        messages: [
+          message('c', '2025-11-09T10:00:00Z'),
+          message('b', '2025-11-08T10:00:00Z'),
+          message('a', '2025-11-08T10:00:00Z'),
+        ],
+        rejected: [],
+      }),
+    } as unknown as MailSource;
+
+    const { messages } = await fetchMessages(source, ['a', 'b', 'c']);
+    expect(messages.map(m => m.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('falls back to one getMessage per id, leaving out missing messages', async () => {
+    const source = {
+      getMessage: async (id: string) => (id === 'gone' ? null : message(id, id === 'x' ? '2025-11-09T10:00:00Z' : '2025-11-01T10:00:00Z')),
+    } as unknown as MailSource;
+
+    const { messages, rejected } = await fetchMessages(source, ['x', 'gone', 'y']);
+    expect(messages.map(m => m.id)).toEqual(['y', 'x']);
+    expect(rejected).toEqual([]);
+  });
+});
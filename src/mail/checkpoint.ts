@@ -0,0 +1,50 @@
+import { getSyncState, setSyncState } from '../db/state';
+import { MailQuery, MailSource, formatMailQuery } from './source';
+
+function checkpointKey(mail: MailSource): string {
+  return `checkpoint:${mail.name}`;
+}
+
+/**
+ * Messages to sync: only those added since the last run when the source can
+ * tell (Gmail history), otherwise everything in the lookback window. Also
+ * returns the checkpoint to store once they have been processed.
+ */
+export async function listMessagesToSync(
+  mail: MailSource,
+  query: MailQuery,
+  fullScan: boolean
+): Promise<{ messageIds: string[]; checkpoint?: string }> {
+  const checkpoint = mail.getCheckpoint ? await mail.getCheckpoint() : undefined;
+  const previous = getSyncState(checkpointKey(mail));
+
+  if (!fullScan && previous && mail.listMessageIdsSince) {
+    console.log(`Fetching ${mail.name} messages added since the last sync (checkpoint ${previous})...`);
+    const messageIds = await mail.listMessageIdsSince(previous, query);
+    if (messageIds) {
+      return { messageIds, checkpoint };
+    }
+    console.log('The last sync checkpoint has expired; scanning the lookback window instead.');
+  }
+
+  console.log(`Searching ${mail.name} for emails with query: ${formatMailQuery(query)}`);
+  return { messageIds: await mail.listMessageIds(query), checkpoint };
+}
+
+/**
+ * Store the checkpoint taken before listing, unless some listed messages
+ * could not be fetched or saved. History never lists a message twice, so the
+ * previous checkpoint is kept and the next sync lists them again (messages
+ * already processed are skipped). Returns whether the checkpoint moved.
+ */
+export function advanceCheckpoint(mail: MailSource, checkpoint: string | undefined, unfinished: string[]): boolean {
+  if (!checkpoint) return false;
+
+  if (unfinished.length > 0) {
+    console.warn(`${unfinished.length} messages could not be fetched or saved; the next sync will list them again`);
+    return false;
+  }
+
+  setSyncState(checkpointKey(mail), checkpoint);
+  return true;
+}
@@ -0,0 +1,31 @@
+import { simpleParser } from 'mailparser';
+import { GmailMessageData } from '../types';
+
+/**
+ * Parse a raw RFC 822 message (.eml) into the same shape the Gmail client returns
+ *
+ * @param source Raw message contents
+ * @param id Message id to use (defaults to the Message-ID header)
+ */
+export async function parseEml(source: Buffer | string, id?: string): Promise<GmailMessageData> {
+  const mail = await simpleParser(source);
+  const messageId = id || mail.messageId || '';
+  const plainBody = mail.text || '';
+
+  return {
+    id: messageId,
+    threadId: messageId,
+    subject: mail.subject || '',
+    from: mail.from?.text || '',
+    date: mail.date || new Date(0),
+    snippet: plainBody.replace(/\s+/g, ' ').trim().substring(0, 200),
+    plainBody,
+    htmlBody: mail.html || '',
+    attachments: mail.attachments.map(attachment => ({
+      filename: attachment.filename || '',
+      mimeType: attachment.contentType,
+      size: attachment.size,
+      data: attachment.content,
+    })),
+  };
+}
@@ -0,0 +1,109 @@
+import { ImapFlow, SearchObject } from 'imapflow';
+import { GmailMessageData, MailAttachment } from '../types';
+import { ImapConfig } from '../config/mail';
+import { parseEml } from './eml';
+import { MailQuery, MailSource, sendersFromSearchTerms } from './source';
+
+/**
+ * Messages from an IMAP mailbox (Outlook, self-hosted mail, or a local test
+ * server). Ids are the Message-ID header, like LocalMailSource, so an mbox
+ * export and the live mailbox map to the same processed messages.
+ */
+export class ImapMailSource implements MailSource {
+  readonly name = 'imap';
+  private client: ImapFlow | null = null;
+  private uids = new Map<string, number>(); // Message id -> UID in the mailbox
+
+  constructor(private config: ImapConfig) {}
+
+  private get mailbox(): string {
+    return this.config.mailbox || 'INBOX';
+  }
+
+  async init() {
+    if (this.client) return;
+    if (!this.config.host || !this.config.user) {
+      throw new Error('IMAP host and user are required (mail.imap in accounts.json, or IMAP_HOST/IMAP_USER)');
+    }
+
+    const client = new ImapFlow({
+      host: this.config.host,
+      port: this.config.port ?? 993,
+      secure: this.config.secure ?? true,
+      auth: { user: this.config.user, pass: this.config.password || '' },
+      logger: false,
+    });
+    await client.connect();
+    this.client = client;
+  }
+
+  async listMessageIds(query: MailQuery): Promise<string[]> {
+    await this.init();
+    const client = this.client!;
+
+    // IMAP SINCE ignores the time; messages earlier that day are filtered by the parsers' date checks
+    const search: SearchObject = { since: query.after };
+    const senders = sendersFromSearchTerms(query.searchTerms);
+    if (senders.length === 1) {
+      search.from = senders[0];
+    } else if (senders.length > 1) {
+      search.or = senders.map(from => ({ from }));
+    }
+
+    const lock = await client.getMailboxLock(this.mailbox);
+    try {
+      const uids = (await client.search(search, { uid: true })) || [];
+      if (uids.length === 0) return [];
+
+      const ids: string[] = [];
+      for await (const message of client.fetch(uids, { uid: true, envelope: true }, { uid: true })) {
+        const id = message.envelope?.messageId?.replace(/^<|>$/g, '') || `uid-${message.uid}`;
+        this.uids.set(id, message.uid);
+        ids.push(id);
+      }
+      return ids;
+    } finally {
+      lock.release();
+    }
+  }
+
+  async getMessage(id: string): Promise<GmailMessageData | null> {
+    await this.init();
+    const client = this.client!;
+
+    const lock = await client.getMailboxLock(this.mailbox);
+    try {
+      let uid = this.uids.get(id);
+      if (uid === undefined) {
+        // Not listed in this run (e.g. a migration re-fetching a stored message)
+        const found = id.startsWith('uid-')
+          ? [parseInt(id.substring(4))]
+          : await client.search({ header: { 'message-id': id } }, { uid: true });
+        uid = found ? found[0] : undefined;
+      }
+      if (uid === undefined) return null;
+
+      const message = await client.fetchOne(String(uid), { source: true }, { uid: true });
+      return message && message.source ? parseEml(message.source, id) : null;
+    } catch (error) {
+      console.error(`Failed to fetch message ${id}`, error);
+      return null;
+    } finally {
+      lock.release();
+    }
+  }
+
+  async getAttachment(messageId: string, attachment: MailAttachment): Promise<Buffer> {
+    if (!attachment.data) {
+      throw new Error(`Attachment ${attachment.filename} of message ${messageId} has no content`);
+    }
+    return attachment.data;
+  }
+
+  async close() {
+    if (!this.client) return;
+    await this.client.logout();
+    this.client = null;
+    this.uids.clear();
+  }
+}
@@ -0,0 +1,42 @@
+import path from 'path';
+import { GmailClient } from '../gmail/client';
+import { loadMailConfig, MAIL_SOURCE_TYPES, MailSourceType } from '../config/mail';
+import { ImapMailSource } from './imap';
+import { LocalMailSource } from './local';
+import { MailSource } from './source';
+
+export { MailQuery, MailSource, fetchMessages, formatMailQuery } from './source';
+
+export interface MailSourceOptions {
+  source?: MailSourceType; // Overrides the configured source
+  path?: string; // Export location for the local source (implies `local` when no source is given)
+}
+
+/**
+ * The mail source to read bank emails from: command-line options first, then
+ * the `mail` section of accounts.json (and its environment overrides), then Gmail
+ */
+export function createMailSource(options: MailSourceOptions = {}): MailSource {
+  const config = loadMailConfig();
+  const type = options.source || (options.path ? 'local' : config.source) || 'gmail';
+  if (!MAIL_SOURCE_TYPES.includes(type)) {
+    throw new Error(`Invalid mail source "${type}" (expected one of: ${MAIL_SOURCE_TYPES.join(', ')})`);
+  }
+
+  switch (type) {
+    case 'gmail':
+      return new GmailClient(config.gmail);
+    case 'imap':
+      if (!config.imap) {
+        throw new Error('IMAP source selected but not configured (mail.imap in accounts.json, or IMAP_HOST/IMAP_USER)');
+      }
+      return new ImapMailSource(config.imap);
+    case 'local': {
+      const location = options.path || config.path;
+      if (!location) {
+        throw new Error('Local mail source needs a path (--path, mail.path in accounts.json, or MAIL_PATH)');
+      }
+      return new LocalMailSource(path.resolve(location));
+    }
+  }
+}
@@ -0,0 +1,135 @@
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+import { GmailMessageData, MailAttachment } from '../types';
+import { parseEml } from './eml';
+import { MailQuery, MailSource, matchesMailQuery } from './source';
+
+interface StoredMessage {
+  id: string;
+  from: string;
+  date: Date;
+  source: Buffer;
+}
+
+/**
+ * Headers of a raw message, unfolded and keyed by lower-case name
+ */
+function readHeaders(source: Buffer): Record<string, string> {
+  const text = source.toString('latin1');
+  const end = text.search(/\r?\n\r?\n/);
+  const block = (end >= 0 ? text.substring(0, end) : text).replace(/\r?\n[ \t]+/g, ' ');
+
+  const headers: Record<string, string> = {};
+  for (const line of block.split(/\r?\n/)) {
+    const match = line.match(/^([\w-]+):\s*(.*)$/);
+    if (match && !(match[1].toLowerCase() in headers)) {
+      headers[match[1].toLowerCase()] = match[2].trim();
+    }
+  }
+  return headers;
+}
+
+/**
+ * Split an mbox file into raw messages, undoing ">From " quoting (mboxo and mboxrd)
+ */
+export function splitMbox(content: Buffer): Buffer[] {
+  // latin1 maps every byte to one character, so slicing keeps the bytes intact
+  const text = content.toString('latin1');
+  return text
+    .split(/^From .*\r?\n/m)
+    .filter(chunk => chunk.trim().length > 0)
+    .map(chunk => Buffer.from(chunk.replace(/^>(>*From )/gm, '$1'), 'latin1'));
+}
+
+function isMaildir(dir: string): boolean {
+  return ['cur', 'new'].some(sub => fs.existsSync(path.join(dir, sub)));
+}
+
+/**
+ * Raw messages in an mbox file, a single .eml, a Maildir (cur/ and new/) or a
+ * directory of any of these (searched recursively)
+ */
+function readMessages(location: string): Buffer[] {
+  const stat = fs.statSync(location);
+
+  if (stat.isFile()) {
+    const content = fs.readFileSync(location);
+    return path.extname(location).toLowerCase() === '.eml' ? [content] : splitMbox(content);
+  }
+
+  if (isMaildir(location)) {
+    return ['cur', 'new']
+      .map(sub => path.join(location, sub))
+      .filter(dir => fs.existsSync(dir))
+      .flatMap(dir => fs.readdirSync(dir).sort().map(file => fs.readFileSync(path.join(dir, file))));
+  }
+
+  return fs.readdirSync(location)
+    .filter(entry => !entry.startsWith('.'))
+    .sort()
+    .flatMap(entry => readMessages(path.join(location, entry)));
+}
+
+/**
+ * Messages from local mail exports, for offline syncs (e.g. a Google Takeout
+ * mbox, or a Maildir synced from another provider).
+ *
+ * Ids are the Message-ID header (a hash of the message when it has none), so
+ * they stay the same when the export is refreshed or read over IMAP.
+ */
+export class LocalMailSource implements MailSource {
+  readonly name = 'local';
+  private messages = new Map<string, StoredMessage>();
+  private loaded = false;
+
+  constructor(private location: string) {}
+
+  async init() {
+    if (this.loaded) return;
+    if (!fs.existsSync(this.location)) {
+      throw new Error(`Mail export not found: ${this.location}`);
+    }
+
+    for (const source of readMessages(this.location)) {
+      const headers = readHeaders(source);
+      const messageId = headers['message-id']?.replace(/^<|>$/g, '');
+      const id = messageId || crypto.createHash('md5').update(source).digest('hex');
+      const date = new Date(headers['date'] || 0);
+
+      this.messages.set(id, {
+        id,
+        from: headers['from'] || '',
+        date: isNaN(date.getTime()) ? new Date(0) : date,
+        source,
+      });
+    }
+    this.loaded = true;
+  }
+
+  async listMessageIds(query: MailQuery): Promise<string[]> {
+    await this.init();
+    return [...this.messages.values()]
+      .filter(message => matchesMailQuery(message, query))
+      .sort((a, b) => a.date.getTime() - b.date.getTime())
+      .map(message => message.id);
+  }
+
+  async getMessage(id: string): Promise<GmailMessageData | null> {
+    await this.init();
+    const message = this.messages.get(id);
+    return message ? parseEml(message.source, id) : null;
+  }
+
+  async getAttachment(messageId: string, attachment: MailAttachment): Promise<Buffer> {
+    if (!attachment.data) {
+      throw new Error(`Attachment ${attachment.filename} of message ${messageId} has no content`);
+    }
+    return attachment.data;
+  }
+
+  async close() {
+    this.messages.clear();
+    this.loaded = false;
+  }
+}
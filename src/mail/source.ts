@@ -0,0 +1,101 @@
+import { format } from 'date-fns';
+import { GmailMessageData, MailAttachment } from '../types';
+
+/**
+ * Which messages to list. Search terms are the Gmail-style fragments parsers
+ * return from `getSearchTerms()`; sources without Gmail search only use their
+ * `from:` part (parsers still check every message with `canParse`).
+ */
+export interface MailQuery {
+  after: Date;
+  searchTerms: string[];
+}
+
+export interface FetchOptions {
+  // Called with a header-only message (from, subject, date; no bodies) before
+  // the full message is downloaded. Sources that can't fetch headers alone
+  // ignore it and return every message.
+  prefilter?: (message: GmailMessageData) => boolean;
+}
+
+export interface FetchedMessages {
+  messages: GmailMessageData[]; // In date order (oldest first)
+  rejected: GmailMessageData[]; // Header-only messages the prefilter turned down
+}
+
+/**
+ * Where bank emails are read from (Gmail, an IMAP mailbox, mbox/Maildir exports).
+ * Message ids must be stable across runs: they are stored in processed_messages
+ * and as each transaction's raw_message_id.
+ */
+export interface MailSource {
+  readonly name: string;
+  init(): Promise<void>;
+  listMessageIds(query: MailQuery): Promise<string[]>;
+  getMessage(id: string): Promise<GmailMessageData | null>;
+  // Many messages at once, for sources that can fetch in parallel
+  getMessages?(ids: string[], options?: FetchOptions): Promise<FetchedMessages>;
+  // Attachment content (sources that parse whole messages already have it in `data`)
+  getAttachment(messageId: string, attachment: MailAttachment): Promise<Buffer>;
+  close(): Promise<void>;
+
+  // Incremental listing, for sources that can list only what arrived since a
+  // checkpoint (Gmail history ids). Take the checkpoint before listing so
+  // messages arriving mid-run are picked up next time.
+  getCheckpoint?(): Promise<string>;
+  // Returns null when the checkpoint has expired and a full listing is needed
+  listMessageIdsSince?(checkpoint: string, query: MailQuery): Promise<string[] | null>;
+}
+
+/**
+ * Fetch messages in date order (oldest first, ties by id), so a purchase is
+ * always saved before its posting or reversal notice whatever order the
+ * source listed or downloaded them in. Messages that can't be fetched are left out.
+ */
+export async function fetchMessages(mail: MailSource, ids: string[], options: FetchOptions = {}): Promise<FetchedMessages> {
+  let fetched: FetchedMessages;
+  if (mail.getMessages) {
+    fetched = await mail.getMessages(ids, options);
+  } else {
+    const messages: GmailMessageData[] = [];
+    for (const id of ids) {
+      const message = await mail.getMessage(id);
+      if (message) messages.push(message);
+    }
+    fetched = { messages, rejected: [] };
+  }
+
+  return { messages: sortByDate(fetched.messages), rejected: sortByDate(fetched.rejected) };
+}
+
+function sortByDate(messages: GmailMessageData[]): GmailMessageData[] {
+  const time = (message: GmailMessageData) => (isNaN(message.date.getTime()) ? 0 : message.date.getTime());
+  return [...messages].sort((a, b) => time(a) - time(b) || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+}
+
+/**
+ * The query in Gmail search syntax, e.g. `after:2025/12/01 (from:a OR from:b)`
+ */
+export function formatMailQuery(query: MailQuery): string {
+  const terms = query.searchTerms.length > 0 ? `(${query.searchTerms.join(' OR ')})` : '';
+  return `after:${format(query.after, 'yyyy/MM/dd')} ${terms}`.trim();
+}
+
+/**
+ * Sender addresses (or domains) named by `from:` search terms
+ */
+export function sendersFromSearchTerms(searchTerms: string[]): string[] {
+  const senders = searchTerms.flatMap(term => [...term.matchAll(/from:("[^"]+"|\S+)/gi)].map(match => match[1].replace(/"/g, '')));
+  return [...new Set(senders.map(sender => sender.toLowerCase()))];
+}
+
+/**
+ * Whether a message's sender and date satisfy the query (for sources that filter locally)
+ */
+export function matchesMailQuery(message: { from: string; date: Date }, query: MailQuery): boolean {
+  if (message.date.getTime() < query.after.getTime()) return false;
+
+  const senders = sendersFromSearchTerms(query.searchTerms);
+  const from = message.from.toLowerCase();
+  return senders.length === 0 || senders.some(sender => from.includes(sender));
+}
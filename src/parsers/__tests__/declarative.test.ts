@@ -0,0 +1,108 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { DeclarativeParser, ParserDefinition, loadDeclarativeParsers, validateParserDefinition } from '../declarative';
+import { AccountOwnership } from '../../config/ownership';
+import { GmailMessageData, ParserContext } from '../../types';
+
+const context: ParserContext = {
+  accounts: AccountOwnership.fromConfig({}),
+  timezone: 'America/Santo_Domingo',
+  report: () => undefined,
+};
+
+const definition: ParserDefinition = {
+  name: 'EUROBANK',
+  match: { from: 'alertas@eurobank.example' },
+  fields: { amount: { regex: 'Importe:\\s*([\\d.,]+)' } },
+};
+
+function message(body: string, subject = 'Movimiento'): GmailMessageData {
+  return {
+    id: 'msg-1',
+    threadId: 'msg-1',
+    subject,
+    from: 'EuroBank <alertas@eurobank.example>',
+    date: new Date('2025-11-14T18:30:00Z'),
+    snippet: '',
+    plainBody: body,
+    htmlBody: '',
+  };
+}
+
+describe('validateParserDefinition', () => {
+  it.each([
+    ['a non-object', null, 'expected an object'],
+    ['a missing name', { ...definition, name: '' }, '"name" is required'],
+    ['a missing sender', { ...definition, match: { from: [] } }, '"match.from" is required'],
+    ['a missing amount', { ...definition, fields: {} }, '"fields.amount" is required'],
+    ['an empty field', { ...definition, fields: { ...definition.fields, payee: {} } }, 'field "payee" needs a selector, regex or value'],
+    ['a bad regex', { ...definition, fields: { amount: { regex: '([\\d' } } }, 'field "amount" has an invalid regex'],
+    ['a bad timezone', { ...definition, timezone: 'Santo Domingo' }, '"timezone" must be an IANA timezone name'],
+    ['a bad direction', { ...definition, direction: { default: 'out' } }, '"direction.default" must be "inflow" or "outflow"'],
+  ])('rejects %s', (_case, candidate, message) => {
+    expect(() => validateParserDefinition(candidate as ParserDefinition, 'eurobank.json'))
+      .toThrow(`Invalid eurobank.json: ${message}`);
+  });
+
+  it('accepts a minimal definition', () => {
+    expect(() => validateParserDefinition(definition)).not.toThrow();
+  });
+});
+
+describe('DeclarativeParser', () => {
+  it('reads comma decimals, the balance and direction keywords from the body', () => {
+    const parser = new DeclarativeParser({
+      ...definition,
+      fields: {
+        ...definition.fields,
+        payee: { regex: 'Comercio:\\s*(.+?)\\s*Importe' },
+        balance: { regex: 'Saldo:\\s*([\\d.,]+)' },
+      },
+      decimalSeparator: ',',
+      defaultCurrency: 'EUR',
+      direction: { inflowKeywords: ['abono'], in: ['body'] },
+    }, context);
+
+    const transaction = parser.parse(message('Abono recibido. Comercio: ACME SL Importe: 1.234,56 Saldo: 10.000,00'));
+
+    expect(transaction).toMatchObject({
+      bank: 'EUROBANK',
+      payee: 'ACME SL',
+      amount: 1234.56,
+      currency: 'EUR',
+      direction: 'inflow',
+      date: '2025-11-14',
+      balance: 10000,
+      balanceCurrency: 'EUR',
+    });
+  });
+
+  it('only claims emails from its senders with a matching subject', () => {
+    const parser = new DeclarativeParser({ ...definition, match: { ...definition.match, subject: 'Movimiento' } }, context);
+
+    expect(parser.canParse(message(''))).toBe(true);
+    expect(parser.canParse(message('', 'Promociones'))).toBe(false);
+    expect(parser.canParse({ ...message(''), from: 'otro@example.com' })).toBe(false);
+    expect(parser.getSearchTerms()).toEqual(['from:alertas@eurobank.example']);
+  });
+});
+
+describe('loadDeclarativeParsers', () => {
+  it('loads JSON and YAML definitions and skips invalid ones', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'declarative-parsers-'));
+    fs.writeJsonSync(path.join(dir, 'a-eurobank.json'), definition);
+    fs.writeFileSync(path.join(dir, 'b-other.yaml'), 'name: OTHER\nmatch:\n  from: alertas@other.example\nfields:\n  amount:\n    regex: "Monto: ([\\\\d.]+)"\n');
+    fs.writeJsonSync(path.join(dir, 'c-broken.json'), { name: 'BROKEN', match: { from: 'x@example.com' } });
+    fs.writeFileSync(path.join(dir, 'notes.txt'), 'not a definition');
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    try {
+      expect(loadDeclarativeParsers(context, dir).map(parser => parser.name)).toEqual(['EUROBANK', 'OTHER']);
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('Skipping parser definition c-broken.json'));
+    } finally {
+      warn.mockRestore();
+      fs.removeSync(dir);
+    }
+  });
+});
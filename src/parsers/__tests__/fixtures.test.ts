@@ -0,0 +1,19 @@
+import path from 'path';
+import { FIXTURES_DIR, createFixtureRegistry, listFixtureFiles, loadFixture, runFixture } from '../fixtures';
+
+describe('parser fixtures', () => {
+  const files = listFixtureFiles().map(file => [path.relative(FIXTURES_DIR, file), file]);
+  const registry = createFixtureRegistry();
+
+  it('finds fixtures', () => {
+    expect(files.length).toBeGreaterThan(0);
+  });
+
+  it.each(files)('%s', async (_name, file) => {
+    const fixture = await loadFixture(file);
+    expect(fixture.expected).toBeDefined();
+
+    const result = runFixture(fixture, registry);
+    expect(result.actual).toEqual(fixture.expected);
+  });
+});
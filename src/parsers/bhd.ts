@@ -1,11 +1,14 @@
-import { Parser, GmailMessageData, Transaction } from '../types';
-import crypto from 'crypto';
-import { parse, isValid } from 'date-fns';
+import { Parser, GmailMessageData, Transaction, ParserContext, TransactionStatus } from '../types';
+import { parseBankDateTime, toBankDateTime } from '../utils/dates';
 import * as cheerio from 'cheerio';
+import { normalizeCurrency } from '../currency/codes';
+import { fingerprintIds } from './fingerprint';
 
 export class BHDParser implements Parser {
   name = 'BHD';
 
+  constructor(private context: ParserContext) {}
+
   getSearchTerms(): string[] {
     return ['from:Alertas@bhd.com.do'];
   }
@@ -43,89 +46,80 @@ export class BHDParser implements Parser {
     // Normalize spaces
     const cleanText = text.replace(/\s+/g, ' ');
 
-    const destMatch = cleanText.match(/Producto destino:.*?(\d{4})/i);
-    const account = destMatch ? destMatch[1] : undefined;
-
-    // Try to find full name for destination if possible? Usually hidden XXXXX.
-    // We can just use "BHD Account" or similar.
+    // "Producto destino: Visa Mi País XXXXXXXXXXXX1610" -> "XXXXXXXXXXXX1610" (masked number, may only be last 4)
+    const destMatch = cleanText.match(/Producto destino:.*?([X*\d-]*\d{4})(?!\d)/i);
+    const destRaw = destMatch ? destMatch[1] : undefined;
 
     const amountMatch = cleanText.match(/Monto:\s*(RD|US|DO)?\$?\s?([\d,]+\.\d{2})/i);
     if (!amountMatch) return null;
 
-    const currency = (amountMatch[1] || 'RD').replace('RD', 'DOP').trim();
+    const currency = normalizeCurrency(amountMatch[1]);
     const amount = parseFloat(amountMatch[2].replace(/,/g, ''));
 
     const dateMatch = cleanText.match(/Fecha y hora de la transacción:\s*(\d{2}\/\d{2}\/\d{4})\s*-\s*(\d{1,2}:\d{2}\s*[ap]m)/i);
-    let date = '';
-    if (dateMatch) {
-        // 20/12/2025 11:29 PM
-        const dateStr = `${dateMatch[1]} ${dateMatch[2]}`;
-        const parsedDate = parse(dateStr, 'dd/MM/yyyy hh:mm a', new Date());
-        date = isValid(parsedDate) ? parsedDate.toISOString().split('T')[0] : '';
-    }
+    // 20/12/2025 11:29 PM (bank local time); falls back to when the email was sent
+    const when = (dateMatch && parseBankDateTime(`${dateMatch[1]} ${dateMatch[2]}`, 'dd/MM/yyyy hh:mm a', this.context.timezone))
+      || toBankDateTime(message.date, this.context.timezone);
+    const { date, datetime } = when;
 
     const payeeMatch = cleanText.match(/Beneficiario:\s*(.*?)(?=\s*Número de confirmación|$)/i);
     const payee = payeeMatch ? payeeMatch[1].trim() : 'Transfer';
 
-    // Logic: If the destination product matches one of our known products, treat as inflow.
-    // Known accounts: 1610 (Visa Mi País), 3709 (Visa Débito Oro), 0014 (Savings linked to 3709)
+    // Logic: ownership comes from the accounts configured in accounts.json.
     // If Origin is one of our products -> Outflow.
     // If Destination is one of our products -> Inflow.
+    // If both are ours -> Transfer (single record, linked pair in YNAB).
 
     // We need to parse Origin as well to verify.
-    const originMatch = cleanText.match(/Producto origen:.*?(\d{4})/i);
-    const originAccount = originMatch ? originMatch[1] : undefined;
-
-    // My Known Accounts
-    const myAccounts = ['1610', '3709', '0014', '9508'];
-
-    let direction: 'inflow' | 'outflow' = 'outflow';
-
-    if (account && myAccounts.includes(account)) {
-        direction = 'inflow';
-    } else if (originAccount && myAccounts.includes(originAccount)) {
-        direction = 'outflow';
+    const originMatch = cleanText.match(/Producto origen:.*?([X*\d-]*\d{4})(?!\d)/i);
+    const originRaw = originMatch ? originMatch[1] : undefined;
+
+    const accounts = this.context.accounts;
+    const destKey = accounts.resolve(destRaw, this.name);
+    const originKey = accounts.resolve(originRaw, this.name);
+
+    // Unknown accounts keep their last 4 digits so a mapping can be added later
+    const account = destKey ?? destRaw?.slice(-4);
+    const originAccount = originKey ?? originRaw?.slice(-4);
+
+    // "Transacciones entre mis productos" is always between the user's own
+    // accounts, even if one of them isn't configured yet.
+    const ownProducts = message.subject.includes('Transacciones entre mis productos');
+    let destIsMine = !!destKey;
+    let originIsMine = !!originKey;
+
+    if (ownProducts) {
+        for (const [raw, key] of [[originRaw, originKey], [destRaw, destKey]]) {
+            if (raw && !key) {
+                this.context.report({
+                    type: 'unknown_own_account',
+                    parser: this.name,
+                    account: raw,
+                    messageId: message.id,
+                    detail: `Transfer between own products involves account ${raw}, which is not in accountMappings`,
+                });
+            }
+        }
+        destIsMine = !!destRaw;
+        originIsMine = !!originRaw;
     }
 
-    // If both origin and destination are mine (Transfer between my accounts),
-    // strictly speaking it's a Transfer, but for a single transaction record we need to pick a side.
-    // YNAB handles transfers by matching an outflow from A and inflow to B.
-    // Since we generate ONE transaction record per email, we need to decide which "side" this email represents.
-    // Usually "Transacciones entre mis productos" implies a transfer.
-    // If the email doesn't explicitly say which side it is notifying for, we might need to duplicate it?
-    // Or just let it be an inflow to the destination (and manually handle the outflow in YNAB or hope for a second email).
-    // BHD usually sends one email.
-    // Let's stick to: If Dest is mine -> Inflow. (Unless I am paying someone else).
-
-    // Wait, if I transfer from 0014 to 1610 (Payment), Dest is 1610 (Inflow to CC), Origin is 0014 (Outflow from Savings).
-    // This transaction should probably be recorded for the SOURCE account if it's an expense/transfer out,
-    // OR for the DEST account if it's a payment/transfer in.
-    // Currently `account` variable holds the DESTINATION account digits.
-    // So the transaction is currently linked to the DESTINATION.
-
-    // The email usually highlights the "Destination" or the "Transaction".
-    // If `account` (dest) is mine, it's an inflow to that account.
-
-    // What if I transfer to a THIRD party?
-    // Dest is External. Origin is Mine (0014).
-    // `account` (dest) will be External digits.
-    // `originAccount` will be 0014.
-    // We want this to appear as Outflow for the origin account.
-    // So we must swap `account` to be `originAccount` if Dest is not mine but Origin is mine.
-
-    if (account && !myAccounts.includes(account) && originAccount && myAccounts.includes(originAccount)) {
+    if (account && !destIsMine && originIsMine) {
         // Transfer to third party
         // Set the main account of this transaction to be the Origin (my account)
         // And direction is Outflow.
 
-        const fingerprintInput = `${this.name}:${originAccount}:${date}:${amount}:${payee}:outflow`;
-        const id = crypto.createHash('md5').update(fingerprintInput).digest('hex');
+        const { id, legacyId } = fingerprintIds({
+            parser: this.name, account: originAccount, date, datetime, amount, payee, direction: 'outflow',
+        });
 
         return {
             id,
+            legacyId,
             bank: 'BHD',
             account: originAccount, // Use Origin as the account for this transaction
             date,
+            datetime,
             payee,
             memo: 'Transferencia a terceros',
             amount,
@@ -136,20 +130,45 @@ export class BHDParser implements Parser {
         };
     }
 
-    // Case: Transfer between my accounts (0014 -> 1610)
-    // Account (Dest) = 1610. Origin = 0014.
-    // Currently mapping to 1610 (Inflow).
-    // If we want it to show up in 0014 as Outflow too, we'd need a second transaction record.
-    // For now, let's just leave it as Inflow to Dest.
+    // Transfer into one of my accounts -> Inflow to Dest. Anything else defaults to an outflow.
+    const direction: 'inflow' | 'outflow' = destIsMine ? 'inflow' : 'outflow';
 
-    const fingerprintInput = `${this.name}:${account}:${date}:${amount}:${payee}:${direction}`;
-    const id = crypto.createHash('md5').update(fingerprintInput).digest('hex');
+    // The fingerprint is computed from the destination side even for transfers
+    // between my accounts (the way those emails were recorded before transfers
+    // were linked), so re-parsing an old email doesn't create a second row.
+    const { id, legacyId } = fingerprintIds({ parser: this.name, account, date, datetime, amount, payee, direction });
+
+    if (destIsMine && originIsMine && originAccount !== account) {
+        // Transfer between my accounts (e.g. 0014 -> 1610).
+        // BHD sends a single email, so we store a single record: an outflow
+        // from the origin with the destination as `transferAccount`. The YNAB
+        // client pushes it with the destination's transfer payee, and YNAB
+        // creates the matching inflow on the destination account itself.
+        return {
+          id,
+          legacyId,
+          bank: 'BHD',
+          account: originAccount,
+          date,
+          datetime,
+          payee,
+          memo: 'Transferencia entre productos',
+          amount,
+          currency,
+          direction: 'outflow',
+          rawMessageId: message.id,
+          rawThreadId: message.threadId,
+          transferAccount: account,
+        };
+    }
 
     return {
       id,
+      legacyId,
       bank: 'BHD',
       account,
       date,
+      datetime,
       payee,
       memo: 'Transferencia entre productos',
       amount,
@@ -166,7 +185,8 @@ export class BHDParser implements Parser {
     const accountMatch = text.match(/(Visa\s+.*?)#\s?(\d{4})/i);
     const accountName = accountMatch ? accountMatch[1].trim() : undefined;
     const accountLast4 = accountMatch ? accountMatch[2] : undefined;
-    const account = accountLast4; // Keep using last4 for the Transaction.account field
+    // Use the configured account key when the card is known, otherwise its last 4
+    const account = this.context.accounts.resolve(accountLast4, this.name) ?? accountLast4;
 
     let dateRaw: string | undefined;
     let currencyRaw: string | undefined;
@@ -201,12 +221,16 @@ export class BHDParser implements Parser {
     // Parse Amount: "$1,000.00" -> 1000.00
     const amount = parseFloat(amountRaw.replace(/[$,]/g, ''));
 
-    // Parse Date
-    const parsedDate = parse(dateRaw, 'dd/MM/yyyy hh:mm a', new Date());
-    const date = isValid(parsedDate) ? parsedDate.toISOString().split('T')[0] : '';
+    // Parse Date (bank local time, e.g. 26/12/2025 11:29 pm)
+    let when = parseBankDateTime(dateRaw, 'dd/MM/yyyy hh:mm a', this.context.timezone);
+    if (!when) {
+      console.warn(`BHD: Invalid date "${dateRaw}", using email date`);
+      when = toBankDateTime(message.date, this.context.timezone);
+    }
+    const { date, datetime } = when;
 
     const payee = payeeRaw.replace(/\s+/g, ' ').trim();
-    const currency = currencyRaw?.replace('RD', 'DOP').trim() || 'DOP';
+    const currency = normalizeCurrency(currencyRaw);
 
     // Determine direction
     let direction: 'inflow' | 'outflow' = 'outflow';
@@ -223,23 +247,42 @@ export class BHDParser implements Parser {
         }
     }
 
-    const fingerprintInput = `${this.name}:${account}:${date}:${amount}:${payee}:${direction}`;
-    const id = crypto.createHash('md5').update(fingerprintInput).digest('hex');
+    // Lifecycle: a reversal undoes an earlier purchase (matched when saved),
+    // otherwise the 'Estado' column tells authorized/posted/declined apart.
+    const isReversal = /REVERSO/i.test(payee) || (!!typeRaw && /Reverso/i.test(typeRaw));
+    const status = isReversal ? 'reversed' : this.parseStatus(statusRaw);
+
+    const { id, legacyId } = fingerprintIds({ parser: this.name, account, date, datetime, amount, payee, direction });
 
     const memo = accountName && accountLast4 ? `${accountName} ${accountLast4}` : 'BHD Transaction';
 
     return {
       id,
+      legacyId,
       bank: 'BHD',
       account,
       date,
+      datetime,
       payee,
       memo,
       amount,
       currency,
       direction,
       rawMessageId: message.id,
-      rawThreadId: message.threadId
+      rawThreadId: message.threadId,
+      status,
     };
   }
+
+  /**
+   * Map the notification's 'Estado' column to a lifecycle status
+   * (e.g. 'Aprobada' -> posted, 'Pendiente' -> authorized, 'Rechazada' -> declined)
+   */
+  private parseStatus(statusRaw: string | undefined): TransactionStatus {
+    if (!statusRaw) return 'posted';
+    if (/Rechazad|Declinad|Denegad|Fallid/i.test(statusRaw)) return 'declined';
+    if (/Revers|Anulad/i.test(statusRaw)) return 'reversed';
+    if (/Pendiente|En proceso|Autorizad|Retenid/i.test(statusRaw)) return 'authorized';
+    return 'posted';
+  }
 }
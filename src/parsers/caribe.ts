@@ -1,11 +1,33 @@
-import { Parser, GmailMessageData, Transaction } from '../types';
-import crypto from 'crypto';
-import { parse, format, isValid } from 'date-fns';
+import { Parser, GmailMessageData, Transaction, ParserContext } from '../types';
+import { BankDateTime, bankDateTimeFromParts, toBankDateTime } from '../utils/dates';
 import * as cheerio from 'cheerio';
+import { fingerprintIds } from './fingerprint';
+
+// Purchases are outflows; card payments, refunds and credits (cashback) are inflows
+type CaribeNotificationKind = 'purchase' | 'payment' | 'refund' | 'credit';
+
+// Checked in order against the subject and the opening sentence that names the
+// card ("Se ha realizado una devolución a su Tarjeta ... terminada en 1469"), never
+// the rest of the body: merchants, promos and footers mention refunds and cashback.
+// "Tarjeta de Crédito" appears in every email, so credits need the full phrase
+const KIND_PATTERNS: Array<[RegExp, CaribeNotificationKind]> = [
+  [/pago recibido|(?:hemos )?recibido (?:un|su) pago|pago a su tarjeta/i, 'payment'],
+  [/devoluci[oó]n|reembolso|reverso/i, 'refund'],
+  [/cr[eé]dito aplicado|aplicado un cr[eé]dito|cashback|bonificaci[oó]n/i, 'credit'],
+];
+
+const DEFAULT_PAYEES: Record<CaribeNotificationKind, string> = {
+  purchase: 'CARIBE Transaction',
+  payment: 'CARIBE Payment',
+  refund: 'CARIBE Refund',
+  credit: 'CARIBE Credit',
+};
 
 export class CaribeParser implements Parser {
   name = 'CARIBE';
 
+  constructor(private context: ParserContext) {}
+
   getSearchTerms(): string[] {
     return ['from:NOTIFICACIONES@bancocaribe.com.do'];
   }
@@ -16,11 +38,18 @@ export class CaribeParser implements Parser {
       (
         message.subject.includes('Notificación Caribe') ||
         message.subject.includes('Tarjeta de Crédito Caribe') ||
-        message.subject.includes('transacción')
+        message.subject.includes('transacción') ||
+        /Pago recibido|Devoluci[oó]n|Cr[eé]dito aplicado/i.test(message.subject)
       )
     );
   }
 
+  private detectKind(subject: string, text: string): CaribeNotificationKind {
+    const headline = text.match(/[^.:!?¡¿]*terminada\s+(?:en\s+)?\d{4}/i)?.[0] ?? '';
+    const match = KIND_PATTERNS.find(([pattern]) => pattern.test(subject) || pattern.test(headline));
+    return match ? match[1] : 'purchase';
+  }
+
   parse(message: GmailMessageData): Transaction | null {
     if (!message.htmlBody) return null;
 
@@ -30,11 +59,15 @@ export class CaribeParser implements Parser {
     // Normalize whitespace
     const cleanText = text.replace(/\s+/g, ' ');
 
+    const kind = this.detectKind(message.subject, cleanText);
+    const direction = kind === 'purchase' ? 'outflow' : 'inflow';
+
     // Extract card ending (last 4 digits)
     // Format: "terminada 1469" or "terminada en 1469"
     const cardMatch = cleanText.match(/terminada\s+(?:en\s+)?(\d{4})/i) ||
                      cleanText.match(/Tarjeta.*?(\d{4})/i);
-    const account = cardMatch ? cardMatch[1] : undefined;
+    const last4 = cardMatch ? cardMatch[1] : undefined;
+    const account = this.context.accounts.resolve(last4, this.name) ?? last4;
 
     if (!account) {
       console.warn('CARIBE: Could not extract card ending');
@@ -53,68 +86,71 @@ export class CaribeParser implements Parser {
     // Extract payee (Comercio/Merchant)
     // Format: "Comercio: DOMEX COURIER BELLA V SANTO DOMINGODO"
     let payee = '';
-    const comercioMatch = cleanText.match(/Comercio:\s*([^\n\r]+?)(?:\s+Monto|\s+Moneda|$)/i) ||
+    // Credits name their "Concepto" instead of a merchant
+    const comercioMatch = cleanText.match(/(?:Comercio|Concepto):\s*([^\n\r]+?)(?:\s+Monto|\s+Moneda|$)/i) ||
                          cleanText.match(/transacción\s+en:\s*([^\n\r]+?)(?:\s+Monto|\s+Moneda|$)/i);
 
     if (comercioMatch) {
       payee = comercioMatch[1].trim();
+    } else if (kind !== 'purchase') {
+      payee = DEFAULT_PAYEES[kind];
     } else {
       // Fallback: try to extract from transaction text
       const transactionMatch = cleanText.match(/transacción\s+en\s+([A-Z][A-Z\s]+?)(?:\s+Monto|\s+Moneda|$)/i);
       if (transactionMatch) {
         payee = transactionMatch[1].trim();
       } else {
-        payee = 'CARIBE Transaction';
+        payee = DEFAULT_PAYEES.purchase;
       }
     }
 
-    // Extract date
+    // Extract date (bank local time)
     // Format: "Fecha: 07/11/2025" and "Hora: 12:42:46"
-    let txDate: Date;
+    let when: BankDateTime | undefined;
     const fechaMatch = cleanText.match(/Fecha:\s*(\d{1,2})\/(\d{1,2})\/(\d{4})/i);
     const horaMatch = cleanText.match(/Hora:\s*(\d{1,2}):(\d{2}):(\d{2})/i);
 
-    if (fechaMatch && horaMatch) {
+    if (fechaMatch) {
       const day = parseInt(fechaMatch[1]);
       const month = parseInt(fechaMatch[2]);
       const year = parseInt(fechaMatch[3]);
-      const hour = parseInt(horaMatch[1]);
-      const minute = parseInt(horaMatch[2]);
 
-      txDate = new Date(year, month - 1, day, hour, minute);
-    } else if (fechaMatch) {
-      // If only date is available, use email time
-      const day = parseInt(fechaMatch[1]);
-      const month = parseInt(fechaMatch[2]);
-      const year = parseInt(fechaMatch[3]);
-      txDate = new Date(year, month - 1, day, message.date.getHours(), message.date.getMinutes());
-    } else {
-      // Fallback to email date
-      txDate = message.date;
-    }
+      if (horaMatch) {
+        const hour = parseInt(horaMatch[1]);
+        const minute = parseInt(horaMatch[2]);
+        const second = parseInt(horaMatch[3]);
+        when = bankDateTimeFromParts(year, month, day, hour, minute, second, this.context.timezone);
+      } else {
+        // Only the date is available: keep it, without a timestamp
+        const dateOnly = bankDateTimeFromParts(year, month, day, 0, 0, 0, this.context.timezone);
+        when = dateOnly && { date: dateOnly.date, datetime: undefined };
+      }
 
-    if (!isValid(txDate)) {
-      console.warn('CARIBE: Invalid date, using email date');
-      txDate = message.date;
+      if (!when) {
+        console.warn('CARIBE: Invalid date, using email date');
+      }
     }
 
+    // Fallback to email date
+    const { date, datetime } = when || toBankDateTime(message.date, this.context.timezone);
+
     // Create transaction ID fingerprint
-    const dateStr = format(txDate, 'yyyy-MM-dd');
-    const id = crypto
-      .createHash('md5')
-      .update(`CARIBE:${account}:${dateStr}:${amount}:${payee}:outflow`)
-      .digest('hex');
+    const { id, legacyId } = fingerprintIds({ parser: this.name, account, date, datetime, amount, payee, direction });
 
     const transaction: Transaction = {
       id,
+      legacyId,
       bank: 'CARIBE',
       account,
-      date: dateStr,
+      date,
+      datetime,
       payee: payee.trim(),
-      memo: `CARIBE Credit Card ending in ${account}`,
+      memo: kind === 'purchase'
+        ? `CARIBE Credit Card ending in ${account}`
+        : `CARIBE Credit Card ending in ${account} (${kind})`,
       amount,
       currency: 'DOP',
-      direction: 'outflow', // Credit card spending is always outflow
+      direction,
       rawMessageId: message.id,
       rawThreadId: message.threadId,
     };
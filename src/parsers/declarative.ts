@@ -0,0 +1,303 @@
+import { Parser, GmailMessageData, Transaction, ParserContext } from '../types';
+import fs from 'fs-extra';
+import path from 'path';
+import YAML from 'yaml';
+import { parseBankDateTime, toBankDateTime, isValidTimezone } from '../utils/dates';
+import * as cheerio from 'cheerio';
+import { normalizeCurrency } from '../currency/codes';
+import { fingerprintIds } from './fingerprint';
+
+/**
+ * How to pull a single value out of an email.
+ *
+ * - `selector` only: text of the first element matching the CSS selector
+ * - `regex` only: first match against the whitespace-normalized body text
+ * - both: the regex is applied to the selected element's text
+ * - `value`: constant used when nothing else matches
+ */
+export interface FieldExtractor {
+  selector?: string;
+  regex?: string;
+  group?: number; // Capture group to use (defaults to 1, or 0 if the regex has no groups)
+  value?: string;
+}
+
+export interface ParserDefinition {
+  name: string;
+  bank?: string; // Defaults to name
+  searchTerms?: string[]; // Defaults to `from:<address>` for every sender
+  match: {
+    from: string | string[]; // Sender must contain one of these
+    subject?: string | string[]; // Subject must contain one of these (any subject if omitted)
+  };
+  fields: {
+    amount: FieldExtractor;
+    date?: FieldExtractor;
+    payee?: FieldExtractor;
+    account?: FieldExtractor; // Card/account last 4 digits
+    currency?: FieldExtractor;
+    memo?: FieldExtractor;
+    postedAmount?: FieldExtractor; // Amount charged in the account's currency (e.g. the DOP equivalent of a USD purchase)
+    postedCurrency?: FieldExtractor;
+    balance?: FieldExtractor; // Account balance after the transaction (amount owed for cards), for `reconcile`
+    balanceCurrency?: FieldExtractor;
+  };
+  dateFormat?: string; // date-fns format string, e.g. 'dd/MM/yyyy hh:mm a'
+  timezone?: string; // IANA timezone of the printed dates (defaults to the configured bank timezone)
+  decimalSeparator?: '.' | ',';
+  defaultCurrency?: string;
+  direction?: {
+    default?: 'inflow' | 'outflow';
+    inflowKeywords?: string[];
+    outflowKeywords?: string[];
+    in?: Array<'subject' | 'payee' | 'body'>; // Where to look for keywords (default: subject and payee)
+  };
+}
+
+const PARSERS_DIR = path.join(process.cwd(), 'parsers');
+const DEFINITION_EXTENSIONS = ['.json', '.yaml', '.yml'];
+const DEFAULT_DATE_FORMAT = 'dd/MM/yyyy';
+
+function toList(value: string | string[] | undefined): string[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * A `Parser` compiled from a declarative definition file
+ */
+export class DeclarativeParser implements Parser {
+  name: string;
+  private bank: string;
+  private senders: string[];
+  private subjects: string[];
+
+  constructor(private definition: ParserDefinition, private context: ParserContext) {
+    validateParserDefinition(definition);
+    this.name = definition.name;
+    this.bank = definition.bank || definition.name;
+    this.senders = toList(definition.match.from);
+    this.subjects = toList(definition.match.subject);
+  }
+
+  getSearchTerms(): string[] {
+    return this.definition.searchTerms || this.senders.map(sender => `from:${sender}`);
+  }
+
+  canParse(message: GmailMessageData): boolean {
+    const from = message.from.toLowerCase();
+    const fromMatches = this.senders.some(sender => from.includes(sender.toLowerCase()));
+    if (!fromMatches) return false;
+
+    if (this.subjects.length === 0) return true;
+    return this.subjects.some(subject => message.subject.includes(subject));
+  }
+
+  parse(message: GmailMessageData): Transaction | null {
+    const body = message.htmlBody || message.plainBody;
+    if (!body) return null;
+
+    const $ = cheerio.load(body);
+    const cleanText = $.root().text().replace(/\s+/g, ' ');
+    const { fields } = this.definition;
+
+    const amountRaw = this.extract(fields.amount, $, cleanText);
+    if (!amountRaw) {
+      console.warn(`${this.name}: Could not extract amount`);
+      return null;
+    }
+    const amount = this.parseAmount(amountRaw);
+    if (isNaN(amount)) {
+      console.warn(`${this.name}: Invalid amount "${amountRaw}"`);
+      return null;
+    }
+
+    const accountRaw = fields.account ? this.extract(fields.account, $, cleanText) : undefined;
+    const account = this.context.accounts.resolve(accountRaw, this.bank) ?? accountRaw;
+
+    let payee = (fields.payee && this.extract(fields.payee, $, cleanText)) || `${this.name} Transaction`;
+    // Ensure payee doesn't exceed 200 characters (YNAB limit)
+    if (payee.length > 200) {
+      payee = payee.substring(0, 200).trim();
+    }
+
+    const timezone = this.definition.timezone || this.context.timezone;
+    const dateRaw = fields.date ? this.extract(fields.date, $, cleanText) : undefined;
+    const when = dateRaw
+      ? parseBankDateTime(dateRaw, this.definition.dateFormat || DEFAULT_DATE_FORMAT, timezone)
+      : undefined;
+    if (dateRaw && !when) {
+      console.warn(`${this.name}: Invalid date "${dateRaw}", using email date`);
+    }
+    const { date, datetime } = when || toBankDateTime(message.date, timezone);
+
+    const currencyRaw = fields.currency ? this.extract(fields.currency, $, cleanText) : undefined;
+    const currency = normalizeCurrency(currencyRaw, normalizeCurrency(this.definition.defaultCurrency));
+
+    const postedAmountRaw = fields.postedAmount ? this.extract(fields.postedAmount, $, cleanText) : undefined;
+    const postedAmount = postedAmountRaw ? this.parseAmount(postedAmountRaw) : undefined;
+    const postedCurrencyRaw = fields.postedCurrency ? this.extract(fields.postedCurrency, $, cleanText) : undefined;
+
+    const balanceRaw = fields.balance ? this.extract(fields.balance, $, cleanText) : undefined;
+    const balance = balanceRaw ? this.parseAmount(balanceRaw) : undefined;
+    const balanceCurrencyRaw = fields.balanceCurrency ? this.extract(fields.balanceCurrency, $, cleanText) : undefined;
+
+    const direction = this.detectDirection(message.subject, payee, cleanText);
+
+    const memoRaw = fields.memo ? this.extract(fields.memo, $, cleanText) : undefined;
+    const memo = memoRaw || (account ? `${this.bank} account ending in ${account}` : `${this.bank} Transaction`);
+
+    const { id, legacyId } = fingerprintIds({ parser: this.name, account, date, datetime, amount, payee, direction });
+
+    return {
+      id,
+      legacyId,
+      bank: this.bank,
+      account,
+      date,
+      datetime,
+      payee,
+      memo,
+      amount,
+      currency,
+      direction,
+      rawMessageId: message.id,
+      rawThreadId: message.threadId,
+      ...(postedAmount !== undefined && !isNaN(postedAmount) && {
+        postedAmount,
+        postedCurrency: normalizeCurrency(postedCurrencyRaw, normalizeCurrency(this.definition.defaultCurrency)),
+      }),
+      ...(balance !== undefined && !isNaN(balance) && {
+        balance,
+        balanceCurrency: normalizeCurrency(balanceCurrencyRaw, normalizeCurrency(this.definition.defaultCurrency)),
+      }),
+    };
+  }
+
+  private extract(field: FieldExtractor, $: any, cleanText: string): string | undefined {
+    let source = cleanText;
+
+    if (field.selector) {
+      const selected = $(field.selector).first();
+      source = selected.length > 0 ? selected.text().replace(/\s+/g, ' ').trim() : '';
+      if (!field.regex) {
+        return source || field.value;
+      }
+    }
+
+    if (field.regex) {
+      const regex = new RegExp(field.regex, 'i');
+      const match = source.match(regex);
+      if (match) {
+        const group = field.group ?? (match.length > 1 ? 1 : 0);
+        const value = match[group]?.trim();
+        if (value) return value;
+      }
+    }
+
+    return field.value;
+  }
+
+  private parseAmount(raw: string): number {
+    const decimalSeparator = this.definition.decimalSeparator || '.';
+    const thousandsSeparator = decimalSeparator === '.' ? ',' : '.';
+    const cleaned = raw
+      .replace(/[^\d.,-]/g, '')
+      .split(thousandsSeparator).join('')
+      .replace(decimalSeparator, '.');
+    return Math.abs(parseFloat(cleaned));
+  }
+
+  private detectDirection(subject: string, payee: string, body: string): 'inflow' | 'outflow' {
+    const rules = this.definition.direction || {};
+    const sources = rules.in || ['subject', 'payee'];
+    const haystack = sources
+      .map(source => (source === 'subject' ? subject : source === 'payee' ? payee : body))
+      .join(' ')
+      .toLowerCase();
+
+    const containsAny = (keywords?: string[]) =>
+      (keywords || []).some(keyword => haystack.includes(keyword.toLowerCase()));
+
+    if (containsAny(rules.inflowKeywords)) return 'inflow';
+    if (containsAny(rules.outflowKeywords)) return 'outflow';
+    return rules.default || 'outflow';
+  }
+}
+
+/**
+ * Validate a parser definition, throwing a descriptive error if it is unusable
+ */
+export function validateParserDefinition(definition: ParserDefinition, source = 'parser definition'): void {
+  if (!definition || typeof definition !== 'object') {
+    throw new Error(`Invalid ${source}: expected an object`);
+  }
+  if (!definition.name || typeof definition.name !== 'string') {
+    throw new Error(`Invalid ${source}: "name" is required`);
+  }
+  if (!definition.match || toList(definition.match.from).length === 0) {
+    throw new Error(`Invalid ${source}: "match.from" is required`);
+  }
+  if (!definition.fields?.amount) {
+    throw new Error(`Invalid ${source}: "fields.amount" is required`);
+  }
+
+  for (const [fieldName, field] of Object.entries(definition.fields)) {
+    if (!field) continue;
+    if (!field.selector && !field.regex && field.value === undefined) {
+      throw new Error(`Invalid ${source}: field "${fieldName}" needs a selector, regex or value`);
+    }
+    if (field.regex) {
+      try {
+        new RegExp(field.regex, 'i');
+      } catch (error: any) {
+        throw new Error(`Invalid ${source}: field "${fieldName}" has an invalid regex: ${error.message}`);
+      }
+    }
+  }
+
+  if (definition.timezone && !isValidTimezone(definition.timezone)) {
+    throw new Error(`Invalid ${source}: "timezone" must be an IANA timezone name`);
+  }
+
+  const direction = definition.direction?.default;
+  if (direction && direction !== 'inflow' && direction !== 'outflow') {
+    throw new Error(`Invalid ${source}: "direction.default" must be "inflow" or "outflow"`);
+  }
+}
+
+/**
+ * Read a single JSON or YAML parser definition file
+ */
+export function readParserDefinition(filePath: string): ParserDefinition {
+  const content = fs.readFileSync(filePath, 'utf-8');
+  const definition = path.extname(filePath) === '.json'
+    ? JSON.parse(content)
+    : YAML.parse(content);
+
+  validateParserDefinition(definition, path.basename(filePath));
+  return definition as ParserDefinition;
+}
+
+/**
+ * Load and compile every parser definition in the `parsers/` directory.
+ * Invalid files are reported and skipped so one bad file doesn't break the sync.
+ */
+export function loadDeclarativeParsers(context: ParserContext, dir: string = PARSERS_DIR): DeclarativeParser[] {
+  if (!fs.existsSync(dir)) return [];
+
+  const files = fs.readdirSync(dir)
+    .filter(file => DEFINITION_EXTENSIONS.includes(path.extname(file).toLowerCase()))
+    .sort();
+
+  const parsers: DeclarativeParser[] = [];
+  for (const file of files) {
+    try {
+      parsers.push(new DeclarativeParser(readParserDefinition(path.join(dir, file)), context));
+    } catch (error: any) {
+      console.warn(`Skipping parser definition ${file}: ${error.message}`);
+    }
+  }
+
+  return parsers;
+}
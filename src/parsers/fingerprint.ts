@@ -0,0 +1,56 @@
+import crypto from 'crypto';
+
+/**
+ * Transaction ids are fingerprints of what the bank reported, so the same
+ * notification always maps to the same row.
+ *
+ * - v1: `${parser}:${account}:${date}:${amount}:${payee}:${direction}`. Two
+ *   identical purchases on the same day collapse into one row.
+ * - v2: the same parts with the full transaction time instead of the date.
+ *   Identical purchases in the same minute (or on a date-only email) are told
+ *   apart by their message id when saved (see `disambiguateFingerprint`).
+ *
+ * Rows stored before v2 keep their v1 id until `migrate-fingerprints` rewrites them.
+ */
+export const FINGERPRINT_VERSION = 2;
+
+export interface FingerprintInput {
+  parser: string;
+  account?: string;
+  date: string;
+  datetime?: string;
+  amount: number;
+  payee: string;
+  direction: 'inflow' | 'outflow';
+}
+
+function md5(input: string): string {
+  return crypto.createHash('md5').update(input).digest('hex');
+}
+
+export function fingerprint(input: FingerprintInput): string {
+  const when = input.datetime || input.date;
+  return md5(`v2:${input.parser}:${input.account}:${when}:${input.amount}:${input.payee}:${input.direction}`);
+}
+
+/**
+ * The v1 id the same transaction was stored under before fingerprint v2
+ */
+export function legacyFingerprint(input: FingerprintInput): string {
+  return md5(`${input.parser}:${input.account}:${input.date}:${input.amount}:${input.payee}:${input.direction}`);
+}
+
+/**
+ * Id for a transaction whose fingerprint is already taken by a different email
+ * (a genuine second identical purchase)
+ */
+export function disambiguateFingerprint(id: string, messageId: string): string {
+  return md5(`${id}:${messageId}`);
+}
+
+/**
+ * `id` and `legacyId` for a parsed transaction
+ */
+export function fingerprintIds(input: FingerprintInput): { id: string; legacyId: string } {
+  return { id: fingerprint(input), legacyId: legacyFingerprint(input) };
+}
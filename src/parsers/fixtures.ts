@@ -0,0 +1,174 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { GmailMessageData, Transaction } from '../types';
+import { parseEml } from '../mail/eml';
+import { ParserRegistry } from './registry';
+import { AccountOwnership } from '../config/ownership';
+import { DEFAULT_BANK_TIMEZONE } from '../utils/dates';
+
+/**
+ * Offline parser regression fixtures.
+ *
+ * Each fixture is a raw email (`<name>.eml`) or a JSON `GmailMessageData`
+ * snapshot (`<name>.json`) next to a `<name>.expected.json` file holding the
+ * name of the parser that should claim it and the `Transaction` it should
+ * produce (or `null` when the parser is expected to reject the email).
+ *
+ * Account ownership (and the bank timezone) come from `accounts.fixture.json`
+ * in the fixtures directory (same shape as accounts.json), and declarative
+ * parsers from its `definitions/` folder, never from the user's real config.
+ */
+
+export const FIXTURES_DIR = path.join(process.cwd(), 'fixtures', 'parsers');
+
+const EXPECTED_SUFFIX = '.expected.json';
+const ACCOUNTS_FILE = 'accounts.fixture.json';
+const DEFINITIONS_DIR = 'definitions';
+const MESSAGE_EXTENSIONS = ['.eml', '.json'];
+
+export interface FixtureExpectation {
+  parser: string | null;
+  transaction: Transaction | null;
+}
+
+export interface ParserFixture {
+  name: string; // Path relative to the fixtures directory, without extension
+  file: string;
+  expectedFile: string;
+  message: GmailMessageData;
+  expected?: FixtureExpectation; // Missing until the first --update-snapshots
+}
+
+export interface FixtureResult {
+  fixture: ParserFixture;
+  actual: FixtureExpectation;
+  passed: boolean;
+  differences: string[];
+}
+
+/**
+ * List fixture message files (recursively), sorted for stable output
+ */
+export function listFixtureFiles(dir: string = FIXTURES_DIR, root: string = dir): string[] {
+  if (!fs.existsSync(dir)) return [];
+
+  const files: string[] = [];
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (entry.name === DEFINITIONS_DIR && dir === root) continue;
+      files.push(...listFixtureFiles(fullPath, root));
+    } else if (
+      MESSAGE_EXTENSIONS.includes(path.extname(entry.name).toLowerCase()) &&
+      !entry.name.endsWith(EXPECTED_SUFFIX) &&
+      entry.name !== ACCOUNTS_FILE
+    ) {
+      files.push(fullPath);
+    }
+  }
+
+  return files.sort();
+}
+
+/**
+ * Load a fixture message and its expected output
+ */
+export async function loadFixture(file: string, dir: string = FIXTURES_DIR): Promise<ParserFixture> {
+  const extension = path.extname(file);
+  const name = path.relative(dir, file).slice(0, -extension.length);
+  const expectedFile = file.slice(0, -extension.length) + EXPECTED_SUFFIX;
+
+  let message: GmailMessageData;
+  if (extension.toLowerCase() === '.eml') {
+    message = await parseEml(await fs.readFile(file), path.basename(name));
+  } else {
+    const snapshot = await fs.readJson(file);
+    message = { ...snapshot, date: new Date(snapshot.date) };
+  }
+
+  const expected = fs.existsSync(expectedFile)
+    ? (await fs.readJson(expectedFile)) as FixtureExpectation
+    : undefined;
+
+  return { name, file, expectedFile, message, expected };
+}
+
+export async function loadFixtures(dir: string = FIXTURES_DIR): Promise<ParserFixture[]> {
+  return Promise.all(listFixtureFiles(dir).map(file => loadFixture(file, dir)));
+}
+
+/**
+ * A registry wired to the fixture accounts and parser definitions instead of
+ * the user's accounts.json and parsers/
+ */
+export function createFixtureRegistry(dir: string = FIXTURES_DIR): ParserRegistry {
+  const accountsFile = path.join(dir, ACCOUNTS_FILE);
+  const config = fs.existsSync(accountsFile) ? fs.readJsonSync(accountsFile) : {};
+  return new ParserRegistry(
+    AccountOwnership.fromConfig(config),
+    path.join(dir, DEFINITIONS_DIR),
+    config.timezone || DEFAULT_BANK_TIMEZONE
+  );
+}
+
+/**
+ * Run a fixture through the registry exactly like `sync` does
+ */
+export function runFixture(fixture: ParserFixture, registry: ParserRegistry): FixtureResult {
+  const parser = registry.findParser(fixture.message);
+  const actual: FixtureExpectation = {
+    parser: parser ? parser.name : null,
+    // Round-trip through JSON so `undefined` fields compare like the stored snapshot
+    transaction: parser ? JSON.parse(JSON.stringify(parser.parse(fixture.message))) : null,
+  };
+
+  const differences = fixture.expected
+    ? diffExpectations(fixture.expected, actual)
+    : ['no expected output (run with --update-snapshots to record it)'];
+
+  return { fixture, actual, passed: differences.length === 0, differences };
+}
+
+/**
+ * Field-by-field differences between expected and actual output
+ */
+export function diffExpectations(expected: FixtureExpectation, actual: FixtureExpectation): string[] {
+  const differences: string[] = [];
+
+  if (expected.parser !== actual.parser) {
+    differences.push(`parser: expected ${format(expected.parser)}, got ${format(actual.parser)}`);
+  }
+
+  if (!expected.transaction || !actual.transaction) {
+    if (expected.transaction !== actual.transaction) {
+      differences.push(
+        `transaction: expected ${expected.transaction ? 'a transaction' : 'null'}, ` +
+        `got ${actual.transaction ? 'a transaction' : 'null'}`
+      );
+    }
+    return differences;
+  }
+
+  const expectedTx = expected.transaction as unknown as Record<string, unknown>;
+  const actualTx = actual.transaction as unknown as Record<string, unknown>;
+  const keys = new Set([...Object.keys(expectedTx), ...Object.keys(actualTx)]);
+
+  for (const key of keys) {
+    if (JSON.stringify(expectedTx[key]) !== JSON.stringify(actualTx[key])) {
+      differences.push(`${key}: expected ${format(expectedTx[key])}, got ${format(actualTx[key])}`);
+    }
+  }
+
+  return differences;
+}
+
+/**
+ * Record the actual output as the new expected output
+ */
+export function writeExpected(result: FixtureResult): void {
+  fs.writeJsonSync(result.fixture.expectedFile, result.actual, { spaces: 2 });
+}
+
+function format(value: unknown): string {
+  return value === undefined ? 'undefined' : JSON.stringify(value);
+}
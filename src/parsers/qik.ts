@@ -1,11 +1,31 @@
-import { Parser, GmailMessageData, Transaction } from '../types';
-import crypto from 'crypto';
-import { parse, format, isValid } from 'date-fns';
+import { Parser, GmailMessageData, Transaction, ParserContext } from '../types';
+import { BankDateTime, bankDateTimeFromParts, toBankDateTime } from '../utils/dates';
 import * as cheerio from 'cheerio';
+import { fingerprintIds } from './fingerprint';
+
+// Purchases are outflows; card payments, refunds and credits (cashback) are inflows
+type QIKNotificationKind = 'purchase' | 'payment' | 'refund' | 'credit';
+
+// Notification subjects, checked in order
+const SUBJECT_KINDS: Array<[RegExp, QIKNotificationKind]> = [
+  [/Usaste tu tarjeta de crédito Qik/i, 'purchase'],
+  [/Recibimos tu pago|Pago recibido|Tu pago fue aplicado/i, 'payment'],
+  [/devoluci[oó]n|reembolso/i, 'refund'],
+  [/Recibiste un crédito|crédito a tu tarjeta|cashback/i, 'credit'],
+];
+
+const DEFAULT_PAYEES: Record<QIKNotificationKind, string> = {
+  purchase: 'QIK Transaction',
+  payment: 'QIK Payment',
+  refund: 'QIK Refund',
+  credit: 'QIK Credit',
+};
 
 export class QIKParser implements Parser {
   name = 'QIK';
 
+  constructor(private context: ParserContext) {}
+
   getSearchTerms(): string[] {
     return ['from:notificaciones@qik.do'];
   }
@@ -13,13 +33,21 @@ export class QIKParser implements Parser {
   canParse(message: GmailMessageData): boolean {
     return (
       message.from.includes('notificaciones@qik.do') &&
-      message.subject.includes('Usaste tu tarjeta de crédito Qik')
+      this.detectKind(message.subject) !== undefined
     );
   }
 
+  private detectKind(subject: string): QIKNotificationKind | undefined {
+    const match = SUBJECT_KINDS.find(([pattern]) => pattern.test(subject));
+    return match ? match[1] : undefined;
+  }
+
   parse(message: GmailMessageData): Transaction | null {
     if (!message.htmlBody) return null;
 
+    const kind = this.detectKind(message.subject) ?? 'purchase';
+    const direction = kind === 'purchase' ? 'outflow' : 'inflow';
+
     const $ = cheerio.load(message.htmlBody);
     const text = $.root().text();
 
@@ -28,8 +56,11 @@ export class QIKParser implements Parser {
 
     // Extract card ending (last 4 digits)
     // Format: "Tarjeta 53*************5550" or "termina en 53*************5550"
-    const cardMatch = cleanText.match(/Tarjeta\s+\d+\*+(\d{4})|termina\s+en\s+\d+\*+(\d{4})/i);
-    const account = cardMatch ? (cardMatch[1] || cardMatch[2]) : undefined;
+    const cardMatch = cleanText.match(/Tarjeta\s+(\d+\*+(\d{4}))|termina\s+en\s+(\d+\*+(\d{4}))/i);
+    const maskedCard = cardMatch ? (cardMatch[1] || cardMatch[3]) : undefined;
+    const last4 = cardMatch ? (cardMatch[2] || cardMatch[4]) : undefined;
+    // Prefer the configured account key (it may be aliased by the masked number)
+    const account = this.context.accounts.resolve(maskedCard, this.name) ?? last4;
 
     if (!account) {
       console.warn('QIK: Could not extract card ending');
@@ -50,13 +81,19 @@ export class QIKParser implements Parser {
     // Important: Only capture up to 200 characters to avoid YNAB validation errors
     let payee = '';
 
-    // Try to find "Localidad:" first (most reliable)
-    const localidadMatch = cleanText.match(/Localidad:\s*([^\n\r]{1,200}?)(?:\s+con\s+tu\s+tarjeta|$)/i);
+    // Try to find "Localidad:" first (most reliable); credits name their "Concepto" instead
+    const localidadMatch = cleanText.match(/Localidad:\s*([^\n\r]{1,200}?)(?:\s+con\s+tu\s+tarjeta|\s+Fecha\s+y\s+hora|$)/i);
+    const conceptoMatch = cleanText.match(/Concepto:\s*([^\n\r]{1,200}?)(?:\s+Fecha\s+y\s+hora|$)/i);
 
     if (localidadMatch) {
       payee = localidadMatch[1].trim();
       // Remove any trailing text that might have been captured
       payee = payee.split(/\s+con\s+tu\s+tarjeta/i)[0].trim();
+    } else if (conceptoMatch) {
+      payee = conceptoMatch[1].trim();
+    } else if (kind === 'payment') {
+      // Payment emails don't name a merchant
+      payee = DEFAULT_PAYEES.payment;
     } else {
       // Fallback: try to extract from "en [MERCHANT]"
       const enMatch = cleanText.match(/en\s+([A-Z][A-Z\s]{1,100}?)(?:\s+con\s+tu\s+tarjeta|$)/i);
@@ -68,7 +105,7 @@ export class QIKParser implements Parser {
         if (merchantMatch) {
           payee = merchantMatch[1].trim();
         } else {
-          payee = 'QIK Transaction';
+          payee = DEFAULT_PAYEES[kind];
         }
       }
     }
@@ -78,9 +115,9 @@ export class QIKParser implements Parser {
       payee = payee.substring(0, 200).trim();
     }
 
-    // Extract date
+    // Extract date (bank local time)
     // Format: "12-30-2025 08:49 AM (AST)" or "Fecha y hora: 12-30-2025 08:49 AM"
-    let txDate: Date;
+    let when: BankDateTime | undefined;
     const dateMatch = cleanText.match(/(\d{1,2})-(\d{1,2})-(\d{4})\s+(\d{1,2}):(\d{2})\s*(AM|PM)/i) ||
                       cleanText.match(/Fecha y hora[:\s]+(\d{1,2})-(\d{1,2})-(\d{4})\s+(\d{1,2}):(\d{2})\s*(AM|PM)/i);
 
@@ -95,34 +132,32 @@ export class QIKParser implements Parser {
       if (ampm === 'PM' && hour !== 12) hour += 12;
       if (ampm === 'AM' && hour === 12) hour = 0;
 
-      txDate = new Date(year, month - 1, day, hour, minute);
-    } else {
-      // Fallback to email date
-      txDate = message.date;
+      when = bankDateTimeFromParts(year, month, day, hour, minute, 0, this.context.timezone);
+      if (!when) {
+        console.warn('QIK: Invalid date, using email date');
+      }
     }
 
-    if (!isValid(txDate)) {
-      console.warn('QIK: Invalid date, using email date');
-      txDate = message.date;
-    }
+    // Fallback to email date
+    const { date, datetime } = when || toBankDateTime(message.date, this.context.timezone);
 
     // Create transaction ID fingerprint
-    const dateStr = format(txDate, 'yyyy-MM-dd');
-    const id = crypto
-      .createHash('md5')
-      .update(`QIK:${account}:${dateStr}:${amount}:${payee}:outflow`)
-      .digest('hex');
+    const { id, legacyId } = fingerprintIds({ parser: this.name, account, date, datetime, amount, payee, direction });
 
     const transaction: Transaction = {
       id,
+      legacyId,
       bank: 'QIK',
       account,
-      date: dateStr,
+      date,
+      datetime,
       payee: payee.trim(),
-      memo: `QIK Credit Card ending in ${account}`,
+      memo: kind === 'purchase'
+        ? `QIK Credit Card ending in ${account}`
+        : `QIK Credit Card ending in ${account} (${kind})`,
       amount,
       currency: 'DOP',
-      direction: 'outflow', // Credit card spending is always outflow
+      direction,
       rawMessageId: message.id,
       rawThreadId: message.threadId,
     };
@@ -1,15 +1,36 @@
-import { Parser, GmailMessageData, Transaction } from '../types';
+import { Parser, GmailMessageData, Transaction, AccountResolver, ParserContext, ParserIssue } from '../types';
 import { BHDParser } from './bhd';
 import { QIKParser } from './qik';
 import { CaribeParser } from './caribe';
+import { loadDeclarativeParsers } from './declarative';
+import { loadAccountOwnership } from '../config/ownership';
+import { loadBankTimezone } from '../config/timezone';
 
 export class ParserRegistry {
   private parsers: Parser[] = [];
+  private issues: ParserIssue[] = [];
+  readonly context: ParserContext;
 
-  constructor() {
-    this.register(new BHDParser());
-    this.register(new QIKParser());
-    this.register(new CaribeParser());
+  /**
+   * @param accounts Account ownership injected into every parser (defaults to accounts.json)
+   * @param parsersDir Directory with declarative parser definitions (defaults to parsers/)
+   * @param timezone Timezone email dates are interpreted in (defaults to the configured bank timezone)
+   */
+  constructor(accounts: AccountResolver = loadAccountOwnership(), parsersDir?: string, timezone: string = loadBankTimezone()) {
+    this.context = {
+      accounts,
+      timezone,
+      report: issue => {
+        this.issues.push(issue);
+      },
+    };
+
+    this.register(new BHDParser(this.context));
+    this.register(new QIKParser(this.context));
+    this.register(new CaribeParser(this.context));
+
+    // Config-driven parsers from the `parsers/` directory
+    loadDeclarativeParsers(this.context, parsersDir).forEach(parser => this.register(parser));
   }
 
   register(parser: Parser) {
@@ -23,6 +44,15 @@ export class ParserRegistry {
   getAllParsers(): Parser[] {
     return this.parsers;
   }
+
+  /**
+   * Return and clear the issues parsers reported since the last call
+   */
+  takeIssues(): ParserIssue[] {
+    const issues = this.issues;
+    this.issues = [];
+    return issues;
+  }
 }
 
 export const parserRegistry = new ParserRegistry();
@@ -0,0 +1,118 @@
+import fs from 'fs-extra';
+import { RulesEngine } from '../engine';
+import { Transaction } from '../../types';
+
+const pedidosYa: Transaction = {
+  id: 'tx-1',
+  bank: 'BHD',
+  account: '1610',
+  date: '2025-11-08', // Saturday
+  payee: 'PEDIDOSYA*SANTO DOMINGO',
+  memo: 'BHD account ending in 1610',
+  amount: 3450,
+  currency: 'DOP',
+  direction: 'outflow',
+  rawMessageId: 'msg-1',
+  rawThreadId: 'thread-1',
+};
+
+describe('RulesEngine', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('keeps applying merchant_normalization entries in order', () => {
+    const engine = new RulesEngine({
+      merchant_normalization: [
+        { match: 'PEDIDOSYA', payee: 'PedidosYa', category: 'Dining Out' },
+        { match: '^PedidosYa$', memo: '(delivery)' },
+      ],
+    });
+
+    expect(engine.apply(pedidosYa)).toMatchObject({
+      payee: 'PedidosYa',
+      memo: 'BHD account ending in 1610 (delivery)',
+      category: 'Dining Out',
+    });
+  });
+
+  it('matches amount, account, bank, direction and currency conditions', () => {
+    const engine = new RulesEngine({
+      rules: [
+        {
+          name: 'Big PedidosYa orders',
+          when: { payee: 'PEDIDOSYA', amount: { min: 3000 }, account: '1610', bank: 'bhd', direction: 'outflow', currency: ['DOP', 'USD'] },
+          category: 'Entertaining',
+        },
+      ],
+      merchant_normalization: [],
+    });
+
+    expect(engine.apply(pedidosYa).category).toBe('Entertaining');
+    expect(engine.apply({ ...pedidosYa, amount: 2999.99 }).category).toBeUndefined();
+    expect(engine.apply({ ...pedidosYa, account: '0014' }).category).toBeUndefined();
+    expect(engine.apply({ ...pedidosYa, direction: 'inflow' }).category).toBeUndefined();
+  });
+
+  it('combines conditions with any/all, weekdays and date ranges', () => {
+    const engine = new RulesEngine({
+      rules: [
+        {
+          when: {
+            any: [{ weekday: ['sat', 'sunday'] }, { date: { from: '2025-12-24', to: '2025-12-25' } }],
+            all: [{ memo: '1610' }],
+          },
+          category: 'Weekend',
+        },
+      ],
+      merchant_normalization: [],
+    });
+
+    expect(engine.apply(pedidosYa).category).toBe('Weekend');
+    expect(engine.apply({ ...pedidosYa, date: '2025-11-10' }).category).toBeUndefined(); // Monday
+    expect(engine.apply({ ...pedidosYa, date: '2025-12-24' }).category).toBe('Weekend'); // Wednesday
+  });
+
+  it('runs higher priorities first and stops at a stop rule', () => {
+    const engine = new RulesEngine({
+      rules: [
+        { when: { payee: 'PEDIDOSYA' }, category: 'Dining Out' },
+        { priority: 10, when: { payee: 'PEDIDOSYA', amount: { min: 3000 } }, category: 'Entertaining', stop: true },
+      ],
+      merchant_normalization: [{ match: 'PEDIDOSYA', payee: 'PedidosYa' }],
+    });
+
+    expect(engine.apply(pedidosYa)).toMatchObject({ payee: 'PEDIDOSYA*SANTO DOMINGO', category: 'Entertaining' });
+    expect(engine.apply({ ...pedidosYa, amount: 500 })).toMatchObject({ payee: 'PedidosYa', category: 'Dining Out' });
+  });
+
+  it('sets flag, approval and skip/hold actions, with skip winning over hold', () => {
+    const engine = new RulesEngine({
+      rules: [
+        { name: 'Large purchases', when: { amount: { min: 3000 } }, flag: 'red', unapproved: true, hold: true },
+        { name: 'Test charges', when: { amount: { max: 5 } }, skip: true },
+        { name: 'Already entered', when: { payee: 'PEDIDOSYA', amount: { max: 5 } }, hold: true },
+      ],
+      merchant_normalization: [],
+    });
+
+    expect(engine.apply(pedidosYa)).toMatchObject({ flag: 'red', unapproved: true, ynabHold: 'hold' });
+    expect(engine.apply({ ...pedidosYa, amount: 1 })).toMatchObject({ ynabHold: 'skip' });
+    expect(engine.apply({ ...pedidosYa, amount: 500 })).not.toHaveProperty('ynabHold');
+  });
+
+  it('loads rules.json without the rules that have errors', () => {
+    jest.spyOn(fs, 'existsSync').mockReturnValue(true);
+    jest.spyOn(fs, 'readJsonSync').mockReturnValue({
+      rules: [{ name: 'Broken', when: { payee: 'PEDIDOSYA(' }, category: 'Dining Out' }],
+      merchant_normalization: [{ match: 'PEDIDOSYA', payee: 'PedidosYa' }],
+    });
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const engine = new RulesEngine();
+
+    expect(engine.apply(pedidosYa)).toMatchObject({ payee: 'PedidosYa' });
+    expect(engine.apply(pedidosYa)).not.toHaveProperty('category');
+    expect(warn).toHaveBeenCalledWith('   Skipping rules[0] "Broken"');
+  });
+});
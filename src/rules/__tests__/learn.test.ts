@@ -0,0 +1,58 @@
+import { suggestRules, LearningSample } from '../learn';
+import { RulesEngine } from '../engine';
+import { transaction } from '../../__tests__/transactions';
+
+function sample(bankPayee: string, payee: string, category?: string): LearningSample {
+  return { transaction: transaction(bankPayee, { amount: 500 }), payee, category };
+}
+
+describe('suggestRules', () => {
+  it('proposes a rule from the common leading words of renamed payees', () => {
+    const suggestions = suggestRules([
+      sample('SUPERMERCADO NACIONAL 0123', 'Nacional', 'Groceries'),
+      sample('SUPERMERCADO NACIONAL 0456 STO DGO', 'Nacional', 'Groceries'),
+      sample('SUPERMERCADO NACIONAL CHURCHILL', 'Nacional', 'Groceries'),
+      sample('SUPERMERCADO BRAVO', 'Bravo', 'Groceries'),
+    ], new RulesEngine({ merchant_normalization: [] }));
+
+    expect(suggestions).toEqual([{
+      rule: { match: '^SUPERMERCADO\\W+NACIONAL', payee: 'Nacional', category: 'Groceries' },
+      support: 3,
+      matches: 3,
+      confidence: 1,
+      examples: ['SUPERMERCADO NACIONAL 0123', 'SUPERMERCADO NACIONAL 0456 STO DGO', 'SUPERMERCADO NACIONAL CHURCHILL'],
+    }]);
+  });
+
+  it('leaves out rules below the support or confidence thresholds', () => {
+    const samples = [
+      sample('UBER TRIP', 'Uber', 'Transport'),
+      sample('UBER TRIP', 'Uber', 'Transport'),
+      sample('UBER TRIP', 'Uber Eats', 'Dining Out'),
+      sample('CLARO 809', 'Claro', 'Phone'),
+    ];
+    const engine = new RulesEngine({ merchant_normalization: [] });
+
+    expect(suggestRules(samples, engine)).toEqual([]);
+    expect(suggestRules(samples, engine, { minSupport: 1, minConfidence: 0.6 }).map(suggestion => suggestion.rule)).toEqual([
+      { match: '^UBER\\W+TRIP', payee: 'Uber', category: 'Transport' },
+      { match: '^CLARO', payee: 'Claro', category: 'Phone' },
+    ]);
+  });
+
+  it('skips what the current rules already do', () => {
+    const samples = [
+      sample('PEDIDOSYA*SANTO DOMINGO', 'PedidosYa', 'Dining Out'),
+      sample('PEDIDOSYA*SANTIAGO', 'PedidosYa', 'Dining Out'),
+    ];
+
+    expect(suggestRules(samples, new RulesEngine({
+      merchant_normalization: [{ match: 'PEDIDOSYA', payee: 'PedidosYa', category: 'Dining Out' }],
+    }))).toEqual([]);
+    expect(suggestRules(samples, new RulesEngine({
+      merchant_normalization: [{ match: 'PEDIDOSYA', payee: 'PedidosYa' }],
+    })).map(suggestion => suggestion.rule)).toEqual([
+      { match: '^PEDIDOSYA', payee: 'PedidosYa', category: 'Dining Out' },
+    ]);
+  });
+});
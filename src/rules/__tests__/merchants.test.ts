@@ -0,0 +1,74 @@
+import { aliasScore, MerchantNormalizer } from '../merchants';
+import { Transaction } from '../../types';
+
+const purchase: Transaction = {
+  id: 'tx-1',
+  bank: 'CARIBE',
+  account: '5678',
+  date: '2025-11-08',
+  payee: 'DOMEX COURIER BELLA V SANTO DOMINGODO',
+  memo: '',
+  amount: 850,
+  currency: 'DOP',
+  direction: 'outflow',
+  rawMessageId: 'msg-1',
+  rawThreadId: 'thread-1',
+};
+
+describe('MerchantNormalizer', () => {
+  const normalizer = new MerchantNormalizer({
+    merchants: [
+      { name: 'Domex', aliases: ['DOMEX COURIER'], category: 'Shipping' },
+      { name: 'Uber', category: 'Transport' },
+      { name: 'Uber Eats', aliases: ['UBER EATS'], category: 'Dining Out' },
+      { name: 'PedidosYa' },
+      { name: 'Supermercado Nacional', aliases: ['SUPERMERCADO NACIONAL'] },
+    ],
+  });
+
+  it('strips processor prefixes, cities, countries and terminal ids', () => {
+    expect(normalizer.clean('DOMEX COURIER BELLA V SANTO DOMINGODO')).toBe('DOMEX COURIER BELLA V');
+    expect(normalizer.clean('PAYPAL *SPOTIFY 4029357733 DO')).toBe('SPOTIFY');
+    expect(normalizer.clean('FARMACIA CAROL #0123 STO DGO')).toBe('FARMACIA CAROL');
+    expect(normalizer.clean('DO')).toBe('DO');
+  });
+
+  it('matches noisy payees to dictionary merchants', () => {
+    expect(normalizer.match('DOMEX COURIER BELLA V SANTO DOMINGODO')).toMatchObject({ merchant: { name: 'Domex' }, score: 1 });
+    expect(normalizer.match('UBER *EATS PENDING').merchant?.name).toBe('Uber Eats');
+    expect(normalizer.match('UBER *TRIP HELP.UBER.COM').merchant?.name).toBe('Uber');
+    expect(normalizer.match('PEDIDOS YA*SANTO DOMINGO')).toMatchObject({ merchant: { name: 'PedidosYa' }, score: 0.95 });
+    expect(normalizer.match('SUPERMERCADO NACINAL 0456').merchant?.name).toBe('Supermercado Nacional');
+    expect(normalizer.match('FERRETERIA OCHOA').score).toBe(0);
+  });
+
+  it('keeps the raw payee and uses the dictionary name and category', () => {
+    const normalized = normalizer.apply(purchase);
+    expect(normalized).toMatchObject({
+      payee: 'Domex',
+      rawPayee: 'DOMEX COURIER BELLA V SANTO DOMINGODO',
+      category: 'Shipping',
+    });
+    expect(normalizer.apply(normalized)).toEqual(normalized);
+    expect(normalizer.apply({ ...purchase, category: 'Gifts' }).category).toBe('Gifts');
+  });
+
+  it('only cleans payees that match weakly, and flags them for review', () => {
+    const weak = normalizer.match('SUPERMERCADO BRAVO');
+    expect(weak).toMatchObject({ merchant: { name: 'Supermercado Nacional' }, score: 0.5 });
+    expect(normalizer.needsReview(weak)).toBe(false);
+
+    const strict = new MerchantNormalizer({ merchants: [{ name: 'Supermercado Nacional' }], review_score: 0.5 });
+    expect(strict.needsReview(strict.match('SUPERMERCADO BRAVO 12'))).toBe(true);
+    expect(strict.apply({ ...purchase, payee: 'SUPERMERCADO BRAVO 12' }).payee).toBe('SUPERMERCADO BRAVO');
+  });
+});
+
+describe('aliasScore', () => {
+  it('scores the share of the alias found in the payee', () => {
+    expect(aliasScore('CLARO CODETEL', 'CLARO')).toBe(1);
+    expect(aliasScore('CLAR', 'CLARO')).toBe(0.9);
+    expect(aliasScore('BANCO POPULAR', 'POPULAR BOOKSTORE')).toBe(0.5);
+    expect(aliasScore('', 'CLARO')).toBe(0);
+  });
+});
@@ -0,0 +1,53 @@
+import { computeSplits } from '../splits';
+import { RulesEngine } from '../engine';
+import { Transaction } from '../../types';
+
+describe('computeSplits', () => {
+  it('splits by percentage, keeping the parts equal to the total', () => {
+    const splits = computeSplits(1000.01, [
+      { percent: 70, category: 'Groceries' },
+      { percent: 30, category: 'Household', memo: 'cleaning' },
+    ]);
+    expect(splits).toEqual([
+      { amount: 700.01, category: 'Groceries' },
+      { amount: 300, category: 'Household', memo: 'cleaning' },
+    ]);
+  });
+
+  it('gives the remainder part what fixed and percentage parts leave', () => {
+    const splits = computeSplits(2500, [{ amount: 500, category: 'Household' }, { percent: 10 }, { category: 'Groceries' }]);
+    expect(splits.map(split => split.amount)).toEqual([500, 250, 1750]);
+  });
+
+  it('rejects parts that cannot add up to the total', () => {
+    expect(() => computeSplits(100, [{ amount: 80 }, { amount: 30 }])).toThrow(/add up/);
+    expect(() => computeSplits(100, [{ amount: 120 }, {}])).toThrow(/more than the transaction amount/);
+    expect(() => computeSplits(100, [{}, {}])).toThrow(/Only one/);
+    expect(() => computeSplits(100, [{ percent: 100 }])).toThrow(/two parts/);
+  });
+
+  it('is applied by rules, leaving the transaction unsplit when the parts are wrong', () => {
+    const sirena = {
+      id: 'tx-1', bank: 'BHD', account: '1610', date: '2025-11-08', payee: 'LA SIRENA', memo: '',
+      amount: 4321.5, currency: 'DOP', direction: 'outflow', rawMessageId: 'm', rawThreadId: 't',
+    } as Transaction;
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const engine = new RulesEngine({
+      rules: [{ when: { payee: 'SIRENA' }, split: [{ percent: 60, category: 'Groceries' }, { category: 'Household' }] }],
+      merchant_normalization: [],
+    });
+    expect(engine.apply(sirena).splits).toEqual([
+      { amount: 2592.9, category: 'Groceries' },
+      { amount: 1728.6, category: 'Household' },
+    ]);
+
+    const broken = new RulesEngine({
+      rules: [{ name: 'broken', when: { payee: 'SIRENA' }, split: [{ amount: 5000 }, { amount: 10 }] }],
+      merchant_normalization: [],
+    });
+    expect(broken.apply(sirena).splits).toBeUndefined();
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Rule "broken"'));
+    warn.mockRestore();
+  });
+});
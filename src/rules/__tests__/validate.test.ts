@@ -0,0 +1,88 @@
+import { validateRules, withoutInvalidRules } from '../validate';
+
+describe('validateRules', () => {
+  it('accepts a valid rules file', () => {
+    expect(validateRules({
+      rules: [
+        { name: 'Weekend delivery', when: { payee: 'PEDIDOSYA', weekday: ['sat', 'sun'] }, category: 'Dining Out' },
+        { name: 'Rent', when: { payee: '^TRANSFER', amount: { min: 30000 } }, split: [{ percent: 60, category: 'Rent' }, { category: 'Utilities' }] },
+      ],
+      merchant_normalization: [{ match: 'UBER', payee: 'Uber' }],
+    })).toEqual([]);
+  });
+
+  it('reports regexes that do not compile and malformed conditions', () => {
+    const issues = validateRules({
+      rules: [
+        { name: 'Broken', when: { payee: 'UBER(', any: [{ memo: '[a-' }], direction: 'out', weekday: 'funday' }, category: 'Transport' },
+      ],
+      merchant_normalization: [{ match: '*STAR', payee: 'Star' }],
+    });
+
+    expect(issues.every(issue => issue.severity === 'error')).toBe(true);
+    expect(issues.map(issue => `${issue.rule}: ${issue.message.split(':')[0]}`)).toEqual([
+      'rules[0] "Broken": when.payee',
+      'rules[0] "Broken": when.direction must be "inflow" or "outflow"',
+      'rules[0] "Broken": when.weekday',
+      'rules[0] "Broken": when.any[0].memo',
+      'merchant_normalization[0] "*STAR": match',
+    ]);
+  });
+
+  it('checks the shape of rules and splits', () => {
+    const issues = validateRules({
+      rules: [
+        { category: 'Groceries' },
+        { when: {}, split: [{ percent: 60 }, { percent: 30 }] },
+        { when: { amount: { min: 5000 } }, flag: 'pink', hold: true, skip: true },
+      ],
+      merchant_normalization: 'UBER',
+    });
+
+    expect(issues.map(issue => issue.message)).toEqual([
+      'Missing "when" (use {} to match every transaction)',
+      'split: percentages add up to 90, not 100, and no part takes the remainder',
+      '"flag" must be one of red, orange, yellow, green, blue, purple',
+      'A rule can "hold" or "skip", not both',
+      '"merchant_normalization" must be a list',
+    ]);
+  });
+
+  it('warns about duplicate rules and rules a stop rule always catches first', () => {
+    const issues = validateRules({
+      rules: [
+        { name: 'Uber', when: { payee: 'UBER' }, category: 'Transport', stop: true },
+        { name: 'Uber trips', when: { payee: 'UBER', amount: { max: 500 } }, memo: '(trip)' },
+        { name: 'Eats', when: { payee: 'UBER EATS' }, category: 'Dining Out' },
+      ],
+      merchant_normalization: [
+        { match: 'PEDIDOSYA', payee: 'PedidosYa' },
+        { match: 'PEDIDOSYA', payee: 'PedidosYa' },
+      ],
+    });
+
+    expect(issues).toEqual([
+      { severity: 'warning', rule: 'rules[1] "Uber trips"', message: 'Never applies: rules[0] "Uber" matches the same transactions first and stops' },
+      { severity: 'warning', rule: 'merchant_normalization[1] "PEDIDOSYA"', message: 'Duplicate of merchant_normalization[0] "PEDIDOSYA"' },
+    ]);
+  });
+});
+
+describe('withoutInvalidRules', () => {
+  it('leaves out the rules that have errors and names them', () => {
+    const uber = { name: 'Uber', when: { payee: 'UBER' }, category: 'Transport' };
+
+    expect(withoutInvalidRules({
+      rules: [{ name: 'Broken', when: { payee: 'UBER(' } }, uber, { category: 'Groceries' }],
+      merchant_normalization: [{ match: '*STAR', payee: 'Star' }, { match: 'NACIONAL', payee: 'Nacional' }],
+    })).toEqual({
+      config: { rules: [uber], merchant_normalization: [{ match: 'NACIONAL', payee: 'Nacional' }] },
+      dropped: ['rules[0] "Broken"', 'rules[2]', 'merchant_normalization[0] "*STAR"'],
+    });
+  });
+
+  it('treats lists of the wrong shape as empty', () => {
+    expect(withoutInvalidRules({ merchant_normalization: 'UBER' }).config).toEqual({ rules: [], merchant_normalization: [] });
+    expect(withoutInvalidRules([]).config).toEqual({ rules: [], merchant_normalization: [] });
+  });
+});
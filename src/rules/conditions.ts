@@ -0,0 +1,81 @@
+import { parse, isValid } from 'date-fns';
+import { Transaction } from '../types';
+
+export const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] as const;
+
+export type Weekday = typeof WEEKDAYS[number];
+
+/**
+ * What a transaction must look like for a rule to apply. Every condition given
+ * must hold; `all`/`any` nest further condition sets.
+ *
+ * - `payee`/`memo`: case-insensitive regex
+ * - `bank`, `account`, `currency`: one value or a list (any of them)
+ * - `amount`: inclusive range on the transaction amount, in its own currency
+ * - `weekday`: days of the week of the transaction date (`mon`, `tuesday`, ...)
+ * - `date`: inclusive YYYY-MM-DD range
+ */
+export interface RuleConditions {
+  payee?: string;
+  memo?: string;
+  bank?: string | string[];
+  account?: string | string[];
+  direction?: 'inflow' | 'outflow';
+  currency?: string | string[];
+  amount?: { min?: number; max?: number };
+  weekday?: string | string[];
+  date?: { from?: string; to?: string };
+  all?: RuleConditions[];
+  any?: RuleConditions[];
+}
+
+function toList(value: string | string[] | undefined): string[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function oneOf(value: string | undefined, allowed: string | string[] | undefined): boolean {
+  const options = toList(allowed);
+  if (options.length === 0) return true;
+  return value !== undefined && options.some(option => option.toUpperCase() === value.toUpperCase());
+}
+
+/**
+ * `mon`, `Monday` and `MONDAY` all mean Monday
+ */
+export function toWeekday(name: string): Weekday | undefined {
+  const prefix = name.trim().toLowerCase().slice(0, 3);
+  return WEEKDAYS.find(day => day === prefix);
+}
+
+function weekdayOf(date: string): Weekday | undefined {
+  const parsed = parse(date, 'yyyy-MM-dd', new Date());
+  return isValid(parsed) ? WEEKDAYS[parsed.getDay()] : undefined;
+}
+
+export function matchesConditions(transaction: Transaction, conditions: RuleConditions): boolean {
+  const { payee, memo, direction, amount, weekday, date, all, any } = conditions;
+
+  if (payee !== undefined && !new RegExp(payee, 'i').test(transaction.payee)) return false;
+  if (memo !== undefined && !new RegExp(memo, 'i').test(transaction.memo || '')) return false;
+  if (!oneOf(transaction.bank, conditions.bank)) return false;
+  if (!oneOf(transaction.account, conditions.account)) return false;
+  if (!oneOf(transaction.currency, conditions.currency)) return false;
+  if (direction !== undefined && transaction.direction !== direction) return false;
+
+  if (amount?.min !== undefined && transaction.amount < amount.min) return false;
+  if (amount?.max !== undefined && transaction.amount > amount.max) return false;
+
+  if (weekday !== undefined) {
+    const days = toList(weekday).map(toWeekday);
+    if (!days.includes(weekdayOf(transaction.date))) return false;
+  }
+
+  if (date?.from !== undefined && transaction.date < date.from) return false;
+  if (date?.to !== undefined && transaction.date > date.to) return false;
+
+  if (all && !all.every(nested => matchesConditions(transaction, nested))) return false;
+  if (any && !any.some(nested => matchesConditions(transaction, nested))) return false;
+
+  return true;
+}
@@ -1,51 +1,167 @@
 import fs from 'fs-extra';
 import path from 'path';
-import { Transaction } from '../types';
+import { FlagColor, Transaction } from '../types';
+import { matchesConditions, RuleConditions } from './conditions';
+import { computeSplits, SplitPart } from './splits';
+import { validateRules, withoutInvalidRules } from './validate';
+import { AppError, ErrorType } from '../utils/errors';
 
-interface Rule {
+/**
+ * Original rule format: regex on the payee, applied in file order
+ */
+export interface MerchantRule {
   match: string; // Regex or exact match string
   payee?: string; // New payee name
   memo?: string; // Append to memo
-  category?: string; // Suggestion (for future YNAB category mapping)
+  category?: string; // YNAB category name
 }
 
-interface RulesConfig {
-  merchant_normalization: Rule[];
+/**
+ * A rule with conditions on any part of the transaction. Rules run from the
+ * highest priority down (file order for equal priorities); every matching rule
+ * applies unless one with `stop` matched first.
+ */
+export interface ConditionalRule {
+  name?: string; // Shown in logs and reports
+  priority?: number; // Default 0
+  when: RuleConditions;
+  payee?: string; // New payee name
+  memo?: string; // Append to memo
+  category?: string; // YNAB category name
+  split?: SplitPart[]; // Split the amount across categories/memos
+  flag?: FlagColor; // YNAB flag color
+  unapproved?: boolean; // Send to YNAB unapproved, for its approval queue
+  hold?: boolean; // Keep out of YNAB until released (review queue)
+  skip?: boolean; // Store locally, never send to YNAB
+  stop?: boolean; // Skip the remaining (lower-priority) rules
+}
+
+export interface RulesConfig {
+  rules?: ConditionalRule[];
+  merchant_normalization: MerchantRule[];
 }
 
-const RULES_PATH = path.join(process.cwd(), 'rules.json');
+export const RULES_PATH = path.join(process.cwd(), 'rules.json');
+
+/**
+ * A rules file as written; `validateRules` checks its shape
+ */
+export function readRulesFile(filePath: string): unknown {
+  try {
+    return fs.readJsonSync(filePath);
+  } catch (error: any) {
+    throw new AppError({
+      type: ErrorType.CONFIGURATION_ERROR,
+      message: `Can't read rules file ${filePath}: ${error.message}`,
+      originalError: error,
+      retryable: false,
+      context: { file: filePath },
+    });
+  }
+}
+
+/**
+ * How a rule is named in warnings and reports
+ */
+export function ruleLabel(rule: ConditionalRule): string {
+  return rule.name ?? JSON.stringify(rule.when);
+}
+
+/**
+ * A `merchant_normalization` entry as a conditional rule on the payee
+ */
+function fromMerchantRule(rule: MerchantRule): ConditionalRule {
+  return { name: rule.match, when: { payee: rule.match }, payee: rule.payee, memo: rule.memo, category: rule.category };
+}
 
 export class RulesEngine {
   private rules: RulesConfig = { merchant_normalization: [] };
+  private ordered: ConditionalRule[] = [];
 
-  constructor() {
-    this.load();
+  constructor(rules?: RulesConfig) {
+    if (rules) {
+      this.setRules(rules);
+    } else {
+      this.load();
+    }
   }
 
   load() {
     if (fs.existsSync(RULES_PATH)) {
-      this.rules = fs.readJsonSync(RULES_PATH);
+      const rules = readRulesFile(RULES_PATH);
+      const errors = validateRules(rules).filter(issue => issue.severity === 'error');
+      if (errors.length === 0) {
+        this.setRules(rules as RulesConfig);
+        return;
+      }
+
+      // A rule with a bad regex would throw on every transaction; run the rest
+      const { config, dropped } = withoutInvalidRules(rules);
+      console.warn(`⚠️  rules.json has ${errors.length} error(s); run "bank-sync rules validate" to see them`);
+      if (dropped.length > 0) {
+        console.warn(`   Skipping ${dropped.join(', ')}`);
+      }
+      this.setRules(config as RulesConfig);
     } else {
       // Create default
-      this.rules = { merchant_normalization: [] };
+      this.setRules({ merchant_normalization: [] });
       fs.writeJsonSync(RULES_PATH, this.rules, { spaces: 2 });
     }
   }
 
+  /**
+   * Rules in the order they run
+   */
+  getRules(): ConditionalRule[] {
+    return this.ordered;
+  }
+
+  private setRules(rules: RulesConfig) {
+    this.rules = rules;
+    // Conditional rules come before merchant_normalization at equal priority;
+    // sort is stable, so file order decides the rest
+    this.ordered = [...(rules.rules || []), ...(rules.merchant_normalization || []).map(fromMerchantRule)]
+      .sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0));
+  }
+
   apply(transaction: Transaction): Transaction {
-    let t = { ...transaction };
+    return this.applyWithMatches(transaction).transaction;
+  }
+
+  /**
+   * Like `apply`, also returning the rules that matched
+   */
+  applyWithMatches(transaction: Transaction): { transaction: Transaction; matched: ConditionalRule[] } {
+    const t = { ...transaction };
+    const matched: ConditionalRule[] = [];
+
+    for (const rule of this.ordered) {
+      // Conditions see the transaction as earlier rules left it
+      if (!matchesConditions(t, rule.when)) continue;
+      matched.push(rule);
 
-    for (const rule of this.rules.merchant_normalization) {
-      const regex = new RegExp(rule.match, 'i');
-      if (regex.test(t.payee)) {
-        if (rule.payee) t.payee = rule.payee;
-        if (rule.memo) t.memo = (t.memo ? t.memo + ' ' : '') + rule.memo;
+      if (rule.payee) t.payee = rule.payee;
+      if (rule.memo) t.memo = (t.memo ? t.memo + ' ' : '') + rule.memo;
+      if (rule.category) t.category = rule.category;
+      if (rule.split) {
+        try {
+          t.splits = computeSplits(t.amount, rule.split);
+        } catch (error: any) {
+          console.warn(`Rule "${ruleLabel(rule)}" can't split ${t.payee} (${t.amount}): ${error.message}`);
+        }
       }
+
+      if (rule.flag) t.flag = rule.flag;
+      if (rule.unapproved) t.unapproved = true;
+      // skip is final; hold doesn't downgrade it
+      if (rule.skip) t.ynabHold = 'skip';
+      else if (rule.hold && t.ynabHold !== 'skip') t.ynabHold = 'hold';
+
+      if (rule.stop) break;
     }
 
-    return t;
+    return { transaction: t, matched };
   }
 }
 
 export const rulesEngine = new RulesEngine();
-
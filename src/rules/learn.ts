@@ -0,0 +1,125 @@
+import { Transaction } from '../types';
+import { MerchantRule, RulesEngine } from './engine';
+
+/**
+ * One imported transaction and what it became in YNAB
+ */
+export interface LearningSample {
+  transaction: Transaction; // As rules see it: after merchant normalization
+  payee: string; // Payee in YNAB
+  category?: string; // Category in YNAB (none for splits and uncategorized)
+}
+
+export interface RuleSuggestion {
+  rule: MerchantRule;
+  support: number; // Transactions the rule gets right
+  matches: number; // Transactions its pattern matches
+  confidence: number; // support / matches
+  examples: string[]; // Bank payees it was learned from
+}
+
+export const DEFAULT_MIN_SUPPORT = 2;
+export const DEFAULT_MIN_CONFIDENCE = 0.8;
+
+const sameName = (a: string | undefined, b: string | undefined) =>
+  (a ?? '').trim().toLowerCase() === (b ?? '').trim().toLowerCase();
+
+/**
+ * Leading words of a bank payee, up to the first one with digits (store
+ * numbers, references and dates vary between purchases at the same merchant)
+ */
+function leadingWords(payee: string): string[] {
+  const words = payee
+    .toUpperCase()
+    .normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+    .split(/[^A-Z0-9]+/)
+    .filter(Boolean);
+  const firstWithDigits = words.findIndex(word => /\d/.test(word));
+  return firstWithDigits >= 0 ? words.slice(0, firstWithDigits) : words;
+}
+
+function commonPrefix(lists: string[][]): string[] {
+  const [first, ...rest] = lists;
+  const prefix: string[] = [];
+  for (const [index, word] of first.entries()) {
+    if (!rest.every(list => list[index] === word)) break;
+    prefix.push(word);
+  }
+  return prefix;
+}
+
+function mostCommon(values: string[]): { value: string; count: number } | undefined {
+  const counts = new Map<string, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1));
+  return [...counts.entries()]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count)[0];
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): T[][] {
+  const groups = new Map<string, T[]>();
+  items.forEach(item => groups.set(key(item), [...(groups.get(key(item)) ?? []), item]));
+  return [...groups.values()];
+}
+
+/**
+ * Propose `merchant_normalization` rules from how imported payees were
+ * renamed and categorised in YNAB.
+ *
+ * Samples are grouped by their YNAB payee, then by the first word of the
+ * bank payee; each group's common leading words become the rule's regex.
+ * A rule is proposed when enough transactions back it (`minSupport`) and,
+ * of all transactions its regex matches, enough end up with its payee and
+ * category (`minConfidence`). Groups the current rules already handle are
+ * left out.
+ */
+export function suggestRules(
+  samples: LearningSample[],
+  current: RulesEngine,
+  options: { minSupport?: number; minConfidence?: number } = {}
+): RuleSuggestion[] {
+  const minSupport = options.minSupport ?? DEFAULT_MIN_SUPPORT;
+  const minConfidence = options.minConfidence ?? DEFAULT_MIN_CONFIDENCE;
+  const suggestions = new Map<string, RuleSuggestion>(); // By regex
+
+  const byPayee = groupBy(samples, sample => sample.payee.trim().toLowerCase());
+  const clusters = byPayee.flatMap(group => groupBy(group, sample => leadingWords(sample.transaction.payee)[0] ?? ''));
+
+  for (const cluster of clusters) {
+    const prefix = commonPrefix(cluster.map(sample => leadingWords(sample.transaction.payee)));
+    if (prefix.join('').length < 3) continue;
+
+    // Words are letters and digits only, so they need no escaping
+    const match = `^${prefix.join('\\W+')}`;
+    const regex = new RegExp(match, 'i');
+    if (!cluster.every(sample => regex.test(sample.transaction.payee))) continue;
+
+    const payee = mostCommon(cluster.map(sample => sample.payee))!.value;
+    const category = mostCommon(cluster.flatMap(sample => (sample.category ? [sample.category] : [])));
+    const rule: MerchantRule = { match };
+    if (cluster.some(sample => sample.transaction.payee !== payee)) rule.payee = payee;
+    if (category && category.count / cluster.length >= minConfidence) rule.category = category.value;
+    if (!rule.payee && !rule.category) continue;
+
+    const isRight = (result: { payee: string; category?: string }) =>
+      (!rule.payee || sameName(result.payee, payee)) && (!rule.category || sameName(result.category, rule.category));
+    if (cluster.every(sample => isRight(current.apply(sample.transaction)))) continue;
+
+    const matching = samples.filter(sample => regex.test(sample.transaction.payee));
+    const support = matching.filter(isRight).length;
+    const confidence = support / matching.length;
+    if (support < minSupport || confidence < minConfidence) continue;
+
+    const existing = suggestions.get(match);
+    if (existing && existing.support >= support) continue;
+    suggestions.set(match, {
+      rule,
+      support,
+      matches: matching.length,
+      confidence,
+      examples: [...new Set(cluster.map(sample => sample.transaction.payee))].slice(0, 3),
+    });
+  }
+
+  return [...suggestions.values()].sort((a, b) => b.support - a.support || a.rule.match.localeCompare(b.rule.match));
+}
@@ -0,0 +1,255 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { Transaction } from '../types';
+import { merchantTokens } from '../utils/merchants';
+import { AppError, ErrorType } from '../utils/errors';
+
+/**
+ * A merchant as it should appear in YNAB, with the ways banks write it
+ */
+export interface DictionaryMerchant {
+  name: string; // Canonical payee name
+  aliases?: string[]; // Bank spellings (the name itself is always tried)
+  category?: string; // YNAB category when no rule sets one
+}
+
+/**
+ * Noise to strip from bank payees, as case-insensitive regexes. `prefixes`
+ * are removed from the start (payment processors), `suffixes` from the end
+ * (cities, countries, terminal ids), repeatedly. Leaving a list out keeps
+ * the built-in one; `[]` turns it off.
+ */
+export interface MerchantCleanup {
+  prefixes?: string[];
+  suffixes?: string[];
+}
+
+export interface MerchantsConfig {
+  cleanup?: MerchantCleanup;
+  merchants?: DictionaryMerchant[];
+  match_score?: number; // Score (0 to 1) at which a dictionary merchant is used
+  review_score?: number; // Scores from here up to match_score are listed for review
+}
+
+export interface MerchantMatch {
+  raw: string;
+  cleaned: string;
+  merchant?: DictionaryMerchant; // Best dictionary candidate, if any scored
+  score: number; // 0 when there is no candidate
+}
+
+export const MERCHANTS_PATH = path.join(process.cwd(), 'merchants.json');
+
+export const DEFAULT_MATCH_SCORE = 0.85;
+export const DEFAULT_REVIEW_SCORE = 0.6;
+
+export const DEFAULT_PREFIXES = [
+  '(PAYPAL|PP)\\s*\\*',
+  'SQ\\s*\\*',
+  'SP\\s*\\*',
+  'TST\\s*\\*',
+  'DLO\\s*\\*',
+  '(MERPAGO|MERCADOPAGO)\\s*\\*',
+];
+
+export const DEFAULT_SUFFIXES = [
+  // Caribe glues the country to the city: "SANTO DOMINGODO"
+  '(SANTO\\s+DOMINGO|STO\\.?\\s*DGO|SANTIAGO|PUNTA\\s+CANA|DISTRITO\\s+NACIONAL)(DO|DOM)?',
+  '(REP(UBLICA)?\\.?\\s+)?DOM(INICANA)?',
+  'DO|RD',
+  '#?\\d[\\w-]*', // Terminal and store numbers
+];
+
+const compact = (tokens: string[]) => tokens.join('');
+
+function editDistanceAtMostOne(a: string, b: string): boolean {
+  if (Math.abs(a.length - b.length) > 1) return false;
+  let i = 0;
+  let j = 0;
+  let edits = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      i++;
+      j++;
+      continue;
+    }
+    if (++edits > 1) return false;
+    if (a.length > b.length) i++;
+    else if (b.length > a.length) j++;
+    else {
+      i++;
+      j++;
+    }
+  }
+  return edits + (a.length - i) + (b.length - j) <= 1;
+}
+
+/**
+ * How well one alias token is found among the payee's tokens: exact, cut
+ * short by the bank (a prefix of 3+ letters) or one typo away
+ */
+function tokenScore(aliasToken: string, payeeTokens: string[]): number {
+  let best = 0;
+  for (const token of payeeTokens) {
+    if (token === aliasToken) return 1;
+    if (Math.min(token.length, aliasToken.length) >= 3 && (token.startsWith(aliasToken) || aliasToken.startsWith(token))) {
+      best = Math.max(best, 0.9);
+    } else if (aliasToken.length >= 5 && editDistanceAtMostOne(token, aliasToken)) {
+      best = Math.max(best, 0.8);
+    }
+  }
+  return best;
+}
+
+/**
+ * Similarity (0 to 1) of a cleaned payee to a dictionary alias: the share of
+ * the alias found in the payee, token by token. Extra payee words (branches,
+ * leftovers) don't count against it. An alias written without its spaces
+ * ("PEDIDOSYA" for "PEDIDOS YA") also matches.
+ */
+export function aliasScore(payee: string, alias: string): number {
+  const payeeTokens = merchantTokens(payee);
+  const aliasTokens = merchantTokens(alias);
+  if (payeeTokens.length === 0 || aliasTokens.length === 0) return 0;
+
+  const byToken = aliasTokens.reduce((sum, token) => sum + tokenScore(token, payeeTokens), 0) / aliasTokens.length;
+  return Math.max(byToken, containsJoined(payeeTokens, compact(aliasTokens)) ? 0.95 : 0);
+}
+
+/**
+ * Whether consecutive payee tokens spell the alias, spaces aside
+ */
+function containsJoined(payeeTokens: string[], alias: string): boolean {
+  for (let start = 0; start < payeeTokens.length; start++) {
+    let joined = '';
+    for (const token of payeeTokens.slice(start)) {
+      joined += token;
+      if (joined === alias) return true;
+      if (joined.length >= alias.length) break;
+    }
+  }
+  return false;
+}
+
+function readMerchantsFile(file: string): MerchantsConfig {
+  try {
+    return fs.readJsonSync(file);
+  } catch (error: any) {
+    throw new AppError({
+      type: ErrorType.CONFIGURATION_ERROR,
+      message: `Can't read merchants file ${file}: ${error.message}`,
+      originalError: error,
+      retryable: false,
+      context: { file },
+    });
+  }
+}
+
+function compilePatterns(patterns: string[], anchor: (pattern: string) => string, file: string): RegExp[] {
+  return patterns.map(pattern => {
+    try {
+      return new RegExp(anchor(pattern), 'i');
+    } catch (error: any) {
+      throw new AppError({
+        type: ErrorType.CONFIGURATION_ERROR,
+        message: `Invalid cleanup pattern "${pattern}" in ${file}: ${error.message}`,
+        originalError: error,
+        retryable: false,
+        context: { file, pattern },
+      });
+    }
+  });
+}
+
+/**
+ * The stage before rules: cleans bank payees and maps them to dictionary
+ * merchants (merchants.json). Works without the file, with the built-in
+ * cleanup and an empty dictionary.
+ */
+export class MerchantNormalizer {
+  private prefixes: RegExp[];
+  private suffixes: RegExp[];
+  private merchants: DictionaryMerchant[];
+  readonly matchScore: number;
+  readonly reviewScore: number;
+
+  constructor(config?: MerchantsConfig, file = MERCHANTS_PATH) {
+    if (!config) {
+      config = fs.existsSync(file) ? readMerchantsFile(file) : {};
+    }
+    this.prefixes = compilePatterns(config.cleanup?.prefixes ?? DEFAULT_PREFIXES, pattern => `^\\s*(${pattern})\\s*`, file);
+    this.suffixes = compilePatterns(config.cleanup?.suffixes ?? DEFAULT_SUFFIXES, pattern => `[\\s,*-]+(${pattern})\\s*$`, file);
+    this.merchants = config.merchants ?? [];
+    this.matchScore = config.match_score ?? DEFAULT_MATCH_SCORE;
+    this.reviewScore = config.review_score ?? DEFAULT_REVIEW_SCORE;
+  }
+
+  /**
+   * Strip processor prefixes and location/terminal suffixes. A payee that
+   * would be left empty is kept as is.
+   */
+  clean(payee: string): string {
+    let cleaned = payee.trim().replace(/\s+/g, ' ');
+    for (const prefix of this.prefixes) {
+      cleaned = cleaned.replace(prefix, '');
+    }
+
+    let previous: string;
+    do {
+      previous = cleaned;
+      for (const suffix of this.suffixes) {
+        cleaned = cleaned.replace(suffix, '');
+      }
+    } while (cleaned !== previous && cleaned !== '');
+
+    cleaned = cleaned.trim();
+    return cleaned || payee.trim();
+  }
+
+  /**
+   * The dictionary merchant closest to a bank payee. Ties go to the merchant
+   * with the longer alias (more specific: "Uber Eats" over "Uber").
+   */
+  match(payee: string): MerchantMatch {
+    const cleaned = this.clean(payee);
+    let best: MerchantMatch = { raw: payee, cleaned, score: 0 };
+    let bestLength = 0;
+
+    for (const merchant of this.merchants) {
+      for (const alias of [merchant.name, ...(merchant.aliases || [])]) {
+        const score = aliasScore(cleaned, alias);
+        const length = merchantTokens(alias).length;
+        if (score > best.score || (score > 0 && score === best.score && length > bestLength)) {
+          best = { raw: payee, cleaned, merchant, score };
+          bestLength = length;
+        }
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Keep the bank's payee in `rawPayee` and set `payee` to the dictionary
+   * name (confident matches) or the cleaned payee. Running it again on its
+   * own output gives the same result.
+   */
+  apply(transaction: Transaction): Transaction {
+    const rawPayee = transaction.rawPayee ?? transaction.payee;
+    const { cleaned, merchant, score } = this.match(rawPayee);
+
+    if (merchant && score >= this.matchScore) {
+      return { ...transaction, rawPayee, payee: merchant.name, category: transaction.category ?? merchant.category };
+    }
+    return { ...transaction, rawPayee, payee: cleaned };
+  }
+
+  /**
+   * Whether a match is too weak to use but close enough to show for review
+   */
+  needsReview(match: MerchantMatch): boolean {
+    return !!match.merchant && match.score >= this.reviewScore && match.score < this.matchScore;
+  }
+}
+
+export const merchantNormalizer = new MerchantNormalizer();
@@ -0,0 +1,75 @@
+import { TransactionSplit } from '../types';
+
+/**
+ * One part of a rule's split. A part has a `percent` of the total, a fixed
+ * `amount` (in the transaction's currency) or neither, in which case it takes
+ * whatever the other parts leave (only one part may do that).
+ */
+export interface SplitPart {
+  percent?: number;
+  amount?: number;
+  category?: string; // YNAB category name
+  memo?: string;
+}
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+/**
+ * Turn a rule's split parts into amounts for one transaction. Amounts are
+ * rounded to cents and always add up to the total: the remainder part absorbs
+ * the difference, or (without one) the largest percentage part absorbs the
+ * rounding. Throws when the parts can't add up to the total.
+ */
+export function computeSplits(total: number, parts: SplitPart[]): TransactionSplit[] {
+  if (parts.length < 2) {
+    throw new Error('A split needs at least two parts');
+  }
+
+  const remainderParts = parts.filter(part => part.percent === undefined && part.amount === undefined);
+  if (remainderParts.length > 1) {
+    throw new Error('Only one split part may leave out both "percent" and "amount"');
+  }
+  for (const part of parts) {
+    if (part.percent !== undefined && part.amount !== undefined) {
+      throw new Error('A split part takes "percent" or "amount", not both');
+    }
+    if ((part.percent ?? 0) < 0 || (part.amount ?? 0) < 0) {
+      throw new Error('Split parts can\'t be negative');
+    }
+  }
+
+  const totalCents = toCents(total);
+  const cents = parts.map(part => {
+    if (part.amount !== undefined) return toCents(part.amount);
+    if (part.percent !== undefined) return Math.round((totalCents * part.percent) / 100);
+    return 0;
+  });
+
+  const difference = totalCents - sumOf(cents);
+  const remainderIndex = parts.findIndex(part => remainderParts.includes(part));
+
+  if (remainderIndex >= 0) {
+    if (difference < 0) {
+      throw new Error(`Split parts add up to more than the transaction amount (${total})`);
+    }
+    cents[remainderIndex] = difference;
+  } else if (difference !== 0) {
+    // Rounding leaves at most half a cent per percentage part
+    const percentIndexes = parts.map((part, index) => (part.percent !== undefined ? index : -1)).filter(index => index >= 0);
+    if (percentIndexes.length === 0 || Math.abs(difference) > percentIndexes.length) {
+      throw new Error(`Split parts add up to ${sumOf(cents) / 100}, not the transaction amount (${total})`);
+    }
+    const largest = percentIndexes.reduce((best, index) => (parts[index].percent! > parts[best].percent! ? index : best));
+    cents[largest] += difference;
+  }
+
+  return parts.map((part, index) => ({
+    amount: cents[index] / 100,
+    ...(part.category && { category: part.category }),
+    ...(part.memo && { memo: part.memo }),
+  }));
+}
+
+function sumOf(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0);
+}
@@ -0,0 +1,377 @@
+import { isValid, parse } from 'date-fns';
+import { toWeekday } from './conditions';
+import { FLAG_COLORS } from '../types';
+
+export interface RuleIssue {
+  severity: 'error' | 'warning';
+  rule?: string; // e.g. `rules[2] "Groceries"`; missing for file-level issues
+  message: string;
+}
+
+const CONDITION_KEYS = ['payee', 'memo', 'bank', 'account', 'direction', 'currency', 'amount', 'weekday', 'date', 'all', 'any'];
+const CONDITIONAL_RULE_KEYS = ['name', 'priority', 'when', 'payee', 'memo', 'category', 'split', 'flag', 'unapproved', 'hold', 'skip', 'stop'];
+const MERCHANT_RULE_KEYS = ['match', 'payee', 'memo', 'category'];
+const SPLIT_PART_KEYS = ['percent', 'amount', 'category', 'memo'];
+const ACTION_KEYS = ['payee', 'memo', 'category', 'split', 'flag', 'unapproved', 'hold', 'skip'];
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringOrList = (value: unknown) =>
+  typeof value === 'string' || (Array.isArray(value) && value.every(item => typeof item === 'string'));
+
+/**
+ * Key-order independent JSON, to compare conditions and actions
+ */
+function canonical(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonical).join(',')}]`;
+  if (isObject(value)) {
+    return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${canonical(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * A rule as the engine runs it, with where it came from in the file
+ */
+interface LocatedRule {
+  label: string;
+  index: number; // Position in the file, conditional rules first
+  priority: number;
+  when: Record<string, any>;
+  actions: Record<string, any>;
+  stop: boolean;
+}
+
+/**
+ * Check a parsed rules file: its shape, that regexes compile, and rules that
+ * repeat or can never apply. Errors make the engine fail or misbehave;
+ * warnings are likely mistakes.
+ */
+export function validateRules(config: unknown): RuleIssue[] {
+  const issues: RuleIssue[] = [];
+  if (!isObject(config)) {
+    return [{ severity: 'error', message: 'The rules file must contain a JSON object' }];
+  }
+
+  for (const key of Object.keys(config)) {
+    if (key !== 'rules' && key !== 'merchant_normalization') {
+      issues.push({ severity: 'warning', message: `Unknown top-level key "${key}"` });
+    }
+  }
+
+  const located: LocatedRule[] = [];
+
+  const rules = config.rules ?? [];
+  if (!Array.isArray(rules)) {
+    issues.push({ severity: 'error', message: '"rules" must be a list' });
+  } else {
+    rules.forEach((rule, index) => {
+      const label = conditionalRuleLabel(rule, index);
+      const ruleIssues = checkConditionalRule(rule);
+      issues.push(...ruleIssues.map(issue => ({ ...issue, rule: label })));
+      if (isObject(rule) && isObject(rule.when) && !ruleIssues.some(issue => issue.severity === 'error')) {
+        located.push({
+          label,
+          index: located.length,
+          priority: typeof rule.priority === 'number' ? rule.priority : 0,
+          when: rule.when,
+          actions: pick(rule, ACTION_KEYS),
+          stop: rule.stop === true,
+        });
+      }
+    });
+  }
+
+  const merchantRules = config.merchant_normalization ?? [];
+  if (!Array.isArray(merchantRules)) {
+    issues.push({ severity: 'error', message: '"merchant_normalization" must be a list' });
+  } else {
+    merchantRules.forEach((rule, index) => {
+      const label = merchantRuleLabel(rule, index);
+      const ruleIssues = checkMerchantRule(rule);
+      issues.push(...ruleIssues.map(issue => ({ ...issue, rule: label })));
+      if (isObject(rule) && !ruleIssues.some(issue => issue.severity === 'error')) {
+        located.push({
+          label,
+          index: located.length,
+          priority: 0,
+          when: { payee: rule.match },
+          actions: pick(rule, ACTION_KEYS),
+          stop: false,
+        });
+      }
+    });
+  }
+
+  issues.push(...findOverlaps(located));
+  return issues;
+}
+
+/**
+ * The rules file with the rules that have errors left out, so the engine can
+ * run the rest instead of failing on every transaction
+ */
+export function withoutInvalidRules(config: unknown): {
+  config: { rules: Record<string, any>[]; merchant_normalization: Record<string, any>[] };
+  dropped: string[];
+} {
+  const dropped: string[] = [];
+  const keep = (list: unknown, check: (rule: unknown) => Omit<RuleIssue, 'rule'>[], label: (rule: unknown, index: number) => string) => {
+    if (!Array.isArray(list)) return [];
+    return list.filter((rule, index) => {
+      if (!check(rule).some(issue => issue.severity === 'error')) return true;
+      dropped.push(label(rule, index));
+      return false;
+    });
+  };
+
+  const file = isObject(config) ? config : {};
+  return {
+    config: {
+      rules: keep(file.rules, checkConditionalRule, conditionalRuleLabel),
+      merchant_normalization: keep(file.merchant_normalization, checkMerchantRule, merchantRuleLabel),
+    },
+    dropped,
+  };
+}
+
+function conditionalRuleLabel(rule: unknown, index: number): string {
+  return `rules[${index}]${isObject(rule) && typeof rule.name === 'string' ? ` "${rule.name}"` : ''}`;
+}
+
+function merchantRuleLabel(rule: unknown, index: number): string {
+  return `merchant_normalization[${index}]${isObject(rule) && typeof rule.match === 'string' ? ` "${rule.match}"` : ''}`;
+}
+
+function pick(rule: Record<string, any>, keys: string[]): Record<string, any> {
+  return Object.fromEntries(keys.filter(key => rule[key] !== undefined).map(key => [key, rule[key]]));
+}
+
+function checkConditionalRule(rule: unknown): Omit<RuleIssue, 'rule'>[] {
+  if (!isObject(rule)) return [{ severity: 'error', message: 'A rule must be an object' }];
+  const issues: Omit<RuleIssue, 'rule'>[] = [];
+
+  issues.push(...unknownKeys(rule, CONDITIONAL_RULE_KEYS, 'rule'));
+  if (rule.name !== undefined && typeof rule.name !== 'string') {
+    issues.push({ severity: 'error', message: '"name" must be a string' });
+  }
+  if (rule.priority !== undefined && (typeof rule.priority !== 'number' || !Number.isFinite(rule.priority))) {
+    issues.push({ severity: 'error', message: '"priority" must be a number' });
+  }
+  for (const key of ['stop', 'unapproved', 'hold', 'skip']) {
+    if (rule[key] !== undefined && typeof rule[key] !== 'boolean') {
+      issues.push({ severity: 'error', message: `"${key}" must be true or false` });
+    }
+  }
+  if (rule.flag !== undefined && !(FLAG_COLORS as readonly unknown[]).includes(rule.flag)) {
+    issues.push({ severity: 'error', message: `"flag" must be one of ${FLAG_COLORS.join(', ')}` });
+  }
+  if (rule.hold === true && rule.skip === true) {
+    issues.push({ severity: 'error', message: 'A rule can "hold" or "skip", not both' });
+  }
+
+  if (rule.when === undefined) {
+    issues.push({ severity: 'error', message: 'Missing "when" (use {} to match every transaction)' });
+  } else {
+    issues.push(...checkConditions(rule.when, 'when'));
+  }
+
+  issues.push(...checkActions(rule));
+  if (rule.split !== undefined) issues.push(...checkSplit(rule.split));
+  if (ACTION_KEYS.every(key => rule[key] === undefined) && rule.stop !== true) {
+    issues.push({ severity: 'warning', message: 'The rule does nothing (no action and no stop)' });
+  }
+
+  return issues;
+}
+
+function checkMerchantRule(rule: unknown): Omit<RuleIssue, 'rule'>[] {
+  if (!isObject(rule)) return [{ severity: 'error', message: 'A rule must be an object' }];
+  const issues: Omit<RuleIssue, 'rule'>[] = [];
+
+  issues.push(...unknownKeys(rule, MERCHANT_RULE_KEYS, 'merchant_normalization entry'));
+  if (typeof rule.match !== 'string') {
+    issues.push({ severity: 'error', message: '"match" must be a string (a regex on the payee)' });
+  } else {
+    issues.push(...checkRegex(rule.match, 'match'));
+  }
+
+  issues.push(...checkActions(rule));
+  if (ACTION_KEYS.every(key => rule[key] === undefined)) {
+    issues.push({ severity: 'warning', message: 'The rule changes nothing (no payee, memo or category)' });
+  }
+
+  return issues;
+}
+
+function checkActions(rule: Record<string, any>): Omit<RuleIssue, 'rule'>[] {
+  return ['payee', 'memo', 'category']
+    .filter(key => rule[key] !== undefined && (typeof rule[key] !== 'string' || rule[key].trim() === ''))
+    .map(key => ({ severity: 'error' as const, message: `"${key}" must be a non-empty string` }));
+}
+
+function unknownKeys(value: Record<string, any>, known: string[], what: string): Omit<RuleIssue, 'rule'>[] {
+  return Object.keys(value)
+    .filter(key => !known.includes(key))
+    .map(key => ({ severity: 'warning' as const, message: `Unknown ${what} key "${key}" is ignored` }));
+}
+
+function checkRegex(pattern: string, where: string): Omit<RuleIssue, 'rule'>[] {
+  try {
+    new RegExp(pattern, 'i');
+    return [];
+  } catch (error: any) {
+    return [{ severity: 'error', message: `${where}: ${error.message}` }];
+  }
+}
+
+function checkConditions(conditions: unknown, where: string): Omit<RuleIssue, 'rule'>[] {
+  if (!isObject(conditions)) return [{ severity: 'error', message: `${where} must be an object` }];
+  const issues: Omit<RuleIssue, 'rule'>[] = [];
+  const error = (message: string) => issues.push({ severity: 'error', message: `${where}.${message}` });
+
+  issues.push(...unknownKeys(conditions, CONDITION_KEYS, `condition (in ${where})`));
+
+  for (const key of ['payee', 'memo']) {
+    if (conditions[key] === undefined) continue;
+    if (typeof conditions[key] !== 'string') {
+      error(`${key} must be a string (a regex)`);
+    } else {
+      issues.push(...checkRegex(conditions[key], `${where}.${key}`));
+    }
+  }
+
+  for (const key of ['bank', 'account', 'currency']) {
+    if (conditions[key] !== undefined && !isStringOrList(conditions[key])) {
+      error(`${key} must be a string or a list of strings`);
+    }
+  }
+
+  if (conditions.direction !== undefined && conditions.direction !== 'inflow' && conditions.direction !== 'outflow') {
+    error('direction must be "inflow" or "outflow"');
+  }
+
+  const { amount, weekday, date } = conditions;
+  if (amount !== undefined) {
+    if (!isObject(amount) || [amount.min, amount.max].some(bound => bound !== undefined && typeof bound !== 'number')) {
+      error('amount must be { "min"?: number, "max"?: number }');
+    } else if (amount.min !== undefined && amount.max !== undefined && amount.min > amount.max) {
+      error(`amount: min (${amount.min}) is above max (${amount.max}); nothing can match`);
+    }
+  }
+
+  if (weekday !== undefined) {
+    if (!isStringOrList(weekday)) {
+      error('weekday must be a string or a list of strings');
+    } else {
+      const unknown = (Array.isArray(weekday) ? weekday : [weekday]).filter(day => !toWeekday(day));
+      if (unknown.length > 0) error(`weekday: unknown day ${unknown.map(day => `"${day}"`).join(', ')}`);
+    }
+  }
+
+  if (date !== undefined) {
+    if (!isObject(date)) {
+      error('date must be { "from"?: "YYYY-MM-DD", "to"?: "YYYY-MM-DD" }');
+    } else {
+      for (const bound of ['from', 'to']) {
+        const value = date[bound];
+        if (value !== undefined && (typeof value !== 'string' || !isValid(parse(value, 'yyyy-MM-dd', new Date())))) {
+          error(`date.${bound} must be a YYYY-MM-DD date`);
+        }
+      }
+    }
+  }
+
+  for (const key of ['all', 'any']) {
+    if (conditions[key] === undefined) continue;
+    if (!Array.isArray(conditions[key])) {
+      error(`${key} must be a list of conditions`);
+    } else {
+      conditions[key].forEach((nested: unknown, index: number) => {
+        issues.push(...checkConditions(nested, `${where}.${key}[${index}]`));
+      });
+    }
+  }
+
+  return issues;
+}
+
+function checkSplit(split: unknown): Omit<RuleIssue, 'rule'>[] {
+  if (!Array.isArray(split)) return [{ severity: 'error', message: '"split" must be a list of parts' }];
+  const issues: Omit<RuleIssue, 'rule'>[] = [];
+  const error = (message: string) => issues.push({ severity: 'error', message: `split: ${message}` });
+
+  if (split.length < 2) error('a split needs at least two parts');
+
+  split.forEach((part, index) => {
+    if (!isObject(part)) {
+      error(`part ${index + 1} must be an object`);
+      return;
+    }
+    issues.push(...unknownKeys(part, SPLIT_PART_KEYS, 'split part'));
+    for (const key of ['percent', 'amount']) {
+      if (part[key] !== undefined && (typeof part[key] !== 'number' || part[key] < 0)) {
+        error(`part ${index + 1}: "${key}" must be a number, 0 or more`);
+      }
+    }
+    if (part.percent !== undefined && part.amount !== undefined) {
+      error(`part ${index + 1} takes "percent" or "amount", not both`);
+    }
+  });
+
+  const parts = split.filter(isObject);
+  const remainderParts = parts.filter(part => part.percent === undefined && part.amount === undefined);
+  if (remainderParts.length > 1) {
+    error('only one part may leave out both "percent" and "amount"');
+  }
+
+  const percent = parts.reduce((sum, part) => sum + (typeof part.percent === 'number' ? part.percent : 0), 0);
+  if (percent > 100) {
+    error(`percentages add up to ${percent}`);
+  } else if (remainderParts.length === 0 && parts.every(part => part.percent !== undefined) && Math.abs(percent - 100) > 1e-9) {
+    error(`percentages add up to ${percent}, not 100, and no part takes the remainder`);
+  }
+
+  return issues;
+}
+
+/**
+ * True when every transaction matching `inner` also matches `outer`, as far
+ * as can be told without running them: each condition of `outer` appears
+ * unchanged in `inner`
+ */
+function covers(outer: Record<string, any>, inner: Record<string, any>): boolean {
+  return Object.keys(outer).every(key => key in inner && canonical(outer[key]) === canonical(inner[key]));
+}
+
+/**
+ * Rules that repeat an earlier one, or that an earlier `stop` rule always
+ * catches first
+ */
+function findOverlaps(rules: LocatedRule[]): RuleIssue[] {
+  const ordered = [...rules].sort((a, b) => b.priority - a.priority || a.index - b.index);
+  const issues: RuleIssue[] = [];
+
+  ordered.forEach((rule, position) => {
+    const earlier = ordered.slice(0, position);
+    const duplicate = earlier.find(other =>
+      canonical(other.when) === canonical(rule.when) && canonical(other.actions) === canonical(rule.actions)
+    );
+    if (duplicate) {
+      issues.push({ severity: 'warning', rule: rule.label, message: `Duplicate of ${duplicate.label}` });
+      return;
+    }
+
+    const stopper = earlier.find(other => other.stop && covers(other.when, rule.when));
+    if (stopper) {
+      issues.push({
+        severity: 'warning',
+        rule: rule.label,
+        message: `Never applies: ${stopper.label} matches the same transactions first and stops`,
+      });
+    }
+  });
+
+  return issues;
+}
@@ -0,0 +1,61 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { parseCsvRows, readStatementFile, statementLineToTransaction } from '../files';
+
+const STATEMENTS_DIR = path.join(process.cwd(), 'fixtures', 'statements');
+
+describe('statement files', () => {
+  it('splits quoted CSV cells with either delimiter', () => {
+    expect(parseCsvRows('a,"b, c","say ""hi"""\r\n1,2,3\n')).toEqual([['a', 'b, c', 'say "hi"'], ['1', '2', '3']]);
+    expect(parseCsvRows('a;b\n"1,5";2')).toEqual([['a', 'b'], ['1,5', '2']]);
+  });
+
+  it('reads CSV exports with debit and credit columns', () => {
+    const statement = readStatementFile(path.join(STATEMENTS_DIR, 'bhd-0014-export.csv'), { bank: 'BHD', account: '0014' });
+
+    expect(statement).toMatchObject({ bank: 'BHD', account: '0014', periodStart: '2025-12-02', periodEnd: '2025-12-05', currency: 'DOP', closingBalance: 113350 });
+    expect(statement.lines).toEqual([
+      { date: '2025-12-02', description: 'TRANSFERENCIA A TERCEROS; JUAN PEREZ', amount: 1500, direction: 'outflow', currency: 'DOP', reference: 'row-2', balance: 48500 },
+      { date: '2025-12-05', description: 'DEPOSITO NOMINA', amount: 65000, direction: 'inflow', currency: 'DOP', reference: 'row-3', balance: 113500 },
+      { date: '2025-12-05', description: 'CARGO POR SERVICIO', amount: 150, direction: 'outflow', currency: 'DOP', reference: 'row-4', balance: 113350 },
+    ]);
+  });
+
+  it('takes the closing balance from the last movement of a newest-first export', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'statement-file-'));
+    const tmp = path.join(dir, 'newest-first.csv');
+    fs.writeFileSync(tmp, 'Fecha,Descripción,Monto,Saldo\n05/12/2025,DEPOSITO NOMINA,"65,000.00","113,500.00"\n02/12/2025,TRANSFERENCIA,"-1,500.00","48,500.00"\n');
+    try {
+      expect(readStatementFile(tmp, { bank: 'BHD', account: '0014' }).closingBalance).toBe(113500);
+    } finally {
+      fs.removeSync(dir);
+    }
+  });
+
+  it('reads OFX files and resolves the account they name', () => {
+    const statement = readStatementFile(
+      path.join(STATEMENTS_DIR, 'bhd-0014-export.ofx'),
+      { bank: 'BHD' },
+      identifier => (identifier?.endsWith('0014') ? '0014' : identifier)
+    );
+
+    expect(statement.account).toBe('0014');
+    expect(statement.closingBalance).toBe(113350);
+    expect(statement.lines).toEqual([
+      { date: '2025-12-02', description: 'TRANSFERENCIA A TERCEROS JUAN PEREZ', amount: 1500, direction: 'outflow', currency: 'DOP', reference: '202512020001' },
+      { date: '2025-12-05', description: 'DEPOSITO NOMINA', amount: 65000, direction: 'inflow', currency: 'DOP', reference: '202512050001' },
+    ]);
+  });
+
+  it('gives identical rows their own source so both are kept', () => {
+    const statement = readStatementFile(path.join(STATEMENTS_DIR, 'bhd-0014-export.csv'), { bank: 'BHD', account: '0014' });
+    const [first] = statement.lines;
+    const a = statementLineToTransaction(first, statement, 'export.csv');
+    const b = statementLineToTransaction({ ...first, reference: 'row-9' }, statement, 'export.csv');
+
+    expect(a.id).toBe(b.id);
+    expect(a.rawMessageId).toBe('import:export.csv:row-2');
+    expect(b.rawMessageId).toBe('import:export.csv:row-9');
+  });
+});
@@ -0,0 +1,107 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { AccountOwnership } from '../../config/ownership';
+import { StatementParserRegistry } from '../registry';
+import { reconcileStatement } from '../reconcile';
+import { Statement, Transaction } from '../../types';
+import { transaction } from '../../__tests__/transactions';
+
+const STATEMENTS_DIR = path.join(process.cwd(), 'fixtures', 'statements');
+const ACCOUNTS = path.join(process.cwd(), 'fixtures', 'parsers', 'accounts.fixture.json');
+
+const registry = new StatementParserRegistry(AccountOwnership.fromConfig(fs.readJsonSync(ACCOUNTS)), 'America/Santo_Domingo');
+
+function parseFixture(parser: string, file: string): Statement {
+  const statement = registry.findByName(parser)!.parse(fs.readFileSync(path.join(STATEMENTS_DIR, file), 'utf-8'));
+  expect(statement).not.toBeNull();
+  return statement!;
+}
+
+// A notification named after its payee
+function notified(payee: string, overrides: Partial<Transaction> = {}): Transaction {
+  return transaction(payee, { date: '2025-12-03', amount: 1000, status: 'posted', ...overrides });
+}
+
+describe('statement parsers', () => {
+  it('reads BHD statements with a section per currency', () => {
+    const statement = parseFixture('BHD', 'bhd-1610-2025-12.txt');
+
+    expect(statement).toMatchObject({ bank: 'BHD', account: '1610', periodStart: '2025-12-01', periodEnd: '2025-12-31', currency: 'DOP' });
+    expect(statement.lines).toEqual([
+      { date: '2025-12-03', postingDate: '2025-12-04', description: 'MCDONALDS NUNEZ DE C', amount: 1000, direction: 'outflow', currency: 'DOP' },
+      { date: '2025-12-12', postingDate: '2025-12-13', description: 'SUPERMERCADOS NACIONAL', amount: 3457.2, direction: 'outflow', currency: 'DOP' },
+      { date: '2025-12-20', postingDate: '2025-12-20', description: 'PAGO RECIBIDO', amount: 5000, direction: 'inflow', currency: 'DOP' },
+      { date: '2025-12-10', postingDate: '2025-12-11', description: 'NETFLIX.COM', amount: 15.99, direction: 'outflow', currency: 'USD' },
+    ]);
+  });
+
+  it('reads QIK and Caribe statements with credits as negative amounts', () => {
+    const qik = parseFixture('QIK', 'qik-5550-2025-12.txt');
+    expect(qik).toMatchObject({ account: '5550', periodStart: '2025-12-01', periodEnd: '2025-12-31', closingBalance: 1250 });
+    expect(qik.lines.map(line => [line.date, line.amount, line.direction])).toEqual([
+      ['2025-12-05', 350, 'outflow'],
+      ['2025-12-30', 100, 'outflow'],
+      ['2025-12-15', 2000, 'inflow'],
+    ]);
+
+    const caribe = parseFixture('CARIBE', 'caribe-1469-2025-12.txt');
+    expect(caribe).toMatchObject({ account: '1469', periodStart: '2025-12-01', periodEnd: '2025-12-31' });
+    expect(caribe.closingBalance).toBeUndefined();
+    expect(caribe.lines.map(line => [line.date, line.amount, line.direction])).toEqual([
+      ['2025-12-05', 2350.75, 'outflow'],
+      ['2025-12-18', 4000, 'inflow'],
+    ]);
+  });
+});
+
+describe('reconcileStatement', () => {
+  const statement = parseFixture('BHD', 'bhd-1610-2025-12.txt');
+
+  it('flags lines without a notification and notifications missing from the statement', () => {
+    const result = reconcileStatement(statement, [
+      notified('MCDONALDS NUNEZ DE C', { date: '2025-12-02' }), // Notified the day before
+      notified('NETFLIX', { date: '2025-12-10', amount: 15.99, currency: 'USD' }),
+      notified('PAGO TARJETA', { date: '2025-12-20', amount: 5000, direction: 'inflow' }),
+      notified('FARMACIA CAROL', { date: '2025-12-28', amount: 640 }),
+      notified('NEXT MONTH', { date: '2026-01-02', amount: 75 }), // Outside the period
+    ]);
+
+    expect(result.matched.map(match => [match.line.description, match.transaction.payee])).toEqual([
+      ['MCDONALDS NUNEZ DE C', 'MCDONALDS NUNEZ DE C'],
+      ['PAGO RECIBIDO', 'PAGO TARJETA'],
+      ['NETFLIX.COM', 'NETFLIX'],
+    ]);
+    expect(result.missingFromNotifications.map(line => line.description)).toEqual(['SUPERMERCADOS NACIONAL']);
+    expect(result.missingFromStatement.map(tx => tx.payee)).toEqual(['FARMACIA CAROL']);
+  });
+
+  it('uses each transaction once and prefers the closest date, then the merchant', () => {
+    const twoLines: Statement = {
+      ...statement,
+      lines: [
+        { date: '2025-12-05', description: 'UBER TRIP', amount: 250, direction: 'outflow', currency: 'DOP' },
+        { date: '2025-12-05', description: 'CAFE SANTO DOMINGO', amount: 250, direction: 'outflow', currency: 'DOP' },
+      ],
+    };
+
+    const result = reconcileStatement(twoLines, [
+      notified('CAFE SANTO DOMINGO', { date: '2025-12-05', amount: 250 }),
+      notified('UBER', { date: '2025-12-05', amount: 250 }),
+      notified('UBER', { date: '2025-12-06', amount: 250, id: 'late' }),
+    ]);
+
+    expect(result.matched.map(match => [match.line.description, match.transaction.payee, match.transaction.date])).toEqual([
+      ['UBER TRIP', 'UBER', '2025-12-05'],
+      ['CAFE SANTO DOMINGO', 'CAFE SANTO DOMINGO', '2025-12-05'],
+    ]);
+    expect(result.missingFromStatement.map(tx => tx.id)).toEqual(['late']);
+  });
+
+  it('compares foreign purchases at their posted amount', () => {
+    const result = reconcileStatement(statement, [
+      notified('MCDONALDS', { amount: 17.5, currency: 'USD', postedAmount: 1000, postedCurrency: 'DOP' }),
+    ]);
+
+    expect(result.matched).toHaveLength(1);
+  });
+});
@@ -0,0 +1,56 @@
+import { StatementLine } from '../types';
+import { normalizeCurrency } from '../currency/codes';
+import { StatementHeader, TextStatementParser, parseDayFirstDate, parseStatementAmount } from './text';
+
+/**
+ * BHD card and account statements.
+ *
+ * Header: "Tarjeta: XXXXXXXXXXXX1610" (or "Cuenta: ...") and
+ * "Periodo: 01/12/2025 - 31/12/2025". Movements are listed per currency
+ * ("Movimientos en RD$" / "Movimientos en US$"), one per line:
+ * "15/12/2025 16/12/2025 MCDONALDS NUNEZ DE C 1,000.00", credits suffixed with "CR".
+ */
+export class BHDStatementParser extends TextStatementParser {
+  name = 'BHD';
+  bank = 'BHD';
+  protected senders = ['bhd.com.do'];
+  protected subject = /estado de cuenta/i;
+
+  protected parseHeader(text: string): StatementHeader | null {
+    const account = text.match(/(?:Tarjeta|Cuenta)(?: No\.?)?:\s*([X*\d-]{4,})/i);
+    const period = text.match(/Periodo:\s*(\d{2}\/\d{2}\/\d{4})\s*(?:-|al)\s*(\d{2}\/\d{2}\/\d{4})/i);
+    const periodStart = period ? parseDayFirstDate(period[1]) : undefined;
+    const periodEnd = period ? parseDayFirstDate(period[2]) : undefined;
+    if (!periodStart || !periodEnd) return null;
+
+    const currency = text.match(/Moneda:\s*(RD\$|US\$|DOP|USD)/i);
+    return {
+      account: account?.[1],
+      periodStart,
+      periodEnd,
+      currency: normalizeCurrency(currency?.[1], 'DOP'),
+    };
+  }
+
+  protected sectionCurrency(line: string): string | undefined {
+    const match = line.match(/^Movimientos en (RD\$|US\$|DOP|USD)/i);
+    return match ? normalizeCurrency(match[1]) : undefined;
+  }
+
+  protected parseLine(line: string, currency: string): StatementLine | null {
+    const match = line.match(/^(\d{2}\/\d{2}\/\d{4}) (?:(\d{2}\/\d{2}\/\d{4}) )?(.+?) ([\d,]+\.\d{2})( ?CR)?$/);
+    if (!match) return null;
+
+    const date = parseDayFirstDate(match[1]);
+    if (!date) return null;
+
+    return {
+      date,
+      postingDate: match[2] ? parseDayFirstDate(match[2]) : undefined,
+      description: match[3].trim(),
+      amount: parseStatementAmount(match[4]),
+      direction: match[5] ? 'inflow' : 'outflow',
+      currency,
+    };
+  }
+}
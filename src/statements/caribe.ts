@@ -0,0 +1,41 @@
+import { StatementLine } from '../types';
+import { StatementHeader, TextStatementParser, parseDayFirstDate, parseStatementAmount } from './text';
+
+/**
+ * Banco Caribe credit card statements.
+ *
+ * Header: "Tarjeta terminada en 1469" and "Desde: 01/12/2025 Hasta: 31/12/2025";
+ * movements "05/12/2025 SUPERMERCADO NACIONAL 2,350.75", credits as negative amounts.
+ */
+export class CaribeStatementParser extends TextStatementParser {
+  name = 'CARIBE';
+  bank = 'CARIBE';
+  protected senders = ['bancocaribe.com.do'];
+  protected subject = /estado de cuenta/i;
+
+  protected parseHeader(text: string): StatementHeader | null {
+    const account = text.match(/terminada en\s*(\d{4})/i);
+    const period = text.match(/Desde:?\s*(\d{2}\/\d{2}\/\d{4})\s*Hasta:?\s*(\d{2}\/\d{2}\/\d{4})/i);
+    const periodStart = period ? parseDayFirstDate(period[1]) : undefined;
+    const periodEnd = period ? parseDayFirstDate(period[2]) : undefined;
+    if (!periodStart || !periodEnd) return null;
+
+    return { account: account?.[1], periodStart, periodEnd, currency: 'DOP' };
+  }
+
+  protected parseLine(line: string, currency: string): StatementLine | null {
+    const match = line.match(/^(\d{2}\/\d{2}\/\d{4}) (.+?) (-)?([\d,]+\.\d{2})$/);
+    if (!match) return null;
+
+    const date = parseDayFirstDate(match[1]);
+    if (!date) return null;
+
+    return {
+      date,
+      description: match[2].trim(),
+      amount: parseStatementAmount(match[4]),
+      direction: match[3] ? 'inflow' : 'outflow',
+      currency,
+    };
+  }
+}
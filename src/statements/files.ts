@@ -0,0 +1,307 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { isValid, parse } from 'date-fns';
+import { Statement, StatementLine, Transaction } from '../types';
+import { normalizeCurrency } from '../currency/codes';
+import { toStatementDate } from './text';
+import { fingerprint } from '../parsers/fingerprint';
+
+/**
+ * Statements exported from online banking (CSV, OFX/QFX), as opposed to the
+ * PDFs the banks email. They carry no period, so it spans the file's movements.
+ */
+
+export interface StatementFileOptions {
+  bank: string;
+  account?: string; // Resolved account key; OFX files name their own account
+  currency?: string; // Currency of the amounts (OFX files declare it; defaults to DOP)
+  dateFormat?: string; // date-fns format of CSV dates (default dd/MM/yyyy; ISO dates are always accepted)
+}
+
+export const STATEMENT_FILE_EXTENSIONS = ['.csv', '.ofx', '.qfx'];
+
+const DEFAULT_CSV_DATE_FORMAT = 'dd/MM/yyyy';
+
+// Header names banks use for each CSV column (compared without accents or case)
+const CSV_COLUMNS = {
+  date: ['fecha', 'date', 'fecha transaccion', 'fecha de transaccion', 'fecha operacion', 'posted date', 'transaction date'],
+  description: ['descripcion', 'description', 'concepto', 'detalle', 'payee', 'comercio', 'referencia'],
+  amount: ['monto', 'amount', 'importe', 'valor'],
+  debit: ['debito', 'debit', 'cargo', 'cargos', 'retiro', 'retiros'],
+  credit: ['credito', 'credit', 'abono', 'abonos', 'deposito', 'depositos'],
+  currency: ['moneda', 'currency'],
+  balance: ['balance', 'saldo', 'balance disponible', 'saldo disponible'],
+};
+
+function normalizeHeader(header: string): string {
+  return header.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z ]/g, '').trim();
+}
+
+/**
+ * Split CSV content into rows, honouring quoted cells. The delimiter (comma or
+ * semicolon) is taken from the header row.
+ */
+export function parseCsvRows(content: string): string[][] {
+  const firstLine = content.split(/\r?\n/, 1)[0];
+  const delimiter = (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell.trim());
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell.trim());
+  rows.push(row);
+
+  return rows.filter(cells => cells.some(value => value !== ''));
+}
+
+/**
+ * Parse a CSV amount: "1,250.00", "-350.00", "(350.00)" or "RD$ 1,250.00"
+ */
+function parseCsvAmount(raw: string): number {
+  if (!raw) return NaN;
+  const negative = /^\(.*\)$/.test(raw) || raw.includes('-');
+  const value = parseFloat(raw.replace(/[^\d.]/g, ''));
+  return negative ? -value : value;
+}
+
+function parseCsvDate(raw: string, dateFormat: string): string | undefined {
+  const iso = raw.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return toStatementDate(parseInt(iso[1]), parseInt(iso[2]), parseInt(iso[3]));
+
+  const date = parse(raw, dateFormat, new Date());
+  return isValid(date) ? toStatementDate(date.getFullYear(), date.getMonth() + 1, date.getDate()) : undefined;
+}
+
+/**
+ * Read a CSV export. The header row must name a date, a description and
+ * either a signed amount (negative = money out) or separate debit/credit columns.
+ */
+export function parseCsvStatement(content: string, options: StatementFileOptions): StatementLine[] {
+  const [header, ...rows] = parseCsvRows(content);
+  if (!header) return [];
+
+  const names = header.map(normalizeHeader);
+  const column = (candidates: string[]) => names.findIndex(name => candidates.includes(name));
+  const columns = {
+    date: column(CSV_COLUMNS.date),
+    description: column(CSV_COLUMNS.description),
+    amount: column(CSV_COLUMNS.amount),
+    debit: column(CSV_COLUMNS.debit),
+    credit: column(CSV_COLUMNS.credit),
+    currency: column(CSV_COLUMNS.currency),
+    balance: column(CSV_COLUMNS.balance),
+  };
+
+  if (columns.date < 0 || columns.description < 0 || (columns.amount < 0 && columns.debit < 0 && columns.credit < 0)) {
+    throw new Error(`CSV header must have date, description and amount (or debit/credit) columns; found: ${header.join(', ')}`);
+  }
+
+  const dateFormat = options.dateFormat || DEFAULT_CSV_DATE_FORMAT;
+  const defaultCurrency = normalizeCurrency(options.currency, 'DOP');
+  const lines: StatementLine[] = [];
+
+  rows.forEach((cells, index) => {
+    const rowNumber = index + 2; // 1-based, after the header
+    const date = parseCsvDate(cells[columns.date] || '', dateFormat);
+    if (!date) {
+      console.warn(`Skipping CSV row ${rowNumber}: invalid date "${cells[columns.date]}"`);
+      return;
+    }
+
+    let amount: number;
+    if (columns.amount >= 0 && cells[columns.amount]) {
+      amount = parseCsvAmount(cells[columns.amount]);
+    } else {
+      const debit = columns.debit >= 0 ? Math.abs(parseCsvAmount(cells[columns.debit])) : NaN;
+      const credit = columns.credit >= 0 ? Math.abs(parseCsvAmount(cells[columns.credit])) : NaN;
+      amount = debit > 0 ? -debit : credit;
+    }
+    if (isNaN(amount) || amount === 0) {
+      console.warn(`Skipping CSV row ${rowNumber}: no amount`);
+      return;
+    }
+
+    lines.push({
+      date,
+      description: cells[columns.description] || '',
+      amount: Math.abs(amount),
+      direction: amount < 0 ? 'outflow' : 'inflow',
+      currency: columns.currency >= 0 && cells[columns.currency]
+        ? normalizeCurrency(cells[columns.currency], defaultCurrency)
+        : defaultCurrency,
+      reference: `row-${rowNumber}`,
+    });
+
+    const balance = columns.balance >= 0 ? parseCsvAmount(cells[columns.balance] || '') : NaN;
+    if (!isNaN(balance)) {
+      lines[lines.length - 1].balance = balance;
+    }
+  });
+
+  return lines;
+}
+
+/**
+ * Value of an OFX element. Works for both SGML (OFX 1.x, no closing tags) and XML (OFX 2.x).
+ */
+function ofxValue(block: string, tag: string): string | undefined {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  const value = match?.[1].trim();
+  return value || undefined;
+}
+
+/**
+ * Read an OFX/QFX file (QFX is OFX with Quicken's extensions). Amounts are
+ * signed from the account holder's side, so negative is money out for both
+ * bank and credit card accounts. The ledger balance, when the file has one,
+ * is returned the way statements print it: the amount owed, for credit cards.
+ */
+export function parseOfxStatement(content: string, options: StatementFileOptions): { account?: string; currency: string; lines: StatementLine[]; ledgerBalance?: number } {
+  const currency = normalizeCurrency(ofxValue(content, 'CURDEF') || options.currency, 'DOP');
+  const account = ofxValue(content, 'ACCTID');
+  const lines: StatementLine[] = [];
+
+  const blocks = content.match(/<STMTTRN>[\s\S]*?<\/STMTTRN>/gi) || [];
+  for (const block of blocks) {
+    const posted = ofxValue(block, 'DTPOSTED')?.match(/^(\d{4})(\d{2})(\d{2})/);
+    const date = posted ? toStatementDate(parseInt(posted[1]), parseInt(posted[2]), parseInt(posted[3])) : undefined;
+    const amount = parseFloat(ofxValue(block, 'TRNAMT') || '');
+    if (!date || isNaN(amount) || amount === 0) {
+      console.warn(`Skipping OFX transaction ${ofxValue(block, 'FITID') || '(no FITID)'}: missing date or amount`);
+      continue;
+    }
+
+    const name = ofxValue(block, 'NAME');
+    const memo = ofxValue(block, 'MEMO');
+    lines.push({
+      date,
+      description: [name, memo].filter(Boolean).join(' ') || ofxValue(block, 'TRNTYPE') || '',
+      amount: Math.abs(amount),
+      direction: amount < 0 ? 'outflow' : 'inflow',
+      currency: normalizeCurrency(ofxValue(block, 'CURSYM') || ofxValue(block, 'CURRENCY'), currency),
+      reference: ofxValue(block, 'FITID'),
+    });
+  }
+
+  const ledger = content.match(/<LEDGERBAL>[\s\S]*?(?:<\/LEDGERBAL>|$)/i)?.[0];
+  const creditCard = /<CCACCTFROM>/i.test(content);
+  const ledgerBalance = ledger ? parseFloat(ofxValue(ledger, 'BALAMT') || '') * (creditCard ? -1 : 1) : NaN;
+
+  return { account, currency, lines, ...(!isNaN(ledgerBalance) && { ledgerBalance }) };
+}
+
+/**
+ * The running balance after the last movement of an export, whichever way
+ * round the bank sorts it
+ */
+function closingRunningBalance(lines: StatementLine[]): number | undefined {
+  if (lines.length === 0) return undefined;
+  const chronological = lines[0].date > lines[lines.length - 1].date ? [...lines].reverse() : lines;
+  return [...chronological].reverse().find(line => line.balance !== undefined)?.balance;
+}
+
+/**
+ * Read a CSV, OFX or QFX export into a Statement covering its movements
+ *
+ * @param resolveAccount Maps the account number an OFX file names to an account key
+ */
+export function readStatementFile(
+  filePath: string,
+  options: StatementFileOptions,
+  resolveAccount: (identifier: string | undefined) => string | undefined = identifier => identifier
+): Statement {
+  const extension = path.extname(filePath).toLowerCase();
+  if (!STATEMENT_FILE_EXTENSIONS.includes(extension)) {
+    throw new Error(`Unsupported statement file "${path.basename(filePath)}" (expected ${STATEMENT_FILE_EXTENSIONS.join(', ')})`);
+  }
+
+  const content = fs.readFileSync(filePath, 'utf-8').replace(/^\uFEFF/, '');
+  let account = options.account;
+  let currency = normalizeCurrency(options.currency, 'DOP');
+  let lines: StatementLine[];
+  let closingBalance: number | undefined;
+
+  if (extension === '.csv') {
+    lines = parseCsvStatement(content, options);
+    closingBalance = closingRunningBalance(lines);
+  } else {
+    const ofx = parseOfxStatement(content, options);
+    account = account ?? resolveAccount(ofx.account);
+    currency = ofx.currency;
+    lines = ofx.lines;
+    closingBalance = ofx.ledgerBalance;
+  }
+
+  const dates = lines.map(line => line.date).sort();
+  return {
+    bank: options.bank,
+    account,
+    periodStart: dates[0] ?? '',
+    periodEnd: dates[dates.length - 1] ?? '',
+    currency,
+    ...(closingBalance !== undefined && { closingBalance }),
+    lines,
+  };
+}
+
+/**
+ * A statement line that no notification covered, as a transaction to store.
+ *
+ * The id is fingerprinted like a parsed notification (with an `-import` parser
+ * name), and the raw message id points at the file and row so re-importing the
+ * same file is a no-op while identical rows are still kept apart.
+ */
+export function statementLineToTransaction(line: StatementLine, statement: Statement, fileName: string): Transaction {
+  const payee = line.description.substring(0, 200).trim() || `${statement.bank} Transaction`;
+  const source = `import:${fileName}:${line.reference ?? line.date}`;
+
+  return {
+    id: fingerprint({
+      parser: `${statement.bank}-import`,
+      account: statement.account,
+      date: line.date,
+      amount: line.amount,
+      payee,
+      direction: line.direction,
+    }),
+    bank: statement.bank,
+    account: statement.account,
+    date: line.date,
+    payee,
+    memo: `Imported from ${fileName}`,
+    amount: line.amount,
+    currency: line.currency,
+    direction: line.direction,
+    rawMessageId: source,
+    rawThreadId: source,
+    status: 'posted',
+  };
+}
@@ -0,0 +1,36 @@
+import { PDFParse } from 'pdf-parse';
+import { AppError, ErrorType } from '../utils/errors';
+
+/**
+ * Extract the text of a PDF, one text line per line (page breaks are marked
+ * with "-- N of M --" lines, which statement parsers simply don't match).
+ *
+ * @param password Password for protected statements (banks often lock them with the holder's ID number)
+ */
+export async function extractPdfText(data: Buffer, password?: string): Promise<string> {
+  const pdf = new PDFParse({ data, password });
+
+  try {
+    const result = await pdf.getText();
+    return result.text;
+  } catch (error: any) {
+    if (error?.name === 'PasswordException') {
+      throw new AppError({
+        type: ErrorType.CONFIGURATION_ERROR,
+        message: password
+          ? 'Wrong password for statement PDF'
+          : 'Statement PDF is password-protected; add its password to statements.passwords in accounts.json',
+        originalError: error,
+        retryable: false,
+      });
+    }
+    throw new AppError({
+      type: ErrorType.PARSING_ERROR,
+      message: `Could not read statement PDF: ${error?.message || error}`,
+      originalError: error,
+      retryable: false,
+    });
+  } finally {
+    await pdf.destroy();
+  }
+}
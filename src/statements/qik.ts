@@ -0,0 +1,53 @@
+import { StatementLine } from '../types';
+import { StatementHeader, TextStatementParser, parseStatementAmount, toStatementDate } from './text';
+
+function parseMonthFirstDate(raw: string): string | undefined {
+  const match = raw.match(/^(\d{1,2})-(\d{1,2})-(\d{4})$/);
+  return match ? toStatementDate(parseInt(match[3]), parseInt(match[1]), parseInt(match[2])) : undefined;
+}
+
+/**
+ * QIK credit card statements (DOP only).
+ *
+ * Dates are month-first like QIK's notifications: header
+ * "Tarjeta 53*************5550", "Período: 12-01-2025 al 12-31-2025"; movements
+ * "12-30-2025 RD VIAL APP RD$ 100.00", with payments and credits as negative amounts.
+ * The amount owed closes the statement: "Balance al corte RD$ 1,250.00".
+ */
+export class QIKStatementParser extends TextStatementParser {
+  name = 'QIK';
+  bank = 'QIK';
+  protected senders = ['qik.do'];
+  protected subject = /estado de cuenta/i;
+
+  protected parseHeader(text: string): StatementHeader | null {
+    const account = text.match(/Tarjeta:?\s+(\d+\*+\d{4})/i);
+    const period = text.match(/Per[ií]odo:\s*(\d{1,2}-\d{1,2}-\d{4})\s*(?:-|al)\s*(\d{1,2}-\d{1,2}-\d{4})/i);
+    const periodStart = period ? parseMonthFirstDate(period[1]) : undefined;
+    const periodEnd = period ? parseMonthFirstDate(period[2]) : undefined;
+    if (!periodStart || !periodEnd) return null;
+
+    const balance = text.match(/Balance al corte:?\s*(-)?RD\$ ?(-)?([\d,]+\.\d{2})/i);
+    const closingBalance = balance
+      ? (balance[1] || balance[2] ? -1 : 1) * parseStatementAmount(balance[3])
+      : undefined;
+
+    return { account: account?.[1], periodStart, periodEnd, currency: 'DOP', closingBalance };
+  }
+
+  protected parseLine(line: string, currency: string): StatementLine | null {
+    const match = line.match(/^(\d{1,2}-\d{1,2}-\d{4}) (.+?) (-)?RD\$ ?(-)?([\d,]+\.\d{2})$/);
+    if (!match) return null;
+
+    const date = parseMonthFirstDate(match[1]);
+    if (!date) return null;
+
+    return {
+      date,
+      description: match[2].trim(),
+      amount: parseStatementAmount(match[5]),
+      direction: match[3] || match[4] ? 'inflow' : 'outflow',
+      currency,
+    };
+  }
+}
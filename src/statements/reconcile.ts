@@ -0,0 +1,103 @@
+import { Statement, StatementLine, Transaction } from '../types';
+import { merchantSimilarity } from '../utils/merchants';
+
+// Statements date card movements by authorization or posting date, which can
+// differ from the notification's date by a few days
+export const RECONCILE_TOLERANCE_DAYS = 3;
+
+export interface StatementMatch {
+  line: StatementLine;
+  transaction: Transaction;
+}
+
+export interface Reconciliation {
+  matched: StatementMatch[];
+  missingFromNotifications: StatementLine[]; // On the statement, but no notification was parsed for it
+  missingFromStatement: Transaction[]; // Notified within the period, but not on the statement
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function daysBetween(a: string, b: string): number {
+  return Math.abs(Date.parse(a) - Date.parse(b)) / DAY_MS;
+}
+
+/**
+ * The transaction's amount in the statement line's currency, if known
+ * (a USD purchase on a DOP card is listed at the posted DOP amount)
+ */
+function amountIn(transaction: Transaction, currency: string): number | undefined {
+  if (transaction.currency === currency) return transaction.amount;
+  if (transaction.postedCurrency === currency) return transaction.postedAmount;
+  return undefined;
+}
+
+/**
+ * Match statement lines to notification-derived transactions.
+ *
+ * A line and a transaction match when direction and amount agree and their
+ * dates are within the tolerance (against either of the line's dates). Every
+ * possible pair is ranked by date distance, then merchant similarity, and
+ * assigned greedily so each line and transaction is used once.
+ *
+ * @param transactions Candidates for the statement's account, already filtered
+ *   to live statuses; those dated outside the period are only used for matching
+ */
+export function reconcileStatement(
+  statement: Statement,
+  transactions: Transaction[],
+  toleranceDays: number = RECONCILE_TOLERANCE_DAYS
+): Reconciliation {
+  const pairs: Array<{ line: number; transaction: number; days: number; similarity: number }> = [];
+
+  statement.lines.forEach((line, lineIndex) => {
+    transactions.forEach((transaction, transactionIndex) => {
+      if (transaction.direction !== line.direction) return;
+
+      const amount = amountIn(transaction, line.currency);
+      if (amount === undefined || Math.abs(amount - line.amount) >= 0.005) return;
+
+      const days = Math.min(
+        daysBetween(line.date, transaction.date),
+        line.postingDate ? daysBetween(line.postingDate, transaction.date) : Infinity
+      );
+      if (days > toleranceDays) return;
+
+      pairs.push({
+        line: lineIndex,
+        transaction: transactionIndex,
+        days,
+        similarity: merchantSimilarity(line.description, transaction.rawPayee ?? transaction.payee),
+      });
+    });
+  });
+
+  pairs.sort((a, b) => a.days - b.days || b.similarity - a.similarity);
+
+  const lineMatches = new Map<number, number>();
+  const usedTransactions = new Set<number>();
+  for (const pair of pairs) {
+    if (lineMatches.has(pair.line) || usedTransactions.has(pair.transaction)) continue;
+    lineMatches.set(pair.line, pair.transaction);
+    usedTransactions.add(pair.transaction);
+  }
+
+  const matched: StatementMatch[] = [];
+  const missingFromNotifications: StatementLine[] = [];
+  statement.lines.forEach((line, lineIndex) => {
+    const transactionIndex = lineMatches.get(lineIndex);
+    if (transactionIndex === undefined) {
+      missingFromNotifications.push(line);
+    } else {
+      matched.push({ line, transaction: transactions[transactionIndex] });
+    }
+  });
+
+  const missingFromStatement = transactions.filter((transaction, index) =>
+    !usedTransactions.has(index) &&
+    transaction.date >= statement.periodStart &&
+    transaction.date <= statement.periodEnd
+  );
+
+  return { matched, missingFromNotifications, missingFromStatement };
+}
@@ -0,0 +1,37 @@
+import { AccountResolver, GmailMessageData, MailAttachment, ParserContext, StatementParser } from '../types';
+import { BHDStatementParser } from './bhd';
+import { QIKStatementParser } from './qik';
+import { CaribeStatementParser } from './caribe';
+import { loadAccountOwnership } from '../config/ownership';
+import { loadBankTimezone } from '../config/timezone';
+
+export class StatementParserRegistry {
+  private parsers: StatementParser[] = [];
+
+  /**
+   * @param accounts Account ownership used to resolve statement account numbers (defaults to accounts.json)
+   */
+  constructor(accounts: AccountResolver = loadAccountOwnership(), timezone: string = loadBankTimezone()) {
+    const context: ParserContext = { accounts, timezone, report: () => {} };
+
+    this.register(new BHDStatementParser(context));
+    this.register(new QIKStatementParser(context));
+    this.register(new CaribeStatementParser(context));
+  }
+
+  register(parser: StatementParser) {
+    this.parsers.push(parser);
+  }
+
+  findParser(message: GmailMessageData, attachment: MailAttachment): StatementParser | undefined {
+    return this.parsers.find(p => p.canParse(message, attachment));
+  }
+
+  findByName(name: string): StatementParser | undefined {
+    return this.parsers.find(p => p.name.toUpperCase() === name.toUpperCase());
+  }
+
+  getAllParsers(): StatementParser[] {
+    return this.parsers;
+  }
+}
@@ -0,0 +1,113 @@
+import { GmailMessageData, MailAttachment, ParserContext, Statement, StatementLine, StatementParser } from '../types';
+
+/**
+ * What a statement's header says about it
+ */
+export interface StatementHeader {
+  account?: string; // Account identifier as printed (masked number, last 4)
+  periodStart: string;
+  periodEnd: string;
+  currency: string;
+  closingBalance?: number; // Balance at the end of the period, when printed
+}
+
+/**
+ * Build a YYYY-MM-DD date, or undefined if the parts don't form a real date
+ */
+export function toStatementDate(year: number, month: number, day: number): string | undefined {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return undefined;
+  }
+  return date.toISOString().substring(0, 10);
+}
+
+/**
+ * Parse a dd/MM/yyyy (or dd-MM-yyyy) date
+ */
+export function parseDayFirstDate(raw: string): string | undefined {
+  const match = raw.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/);
+  return match ? toStatementDate(parseInt(match[3]), parseInt(match[2]), parseInt(match[1])) : undefined;
+}
+
+/**
+ * Parse an amount printed with thousands separators (e.g. "1,250.00")
+ */
+export function parseStatementAmount(raw: string): number {
+  return Math.abs(parseFloat(raw.replace(/[^\d.]/g, '')));
+}
+
+function isPdf(attachment: MailAttachment): boolean {
+  return attachment.mimeType === 'application/pdf' || attachment.filename.toLowerCase().endsWith('.pdf');
+}
+
+/**
+ * Base for statement parsers that read the extracted PDF text line by line:
+ * a header identifies the account and period, and every line that looks like
+ * a movement becomes a StatementLine. Lines that don't match (titles, totals,
+ * page markers) are ignored.
+ */
+export abstract class TextStatementParser implements StatementParser {
+  abstract name: string;
+  abstract bank: string;
+  protected abstract senders: string[];
+  protected abstract subject: RegExp;
+
+  constructor(protected context: ParserContext) {}
+
+  getSearchTerms(): string[] {
+    return this.senders.map(sender => `from:${sender} has:attachment filename:pdf`);
+  }
+
+  canParse(message: GmailMessageData, attachment: MailAttachment): boolean {
+    const from = message.from.toLowerCase();
+    return (
+      this.senders.some(sender => from.includes(sender.toLowerCase())) &&
+      this.subject.test(message.subject) &&
+      isPdf(attachment)
+    );
+  }
+
+  parse(text: string): Statement | null {
+    const lines = text
+      .split(/\r?\n/)
+      .map(line => line.replace(/\s+/g, ' ').trim())
+      .filter(line => line.length > 0);
+
+    const header = this.parseHeader(lines.join('\n'));
+    if (!header) {
+      console.warn(`${this.name} statement: Could not find the account and period`);
+      return null;
+    }
+
+    const items: StatementLine[] = [];
+    let currency = header.currency;
+    for (const line of lines) {
+      // Some statements list each currency in its own section
+      currency = this.sectionCurrency(line) ?? currency;
+      const item = this.parseLine(line, currency);
+      if (item) items.push(item);
+    }
+
+    return {
+      bank: this.bank,
+      account: this.context.accounts.resolve(header.account, this.bank) ?? header.account,
+      periodStart: header.periodStart,
+      periodEnd: header.periodEnd,
+      currency: header.currency,
+      ...(header.closingBalance !== undefined && { closingBalance: header.closingBalance }),
+      lines: items,
+    };
+  }
+
+  protected abstract parseHeader(text: string): StatementHeader | null;
+
+  protected abstract parseLine(line: string, currency: string): StatementLine | null;
+
+  /**
+   * Currency of the section a line starts, if it is a section heading
+   */
+  protected sectionCurrency(_line: string): string | undefined {
+    return undefined;
+  }
+}
@@ -1,15 +1,52 @@
+// authorized: card authorization, not settled yet (sent to YNAB as uncleared)
+// posted: settled (sent to YNAB as cleared)
+// reversed: a purchase that was reversed, or the reversal notification itself (never synced)
+// declined: rejected by the bank (never synced)
+export type TransactionStatus = 'authorized' | 'posted' | 'reversed' | 'declined';
+
+export const FLAG_COLORS = ['red', 'orange', 'yellow', 'green', 'blue', 'purple'] as const;
+
+export type FlagColor = typeof FLAG_COLORS[number];
+
+// skip: stored but never sent to YNAB
+// hold: not sent to YNAB until released from the review queue
+export type YNABHold = 'skip' | 'hold';
+
 export interface Transaction {
-  id: string; // fingerprint
+  id: string; // fingerprint (see src/parsers/fingerprint.ts)
+  legacyId?: string; // v1 fingerprint, to find rows stored before fingerprint v2
   bank: string;
   account?: string; // last 4 digits
-  date: string; // YYYY-MM-DD
+  date: string; // YYYY-MM-DD in the bank timezone, derived from datetime
+  datetime?: string; // Full timestamp with the bank's offset (ISO 8601), when the email has one
   payee: string;
+  rawPayee?: string; // Payee as the bank wrote it, before merchant normalization and rules
   memo: string;
   amount: number;
   currency: string;
   direction: 'inflow' | 'outflow';
   rawMessageId: string;
   rawThreadId: string;
+  transferAccount?: string; // Destination account when this is a transfer between own accounts
+  status?: TransactionStatus; // Defaults to 'posted'
+  reversalOf?: string; // For reversals: id of the purchase this reverses (set when matched)
+  postedAmount?: number; // Amount the bank charged in the account's own currency, when the email shows it
+  postedCurrency?: string; // Currency of postedAmount
+  balance?: number; // Account balance the email shows after this transaction (amount owed for cards)
+  balanceCurrency?: string; // Currency of balance
+  category?: string; // YNAB category name, set by rules
+  splits?: TransactionSplit[]; // Set by split rules; parts add up to `amount`
+  flag?: FlagColor; // YNAB flag, set by rules
+  unapproved?: boolean; // Sent to YNAB unapproved (its approval queue), set by rules
+  ynabHold?: YNABHold; // Kept out of YNAB by a rule
+  ynabImportRevision?: number; // Times the YNAB copy was deleted to be created again (part of the import_id)
+  ynabImportId?: string; // import_id kept from before the id was rewritten to a newer fingerprint
+}
+
+export interface TransactionSplit {
+  amount: number; // Positive, in the transaction's currency
+  category?: string; // YNAB category name
+  memo?: string;
 }
 
 export interface GmailMessageData {
@@ -21,6 +58,15 @@ export interface GmailMessageData {
   snippet: string;
   plainBody: string;
   htmlBody: string;
+  attachments?: MailAttachment[];
+}
+
+export interface MailAttachment {
+  filename: string;
+  mimeType: string;
+  size: number;
+  attachmentId?: string; // Gmail attachment id; download the content with MailSource.getAttachment
+  data?: Buffer; // Content, when it came with the message (e.g. .eml files)
 }
 
 export interface Parser {
@@ -31,6 +77,59 @@ export interface Parser {
   parse(message: GmailMessageData): Transaction | null;
 }
 
+// Resolves account identifiers found in emails to the user's configured accounts
+export interface AccountResolver {
+  resolve(identifier: string | undefined, bank?: string): string | undefined;
+  isOwn(identifier: string | undefined, bank?: string): boolean;
+}
+
+export interface ParserIssue {
+  type: 'unknown_own_account';
+  parser: string;
+  account: string; // Identifier as printed in the email
+  messageId: string;
+  detail: string;
+}
+
+// Injected into parsers by the ParserRegistry
+export interface ParserContext {
+  accounts: AccountResolver;
+  timezone: string; // IANA timezone the bank's emails are written in
+  report(issue: ParserIssue): void;
+}
+
+// A line item on a bank statement
+export interface StatementLine {
+  date: string; // YYYY-MM-DD transaction date
+  postingDate?: string; // YYYY-MM-DD date the bank posted it, when the statement shows both
+  description: string;
+  amount: number;
+  direction: 'inflow' | 'outflow';
+  currency: string;
+  reference?: string; // The bank's id for the movement (OFX FITID), or its row in a CSV export
+  balance?: number; // Running balance after the movement, when the export shows it
+}
+
+export interface Statement {
+  bank: string;
+  account?: string; // Resolved account key (see AccountResolver)
+  periodStart: string; // YYYY-MM-DD
+  periodEnd: string; // YYYY-MM-DD
+  currency: string;
+  closingBalance?: number; // Balance at periodEnd as printed (amount owed for cards), when the statement shows it
+  lines: StatementLine[];
+}
+
+// Extracts line items from the text of a monthly statement (e.g. a PDF attachment)
+export interface StatementParser {
+  name: string;
+  bank: string;
+  // Gmail search query fragments for the statement emails
+  getSearchTerms(): string[];
+  canParse(message: GmailMessageData, attachment: MailAttachment): boolean;
+  parse(text: string): Statement | null;
+}
+
 export interface ParseResult {
   success: boolean;
   transaction?: Transaction;
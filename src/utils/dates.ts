@@ -0,0 +1,61 @@
+import { parse, format, isValid } from 'date-fns';
+import { tz, TZDate } from '@date-fns/tz';
+
+/**
+ * Bank notifications print local wall-clock times without an offset. Every
+ * parser interprets them in an explicit bank timezone (never the host's), so a
+ * purchase at 11:29 PM is dated that day no matter where the sync runs.
+ */
+export const DEFAULT_BANK_TIMEZONE = 'America/Santo_Domingo';
+
+/**
+ * A transaction timestamp: the exact instant plus the bank-local date derived from it
+ */
+export interface BankDateTime {
+  date: string; // YYYY-MM-DD in the bank timezone (the date sent to YNAB)
+  datetime?: string; // ISO 8601 with the bank's offset, e.g. 2025-12-26T23:29:00-04:00 (absent for date-only emails)
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Parse a wall-clock date/time printed by a bank (e.g. '26/12/2025 11:29 pm'
+ * with 'dd/MM/yyyy hh:mm a'). Returns undefined if it doesn't match the format.
+ */
+export function parseBankDateTime(raw: string, dateFormat: string, timezone: string = DEFAULT_BANK_TIMEZONE): BankDateTime | undefined {
+  const parsed = parse(raw.trim(), dateFormat, new Date(), { in: tz(timezone) });
+  return isValid(parsed) ? toBankDateTime(parsed, timezone) : undefined;
+}
+
+/**
+ * Build a timestamp from wall-clock components (month is 1-based)
+ */
+export function bankDateTimeFromParts(
+  year: number,
+  month: number,
+  day: number,
+  hour = 0,
+  minute = 0,
+  second = 0,
+  timezone: string = DEFAULT_BANK_TIMEZONE
+): BankDateTime | undefined {
+  const instant = new TZDate(year, month - 1, day, hour, minute, second, timezone);
+  return isValid(instant) ? toBankDateTime(instant, timezone) : undefined;
+}
+
+/**
+ * Express an instant (e.g. the email's Date header) in the bank timezone
+ */
+export function toBankDateTime(instant: Date, timezone: string = DEFAULT_BANK_TIMEZONE): BankDateTime {
+  return {
+    date: format(instant, 'yyyy-MM-dd', { in: tz(timezone) }),
+    datetime: format(instant, "yyyy-MM-dd'T'HH:mm:ssxxx", { in: tz(timezone) }),
+  };
+}
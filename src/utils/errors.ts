@@ -14,6 +14,7 @@ export enum ErrorType {
   VALIDATION_ERROR = 'VALIDATION_ERROR',
   NOT_FOUND = 'NOT_FOUND',
   CONFIGURATION_ERROR = 'CONFIGURATION_ERROR',
+  EXCHANGE_RATE_MISSING = 'EXCHANGE_RATE_MISSING', // Held until a rate for the date is available
   PARSING_ERROR = 'PARSING_ERROR',
   UNKNOWN_ERROR = 'UNKNOWN_ERROR',
 }
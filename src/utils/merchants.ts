@@ -0,0 +1,34 @@
+/**
+ * Merchant name comparison for matching the same purchase across sources
+ * (a reversal and its purchase, a statement line and its notification).
+ */
+
+export function merchantTokens(payee: string): string[] {
+  return payee
+    .toUpperCase()
+    .normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+    .replace(/\b(REVERSO|REVERSION|DEVOLUCION|ANULACION)\b/g, ' ')
+    .split(/[^A-Z0-9]+/)
+    .filter(token => token.length > 1);
+}
+
+/**
+ * Merchants match when most of the shorter name's tokens appear in the other
+ * (banks often truncate or prefix the merchant, e.g. on reversals or statements).
+ */
+export function merchantsMatch(a: string, b: string): boolean {
+  return merchantSimilarity(a, b) >= 0.5;
+}
+
+/**
+ * Share of the shorter name's tokens found in the other name (0 to 1)
+ */
+export function merchantSimilarity(a: string, b: string): number {
+  const tokensA = merchantTokens(a);
+  const tokensB = merchantTokens(b);
+  if (tokensA.length === 0 || tokensB.length === 0) return 0;
+
+  const [shorter, longer] = tokensA.length <= tokensB.length ? [tokensA, tokensB] : [tokensB, tokensA];
+  const shared = shorter.filter(token => longer.some(other => other.startsWith(token) || token.startsWith(other)));
+  return shared.length / shorter.length;
+}
@@ -0,0 +1,53 @@
+import { CategoryGroupWithCategories } from 'ynab';
+import { CategoryIndex } from '../categories';
+import { AppError, ErrorType } from '../../utils/errors';
+
+function group(name: string, categories: Array<[string, string, boolean?]>): CategoryGroupWithCategories {
+  return {
+    id: `group-${name}`,
+    name,
+    hidden: false,
+    deleted: false,
+    categories: categories.map(([id, categoryName, deleted]) => ({
+      id,
+      category_group_id: `group-${name}`,
+      name: categoryName,
+      hidden: false,
+      deleted: !!deleted,
+      budgeted: 0,
+      activity: 0,
+      balance: 0,
+    })),
+  };
+}
+
+describe('CategoryIndex', () => {
+  const index = new CategoryIndex([
+    group('Everyday', [['cat-dining', 'Dining Out'], ['cat-groceries', 'Groceries'], ['cat-old', 'Old Stuff', true]]),
+    group('Kids', [['cat-kids-groceries', 'Groceries']]),
+  ]);
+
+  it('resolves names case-insensitively', () => {
+    expect(index.resolve('dining  out')).toBe('cat-dining');
+  });
+
+  it('needs the group for names used in more than one group', () => {
+    expect(index.resolve('Kids: Groceries')).toBe('cat-kids-groceries');
+    expect(index.resolve('everyday:groceries')).toBe('cat-groceries');
+    expect(() => index.resolve('Groceries')).toThrow(/more than one group/);
+  });
+
+  it('reports unknown and deleted categories as configuration errors', () => {
+    for (const name of ['Entertaining', 'Old Stuff']) {
+      let error: unknown;
+      try {
+        index.resolve(name);
+      } catch (e) {
+        error = e;
+      }
+      expect(error).toBeInstanceOf(AppError);
+      expect((error as AppError).type).toBe(ErrorType.CONFIGURATION_ERROR);
+      expect((error as AppError).message).toContain('list-categories');
+    }
+  });
+});
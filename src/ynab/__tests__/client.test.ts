@@ -0,0 +1,149 @@
+import { YNABClient } from '../client';
+import { ynabImportId } from '../imports';
+import { ErrorType } from '../../utils/errors';
+import { Transaction } from '../../types';
+import { transaction } from '../../__tests__/transactions';
+
+jest.mock('../../db', () => ({ db: jest.requireActual('../../db/schema').initDB(':memory:') }));
+jest.mock('ynab', () => ({ ...jest.requireActual('ynab'), API: jest.fn(() => mockApi) }));
+
+const mockApi = {
+  transactions: {
+    createTransactions: jest.fn(),
+    getTransactionsByAccount: jest.fn(),
+  },
+  accounts: {
+    getAccounts: jest.fn(async () => ({ data: { accounts: [] } })),
+  },
+  categories: {
+    getCategories: jest.fn(async () => ({
+      data: {
+        category_groups: [{
+          id: 'everyday',
+          name: 'Everyday',
+          deleted: false,
+          categories: [{ id: 'cat-dining', name: 'Dining Out', deleted: false }],
+        }],
+      },
+    })),
+  },
+};
+
+const config = {
+  accessToken: 'token',
+  budgetId: 'budget',
+  accountMappings: { '1610': 'ynab-checking', '5550': 'ynab-card' },
+};
+
+/**
+ * What YNAB answers a create: the transactions it made (in its own order)
+ * and the import_ids it already had
+ */
+function created(transactions: Transaction[], duplicates: Transaction[] = []) {
+  return {
+    data: {
+      transaction_ids: transactions.map(t => `ynab-${t.id}`),
+      transactions: transactions.map(t => ({ id: `ynab-${t.id}`, import_id: ynabImportId(t) })),
+      duplicate_import_ids: duplicates.map(ynabImportId),
+    },
+  };
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('YNABClient.createTransactions', () => {
+  it('posts one batch per account and maps created transactions back by import_id', async () => {
+    const [coffee, rent, card] = [transaction('coffee'), transaction('rent', { direction: 'inflow' }), transaction('card', { account: '5550' })];
+    mockApi.transactions.createTransactions.mockImplementation(async (_budget: string, { transactions }: any) =>
+      // Listed in a different order than sent
+      created([coffee, rent, card].filter(t => transactions.some((sent: any) => sent.import_id === ynabImportId(t))).reverse()));
+
+    const { results, errors } = await new YNABClient(config).createTransactions([coffee, rent, card]);
+
+    expect(Object.fromEntries(results)).toEqual({ coffee: 'ynab-coffee', rent: 'ynab-rent', card: 'ynab-card' });
+    expect(errors.size).toBe(0);
+    expect(mockApi.transactions.createTransactions).toHaveBeenCalledTimes(2);
+    expect(mockApi.transactions.createTransactions.mock.calls[0][1].transactions).toEqual([
+      expect.objectContaining({ account_id: 'ynab-checking', amount: -100000, import_id: ynabImportId(coffee) }),
+      expect.objectContaining({ account_id: 'ynab-checking', amount: 100000, import_id: ynabImportId(rent) }),
+    ]);
+  });
+
+  it('resolves duplicate import_ids to the transactions YNAB already has', async () => {
+    const [fresh, pushed, deleted] = [
+      transaction('fresh'),
+      transaction('pushed', { date: '2025-11-01' }),
+      transaction('deleted', { date: '2025-11-05' }),
+    ];
+    mockApi.transactions.createTransactions.mockResolvedValue(created([fresh], [pushed, deleted]));
+    mockApi.transactions.getTransactionsByAccount.mockResolvedValue({
+      data: {
+        transactions: [
+          { id: 'ynab-pushed', import_id: ynabImportId(pushed), deleted: false },
+          { id: 'ynab-deleted', import_id: ynabImportId(deleted), deleted: true },
+          { id: 'ynab-manual', import_id: null, deleted: false },
+        ],
+      },
+    });
+
+    const { results, errors } = await new YNABClient(config).createTransactions([fresh, pushed, deleted]);
+
+    expect(Object.fromEntries(results)).toEqual({ fresh: 'ynab-fresh', pushed: 'ynab-pushed' });
+    expect(errors.get('deleted')).toMatchObject({ type: ErrorType.VALIDATION_ERROR, retryable: false });
+    // Looked up from the earliest duplicate
+    expect(mockApi.transactions.getTransactionsByAccount).toHaveBeenCalledWith('budget', 'ynab-checking', '2025-11-01');
+  });
+
+  it('sends the rest of the batch when some transactions cannot be built', async () => {
+    const [coffee, transfer, unmapped] = [
+      transaction('coffee'),
+      transaction('transfer', { transferAccount: '9999' }),
+      transaction('unmapped', { account: '0000' }),
+    ];
+    mockApi.transactions.createTransactions.mockResolvedValue(created([coffee]));
+
+    const { results, errors } = await new YNABClient(config).createTransactions([coffee, transfer, unmapped]);
+
+    expect(Object.fromEntries(results)).toEqual({ coffee: 'ynab-coffee' });
+    expect(errors.get('transfer')).toMatchObject({ type: ErrorType.CONFIGURATION_ERROR });
+    expect(errors.has('unmapped')).toBe(false); // Left unsynced, not failed
+    expect(mockApi.transactions.createTransactions.mock.calls[0][1].transactions).toHaveLength(1);
+  });
+
+  it('sends transactions with a category the budget lacks uncategorized, with one warning', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const [dinner, lunch, split] = [
+      transaction('dinner', { category: 'Dinning Out' }),
+      transaction('lunch', { category: 'Dinning Out' }),
+      transaction('split', { splits: [{ amount: 60, category: 'Dining Out' }, { amount: 40, category: 'Gone' }] }),
+    ];
+    mockApi.transactions.createTransactions.mockResolvedValue(created([dinner, lunch, split]));
+
+    const { results, errors } = await new YNABClient(config).createTransactions([dinner, lunch, split]);
+
+    expect(results.size).toBe(3);
+    expect(errors.size).toBe(0);
+    const sent = mockApi.transactions.createTransactions.mock.calls[0][1].transactions;
+    expect(sent[0].category_id).toBeUndefined();
+    expect(sent[2].subtransactions.map((part: any) => part.category_id)).toEqual(['cat-dining', undefined]);
+    expect(warn).toHaveBeenCalledTimes(2); // Once per unknown name
+    expect(warn.mock.calls[0][0]).toContain('Unknown YNAB category "Dinning Out"');
+  });
+
+  it('fails the batch on an error YNAB will not accept on retry', async () => {
+    mockApi.transactions.createTransactions.mockRejectedValue(
+      Object.assign(new Error('Bad request'), { response: { status: 400, data: { error: { detail: 'date is invalid' } } } })
+    );
+
+    await expect(new YNABClient(config).createTransactions([transaction('coffee')])).rejects.toMatchObject({ retryable: false });
+    expect(mockApi.transactions.createTransactions).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,20 @@
+import { ynabImportId } from '../imports';
+
+describe('ynabImportId', () => {
+  const id = '3f2a9c1d0b7e4a5f8c6d2e1b0a9f8e7d';
+
+  it('is the fingerprint, within the 36 characters YNAB allows', () => {
+    expect(ynabImportId({ id })).toBe(`BS:${id}`);
+    expect(ynabImportId({ id, ynabImportRevision: 0 })).toBe(`BS:${id}`);
+  });
+
+  it('changes when the YNAB copy is created again', () => {
+    expect(ynabImportId({ id, ynabImportRevision: 1 })).toBe(`BS1:${id.substring(0, 32)}`);
+    expect(ynabImportId({ id, ynabImportRevision: 12 })).toHaveLength(36);
+    expect(ynabImportId({ id, ynabImportRevision: 12 })).not.toBe(ynabImportId({ id, ynabImportRevision: 1 }));
+  });
+
+  it('keeps the import_id from before the id was rewritten', () => {
+    expect(ynabImportId({ id, ynabImportId: 'BS:v1-id' })).toBe('BS:v1-id');
+  });
+});
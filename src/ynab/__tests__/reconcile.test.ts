@@ -0,0 +1,67 @@
+import { TransactionDetail } from 'ynab';
+import { reconcileAccount, ReconcileInput } from '../reconcile';
+import { Transaction } from '../../types';
+import { transaction } from '../../__tests__/transactions';
+
+function ynab(id: string, date: string, amount: number, overrides: Partial<TransactionDetail> = {}): TransactionDetail {
+  return { id, date, amount, cleared: 'cleared', payee_name: id, ...overrides } as TransactionDetail;
+}
+
+function stored(id: string, date: string, overrides: Partial<Transaction> = {}): Transaction {
+  return transaction(id, { bank: 'QIK', account: '5550', date, ...overrides });
+}
+
+const input: ReconcileInput = {
+  account: { id: 'card', name: 'QIK Card', type: 'creditCard', cleared_balance: -1350000 },
+  bankAccounts: ['5550'],
+  currency: 'DOP',
+  balance: { account: '5550', date: '2025-12-31', amount: 1250, currency: 'DOP', source: 'statement', reference: 'stmt' },
+  since: '2025-12-01',
+  until: '2026-01-10',
+  ynabTransactions: [
+    ynab('y-uber', '2025-12-05', -350000, { cleared: 'reconciled' }),
+    ynab('y-vial', '2025-12-30', -100000),
+    ynab('y-later', '2026-01-05', -100000),
+    ynab('y-coffee', '2026-01-06', -50000, { cleared: 'uncleared' }),
+    ynab('y-transfer', '2025-12-15', 2000000, { transfer_transaction_id: 'y-payment' }),
+  ],
+  local: [
+    { transaction: stored('uber', '2025-12-05'), ynabId: 'y-uber' },
+    { transaction: stored('vial', '2025-12-30'), ynabId: 'y-vial' },
+    { transaction: stored('later', '2026-01-05'), ynabId: 'y-later' },
+    { transaction: stored('gone', '2025-12-20'), ynabId: 'y-gone' },
+    { transaction: stored('failed', '2026-01-02'), syncError: 'Unknown category' },
+    { transaction: stored('held', '2026-01-03', { ynabHold: 'hold' }) },
+    { transaction: stored('skipped', '2026-01-03', { ynabHold: 'skip' }) },
+  ],
+  linkedYnabIds: new Set(['y-uber', 'y-vial', 'y-later', 'y-gone', 'y-payment']),
+};
+
+describe('reconcileAccount', () => {
+  it('compares the bank balance with YNAB cleared on the same date, cards as negative', () => {
+    const result = reconcileAccount(input);
+
+    expect(result).toMatchObject({ bankBalance: -1250, ynabCleared: -1250, difference: 0, balanced: true });
+    expect(result.reconcilable).toEqual(['y-vial']);
+  });
+
+  it('lists stored transactions YNAB lacks and YNAB transactions with no bank source', () => {
+    const result = reconcileAccount(input);
+
+    expect(result.missingInYNAB.map(t => [t.id, t.reason])).toEqual([
+      ['gone', 'deleted in YNAB'],
+      ['failed', 'sync failed: Unknown category'],
+      ['held', 'held for review'],
+    ]);
+    expect(result.ynabOnly).toEqual([{ id: 'y-coffee', date: '2026-01-06', payee: 'y-coffee', amount: -50, cleared: 'uncleared' }]);
+  });
+
+  it('reconciles nothing when the balances differ, and compares nothing without a balance', () => {
+    const off = reconcileAccount({ ...input, balance: { ...input.balance!, amount: 1300 } });
+    expect(off).toMatchObject({ difference: 50, balanced: false, reconcilable: [] });
+
+    const none = reconcileAccount({ ...input, balance: undefined });
+    expect(none).toMatchObject({ balanced: false, reconcilable: [] });
+    expect(none.difference).toBeUndefined();
+  });
+});
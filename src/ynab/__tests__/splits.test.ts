@@ -0,0 +1,14 @@
+import { allocateMilliunits } from '../splits';
+
+describe('allocateMilliunits', () => {
+  it('always adds up to the total, outflows included', () => {
+    const parts = allocateMilliunits(-100000, [1, 1, 1]);
+    expect(parts).toEqual([-33334, -33333, -33333]);
+    expect(parts.reduce((sum, part) => sum + part, 0)).toBe(-100000);
+  });
+
+  it('divides a converted total in proportion to the split amounts', () => {
+    // DOP 2592.90 + 1728.60 charged as USD 71.99
+    expect(allocateMilliunits(-71990, [2592.9, 1728.6])).toEqual([-43194, -28796]);
+  });
+});
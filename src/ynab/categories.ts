@@ -0,0 +1,47 @@
+import { CategoryGroupWithCategories } from 'ynab';
+import { AppError, ErrorType } from '../utils/errors';
+
+function normalizeName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Category names as rules write them, resolved to YNAB category ids.
+ *
+ * Names match case-insensitively. A name used in more than one group must be
+ * written as `Group: Category`. Deleted categories are left out; hidden ones
+ * can still be assigned.
+ */
+export class CategoryIndex {
+  private byName = new Map<string, string[]>();
+  private byQualifiedName = new Map<string, string>();
+
+  constructor(groups: CategoryGroupWithCategories[]) {
+    for (const group of groups) {
+      if (group.deleted) continue;
+      for (const category of group.categories) {
+        if (category.deleted) continue;
+        const name = normalizeName(category.name);
+        this.byName.set(name, [...(this.byName.get(name) || []), category.id]);
+        this.byQualifiedName.set(`${normalizeName(group.name)}: ${name}`, category.id);
+      }
+    }
+  }
+
+  resolve(name: string): string {
+    const qualified = this.byQualifiedName.get(normalizeName(name).replace(/\s*:\s*/, ': '));
+    if (qualified) return qualified;
+
+    const ids = this.byName.get(normalizeName(name)) || [];
+    if (ids.length === 1) return ids[0];
+
+    throw new AppError({
+      type: ErrorType.CONFIGURATION_ERROR,
+      message: ids.length === 0
+        ? `Unknown YNAB category "${name}" (run list-categories to see the budget's categories)`
+        : `YNAB category "${name}" exists in more than one group; write it as "Group: ${name}" in rules.json`,
+      retryable: false,
+      context: { category: name },
+    });
+  }
+}
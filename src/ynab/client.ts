@@ -1,17 +1,34 @@
-import { API, SaveTransactionWithOptionalFields, TransactionClearedStatus, BudgetSummary, Account } from 'ynab';
+import { API, NewTransaction, SaveTransactionWithOptionalFields, TransactionClearedStatus, TransactionFlagColor, BudgetSummary, Account, CategoryGroupWithCategories, TransactionDetail } from 'ynab';
 import { Transaction } from '../types';
 import { YNABConfig } from '../config/ynab';
 import { classifyError, retryWithBackoff, formatError, AppError, ErrorType } from '../utils/errors';
+import { CurrencyConverter, formatConversionMemo } from '../currency/converter';
+import { DEFAULT_CURRENCY } from '../currency/codes';
+import { CategoryIndex } from './categories';
+import { allocateMilliunits } from './splits';
+import { ynabImportId } from './imports';
+
+export interface YNABBatchResult {
+  results: Map<string, string>; // transaction.id -> ynab_transaction_id
+  errors: Map<string, AppError>; // transaction.id -> error for transactions that couldn't be sent
+}
 
 export class YNABClient {
   private api: API;
   private budgetId: string;
   private accountMappings: Record<string, string>;
+  private budgetCurrency: string;
+  private accountCurrencies: Record<string, string>;
+  private accountsCache: Promise<Account[]> | null = null;
+  private categoriesCache: Promise<CategoryIndex> | null = null;
+  private warnedCategories = new Set<string>();
 
-  constructor(config: YNABConfig) {
+  constructor(config: YNABConfig, private converter: CurrencyConverter = new CurrencyConverter()) {
     this.api = new API(config.accessToken);
     this.budgetId = config.budgetId;
     this.accountMappings = config.accountMappings;
+    this.budgetCurrency = config.currency || DEFAULT_CURRENCY;
+    this.accountCurrencies = config.accountCurrencies || {};
   }
 
   /**
@@ -30,17 +47,83 @@ export class YNABClient {
   }
 
   /**
-   * Create a transaction in YNAB
+   * Get the payee YNAB uses for transfers into the account mapped to a bank account
    */
-  async createTransaction(transaction: Transaction): Promise<string | null> {
-    const accountId = this.getYNABAccountId(transaction.account || '');
-
+  private async getTransferPayeeId(bankAccount: string): Promise<string> {
+    const accountId = this.getYNABAccountId(bankAccount);
     if (!accountId) {
-      console.warn(`No YNAB account mapping found for bank account: ${transaction.account}`);
-      return null;
+      throw new AppError({
+        type: ErrorType.CONFIGURATION_ERROR,
+        message: `No YNAB account mapping for transfer destination: ${bankAccount}`,
+        retryable: false,
+        context: { account: bankAccount },
+      });
+    }
+
+    if (!this.accountsCache) {
+      this.accountsCache = this.getAccounts().catch(error => {
+        this.accountsCache = null;
+        throw error;
+      });
+    }
+    const accounts = await this.accountsCache;
+    const account = accounts.find(a => a.id === accountId);
+
+    if (!account?.transfer_payee_id) {
+      throw new AppError({
+        type: ErrorType.CONFIGURATION_ERROR,
+        message: `YNAB account ${accountId} (mapped to ${bankAccount}) has no transfer payee`,
+        retryable: false,
+        context: { account: bankAccount, accountId },
+      });
+    }
+
+    return account.transfer_payee_id;
+  }
+
+  /**
+   * YNAB id of a category named by a rule (categories are fetched once per client)
+   */
+  private async getCategoryId(name: string): Promise<string> {
+    if (!this.categoriesCache) {
+      this.categoriesCache = this.getCategoryGroups()
+        .then(groups => new CategoryIndex(groups))
+        .catch(error => {
+          this.categoriesCache = null;
+          throw error;
+        });
     }
+    return (await this.categoriesCache).resolve(name);
+  }
+
+  /**
+   * Like `getCategoryId`, but a name the budget doesn't have (a typo, a renamed
+   * category) leaves the transaction uncategorized with a warning instead of
+   * keeping it out of YNAB
+   */
+  private async findCategoryId(name: string): Promise<string | undefined> {
+    try {
+      return await this.getCategoryId(name);
+    } catch (error) {
+      if (!(error instanceof AppError) || error.type !== ErrorType.CONFIGURATION_ERROR) throw error;
+      if (!this.warnedCategories.has(name)) {
+        this.warnedCategories.add(name);
+        console.warn(`⚠️  ${error.message}; sending transactions without it`);
+      }
+      return undefined;
+    }
+  }
+
+  /**
+   * Build the YNAB payload for a transaction
+   */
+  private async toSaveTransaction(transaction: Transaction, accountId: string): Promise<SaveTransactionWithOptionalFields> {
+    // Charges in another currency (e.g. USD on a DOP card) are converted to the
+    // YNAB account's currency; the original amount and rate go in the memo
+    const accountCurrency = this.accountCurrencies[transaction.account || ''] || this.budgetCurrency;
+    const conversion = this.converter.convert(transaction, accountCurrency);
 
-    const amount = this.toMilliunits(transaction.amount);
+    const amount = this.toMilliunits(conversion ? conversion.amount : transaction.amount);
     const milliunitAmount = transaction.direction === 'outflow' ? -amount : amount;
 
     // Truncate payee name to YNAB's maximum of 200 characters
@@ -53,33 +136,61 @@ export class YNABClient {
       date: transaction.date, // YYYY-MM-DD format
       amount: milliunitAmount,
       payee_name: payeeName,
-      memo: transaction.memo || undefined,
-      cleared: TransactionClearedStatus.Cleared,
-      approved: true,
+      memo: (conversion ? formatConversionMemo(transaction.memo, conversion) : transaction.memo) || undefined,
+      // Authorizations may still change (post for a different amount, or be declined)
+      cleared: transaction.status === 'authorized' ? TransactionClearedStatus.Uncleared : TransactionClearedStatus.Cleared,
+      // Rules can leave it for YNAB's approval queue
+      approved: !transaction.unapproved,
     };
+    if (transaction.flag) {
+      ynabTransaction.flag_color = transaction.flag as TransactionFlagColor;
+    }
 
-    try {
-      const response = await retryWithBackoff(
-        () => this.api.transactions.createTransaction(
-          this.budgetId,
-          { transaction: ynabTransaction }
-        ),
-        {
-          maxRetries: 3,
-          initialDelay: 1000,
-          onRetry: (error, attempt) => {
-            console.warn(
-              `Retrying transaction for ${transaction.payee} (attempt ${attempt}): ${error.message}`
-            );
-          },
-        }
-      );
+    // Transfers between own accounts use the destination's transfer payee so
+    // YNAB creates the linked transaction on the other account.
+    if (transaction.transferAccount) {
+      ynabTransaction.payee_id = await this.getTransferPayeeId(transaction.transferAccount);
+      delete ynabTransaction.payee_name;
+    } else if (transaction.splits && transaction.splits.length > 0) {
+      // Split after conversion, so the parts add up to the converted total
+      const amounts = allocateMilliunits(milliunitAmount, transaction.splits.map(split => split.amount));
+      ynabTransaction.subtransactions = await Promise.all(transaction.splits.map(async (split, index) => ({
+        amount: amounts[index],
+        category_id: split.category ? await this.findCategoryId(split.category) : undefined,
+        memo: split.memo,
+      })));
+    } else if (transaction.category) {
+      // Transfers between budget accounts can't have a category
+      ynabTransaction.category_id = await this.findCategoryId(transaction.category);
+    }
 
-      if (response.data.transaction) {
-        return response.data.transaction.id;
-      }
+    return ynabTransaction;
+  }
+
+  /**
+   * Create a transaction in YNAB
+   */
+  async createTransaction(transaction: Transaction): Promise<string | null> {
+    const accountId = this.getYNABAccountId(transaction.account || '');
 
+    if (!accountId) {
+      console.warn(`No YNAB account mapping found for bank account: ${transaction.account}`);
       return null;
+    }
+
+    const ynabTransaction = await this.toSaveTransaction(transaction, accountId);
+
+    try {
+      const { results, errors } = await this.postTransactions(
+        accountId,
+        [transaction],
+        [ynabTransaction],
+        attempt => `Retrying transaction for ${transaction.payee} (attempt ${attempt})`
+      );
+
+      const error = errors.get(transaction.id);
+      if (error) throw error;
+      return results.get(transaction.id) ?? null;
     } catch (error: any) {
       const appError = classifyError(error, {
         transactionId: transaction.id,
@@ -93,11 +204,151 @@ export class YNABClient {
     }
   }
 
+  /**
+   * Send new transactions for one account, each with its import_id, and map
+   * what YNAB created back to our ids by import_id (YNAB leaves duplicates out
+   * of `transactions`, so positions don't line up).
+   *
+   * A duplicate import_id means an earlier push got through but wasn't
+   * recorded; the transaction YNAB already has is looked up and its id used.
+   */
+  private async postTransactions(
+    accountId: string,
+    transactions: Transaction[],
+    ynabTransactions: SaveTransactionWithOptionalFields[],
+    retryMessage: (attempt: number) => string
+  ): Promise<YNABBatchResult> {
+    const results = new Map<string, string>();
+    const errors = new Map<string, AppError>();
+
+    const byImportId = new Map(transactions.map(transaction => [ynabImportId(transaction), transaction]));
+    const newTransactions: NewTransaction[] = transactions.map((transaction, index) => ({
+      ...ynabTransactions[index],
+      import_id: ynabImportId(transaction),
+    }));
+
+    // Always the `transactions` form: a single `transaction` that is a
+    // duplicate fails with a conflict instead of being listed
+    const response = await retryWithBackoff(
+      () => this.api.transactions.createTransactions(this.budgetId, { transactions: newTransactions }),
+      {
+        maxRetries: 3,
+        initialDelay: 1000,
+        onRetry: (error, attempt) => {
+          console.warn(`${retryMessage(attempt)}: ${error.message}`);
+        },
+      }
+    );
+
+    for (const ynabTx of response.data.transactions || []) {
+      const transaction = ynabTx.import_id ? byImportId.get(ynabTx.import_id) : undefined;
+      if (transaction && ynabTx.id) {
+        results.set(transaction.id, ynabTx.id);
+      }
+    }
+
+    const duplicates = (response.data.duplicate_import_ids || [])
+      .map(importId => byImportId.get(importId))
+      .filter((transaction): transaction is Transaction => !!transaction);
+    if (duplicates.length > 0) {
+      const existing = await this.findByImportId(accountId, duplicates);
+      for (const transaction of duplicates) {
+        const ynabId = existing.get(ynabImportId(transaction));
+        if (ynabId) {
+          results.set(transaction.id, ynabId);
+        } else {
+          errors.set(transaction.id, new AppError({
+            type: ErrorType.VALIDATION_ERROR,
+            message: `YNAB already has import_id ${ynabImportId(transaction)} on this account, but the transaction isn't there (deleted in YNAB?)`,
+            retryable: false,
+            context: { transactionId: transaction.id, accountId, importId: ynabImportId(transaction) },
+          }));
+        }
+      }
+      console.log(`Found ${duplicates.length - errors.size} transactions already in YNAB from an earlier push`);
+    }
+
+    return { results, errors };
+  }
+
+  /**
+   * YNAB ids of an account's transactions by import_id, from the earliest
+   * date among `transactions`
+   */
+  private async findByImportId(accountId: string, transactions: Transaction[]): Promise<Map<string, string>> {
+    const since = transactions.map(transaction => transaction.date).sort()[0];
+    const existing = await this.getAccountTransactions(accountId, since);
+    return new Map(existing
+      .filter(transaction => transaction.import_id)
+      .map(transaction => [transaction.import_id!, transaction.id]));
+  }
+
+  /**
+   * Overwrite an existing YNAB transaction with the transaction's current state
+   * (e.g. an authorization that has since posted)
+   */
+  async updateTransaction(ynabId: string, transaction: Transaction): Promise<void> {
+    const accountId = this.getYNABAccountId(transaction.account || '');
+    if (!accountId) {
+      throw new AppError({
+        type: ErrorType.CONFIGURATION_ERROR,
+        message: `No YNAB account mapping for bank account: ${transaction.account}`,
+        retryable: false,
+        context: { account: transaction.account },
+      });
+    }
+
+    const ynabTransaction = await this.toSaveTransaction(transaction, accountId);
+
+    try {
+      await retryWithBackoff(
+        () => this.api.transactions.updateTransaction(
+          this.budgetId,
+          ynabId,
+          { transaction: ynabTransaction }
+        ),
+        {
+          maxRetries: 3,
+          initialDelay: 1000,
+          onRetry: (error, attempt) => {
+            console.warn(`Retrying update for ${transaction.payee} (attempt ${attempt}): ${error.message}`);
+          },
+        }
+      );
+    } catch (error: any) {
+      throw classifyError(error, { transactionId: transaction.id, ynabId, payee: transaction.payee });
+    }
+  }
+
+  /**
+   * Delete a YNAB transaction (e.g. a purchase that was reversed or declined)
+   */
+  async deleteTransaction(ynabId: string): Promise<void> {
+    try {
+      await retryWithBackoff(
+        () => this.api.transactions.deleteTransaction(this.budgetId, ynabId),
+        {
+          maxRetries: 3,
+          initialDelay: 1000,
+          onRetry: (error, attempt) => {
+            console.warn(`Retrying delete of YNAB transaction ${ynabId} (attempt ${attempt}): ${error.message}`);
+          },
+        }
+      );
+    } catch (error: any) {
+      throw classifyError(error, { ynabId });
+    }
+  }
+
   /**
    * Create multiple transactions in YNAB (batch)
+   *
+   * Transactions that can't be sent (e.g. a transfer to an unmapped account)
+   * are reported in `errors` without failing the rest of the batch.
    */
-  async createTransactions(transactions: Transaction[]): Promise<Map<string, string>> {
+  async createTransactions(transactions: Transaction[]): Promise<YNABBatchResult> {
     const results = new Map<string, string>(); // transaction.id -> ynab_transaction_id
+    const errors = new Map<string, AppError>();
 
     // Group transactions by account for batch creation
     const byAccount = transactions.reduce((acc, t) => {
@@ -110,53 +361,30 @@ export class YNABClient {
     }, {} as Record<string, Transaction[]>);
 
     // Create transactions in batches per account
-    for (const [accountId, accountTransactions] of Object.entries(byAccount)) {
-      const ynabTransactions: SaveTransactionWithOptionalFields[] = accountTransactions.map(t => {
-        // Truncate payee name to YNAB's maximum of 200 characters
-        const payeeName = t.payee && t.payee.length > 200
-          ? t.payee.substring(0, 200)
-          : t.payee;
-
-        return {
-          account_id: accountId,
-          date: t.date,
-          amount: t.direction === 'outflow' ? -this.toMilliunits(t.amount) : this.toMilliunits(t.amount),
-          payee_name: payeeName,
-          memo: t.memo || undefined,
-          cleared: TransactionClearedStatus.Cleared,
-          approved: true,
-        };
-      });
+    for (const [accountId, candidates] of Object.entries(byAccount)) {
+      const accountTransactions: Transaction[] = [];
+      const ynabTransactions: SaveTransactionWithOptionalFields[] = [];
+
+      for (const t of candidates) {
+        try {
+          ynabTransactions.push(await this.toSaveTransaction(t, accountId));
+          accountTransactions.push(t);
+        } catch (error: any) {
+          errors.set(t.id, classifyError(error, { transactionId: t.id, payee: t.payee }));
+        }
+      }
+
+      if (ynabTransactions.length === 0) continue;
 
       try {
-        const response = await retryWithBackoff(
-          () => this.api.transactions.createTransactions(
-            this.budgetId,
-            { transactions: ynabTransactions }
-          ),
-          {
-            maxRetries: 3,
-            initialDelay: 1000,
-            onRetry: (error, attempt) => {
-              console.warn(
-                `Retrying batch transactions for account ${accountId} (attempt ${attempt}): ${error.message}`
-              );
-            },
-          }
+        const batch = await this.postTransactions(
+          accountId,
+          accountTransactions,
+          ynabTransactions,
+          attempt => `Retrying batch transactions for account ${accountId} (attempt ${attempt})`
         );
-
-        if (response.data.transactions) {
-          response.data.transactions.forEach((ynabTx, index) => {
-            if (ynabTx.id && accountTransactions[index]) {
-              results.set(accountTransactions[index].id, ynabTx.id);
-            }
-          });
-        }
-
-        // Handle duplicates (transactions that already exist)
-        if (response.data.duplicate_import_ids) {
-          console.log(`Skipped ${response.data.duplicate_import_ids.length} duplicate transactions`);
-        }
+        batch.results.forEach((ynabId, id) => results.set(id, ynabId));
+        batch.errors.forEach((error, id) => errors.set(id, error));
       } catch (error: any) {
         // Log the full error details for debugging
         console.error(`Failed to create batch transactions for account ${accountId}:`);
@@ -203,7 +431,7 @@ export class YNABClient {
       }
     }
 
-    return results;
+    return { results, errors };
   }
 
   /**
@@ -219,6 +447,65 @@ export class YNABClient {
     }
   }
 
+  /**
+   * Get the budget's category groups and their categories
+   */
+  async getCategoryGroups(): Promise<CategoryGroupWithCategories[]> {
+    try {
+      const response = await retryWithBackoff(() => this.api.categories.getCategories(this.budgetId));
+      return response.data.category_groups;
+    } catch (error: any) {
+      throw classifyError(error, { budgetId: this.budgetId });
+    }
+  }
+
+  /**
+   * Transactions in the YNAB accounts that bank accounts are mapped to,
+   * optionally from a date (YYYY-MM-DD)
+   */
+  async getMappedAccountTransactions(sinceDate?: string): Promise<TransactionDetail[]> {
+    const accountIds = [...new Set(Object.values(this.accountMappings))];
+    const transactions: TransactionDetail[] = [];
+
+    for (const accountId of accountIds) {
+      transactions.push(...await this.getAccountTransactions(accountId, sinceDate));
+    }
+
+    return transactions;
+  }
+
+  /**
+   * A YNAB account's transactions (deleted ones left out), optionally from a
+   * date (YYYY-MM-DD)
+   */
+  async getAccountTransactions(accountId: string, sinceDate?: string): Promise<TransactionDetail[]> {
+    try {
+      const response = await retryWithBackoff(
+        () => this.api.transactions.getTransactionsByAccount(this.budgetId, accountId, sinceDate)
+      );
+      return response.data.transactions.filter(transaction => !transaction.deleted);
+    } catch (error: any) {
+      throw classifyError(error, { budgetId: this.budgetId, accountId });
+    }
+  }
+
+  /**
+   * Mark cleared transactions as reconciled
+   */
+  async markReconciled(ynabIds: string[]): Promise<void> {
+    if (ynabIds.length === 0) return;
+
+    try {
+      await retryWithBackoff(
+        () => this.api.transactions.updateTransactions(this.budgetId, {
+          transactions: ynabIds.map(id => ({ id, cleared: TransactionClearedStatus.Reconciled })),
+        })
+      );
+    } catch (error: any) {
+      throw classifyError(error, { budgetId: this.budgetId, transactionCount: ynabIds.length });
+    }
+  }
+
   /**
    * Get all accounts for the budget
    */
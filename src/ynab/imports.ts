@@ -0,0 +1,24 @@
+import { Transaction } from '../types';
+
+export const IMPORT_ID_PREFIX = 'BS';
+
+// YNAB rejects longer import ids
+const MAX_IMPORT_ID_LENGTH = 36;
+
+/**
+ * The `import_id` a transaction is pushed with: its fingerprint, plus the
+ * revision once the YNAB copy has been deleted and created again.
+ *
+ * YNAB keeps one transaction per import_id and account, so pushing the same
+ * transaction twice (a crash after YNAB saved it but before the row was
+ * marked synced) reports a duplicate instead of creating a second copy.
+ * Rows whose id migrate-fingerprints rewrote keep the import_id of the old id.
+ */
+export function ynabImportId(transaction: Pick<Transaction, 'id' | 'ynabImportRevision' | 'ynabImportId'>): string {
+  if (transaction.ynabImportId) return transaction.ynabImportId;
+
+  const prefix = transaction.ynabImportRevision
+    ? `${IMPORT_ID_PREFIX}${transaction.ynabImportRevision}:`
+    : `${IMPORT_ID_PREFIX}:`;
+  return prefix + transaction.id.substring(0, MAX_IMPORT_ID_LENGTH - prefix.length);
+}
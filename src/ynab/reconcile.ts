@@ -0,0 +1,167 @@
+import { Account, AccountType, TransactionClearedStatus, TransactionDetail } from 'ynab';
+import { Transaction } from '../types';
+import type { AccountBalance } from '../db/balances';
+
+// YNAB keeps what is owed on these as a negative balance; banks print it positive
+const LIABILITY_TYPES: string[] = [
+  AccountType.CreditCard,
+  AccountType.LineOfCredit,
+  AccountType.OtherLiability,
+  AccountType.Mortgage,
+  AccountType.AutoLoan,
+  AccountType.StudentLoan,
+  AccountType.PersonalLoan,
+  AccountType.MedicalDebt,
+  AccountType.OtherDebt,
+];
+
+/**
+ * A stored transaction with its YNAB sync state
+ */
+export interface LocalTransaction {
+  transaction: Transaction;
+  ynabId?: string;
+  syncError?: string;
+}
+
+export interface ReconcileInput {
+  account: Pick<Account, 'id' | 'name' | 'type' | 'cleared_balance'>;
+  bankAccounts: string[]; // Bank accounts mapped to the YNAB account
+  currency: string; // The YNAB account's currency
+  balance?: AccountBalance; // Latest bank balance in that currency
+  since: string; // Window for the missing lists (YYYY-MM-DD, inclusive)
+  until: string;
+  ynabTransactions: TransactionDetail[]; // The account's, from before both the window and the balance date
+  local: LocalTransaction[]; // Live transactions of the bank accounts in the window
+  linkedYnabIds: Set<string>; // Every YNAB id a stored transaction points to
+}
+
+export interface MissingInYNAB {
+  id: string;
+  account?: string;
+  date: string;
+  payee: string;
+  amount: number; // Signed, in the transaction's currency
+  currency: string;
+  reason: string;
+}
+
+export interface YNABOnly {
+  id: string;
+  date: string;
+  payee: string;
+  amount: number; // Signed, in the account's currency
+  cleared: string;
+}
+
+export interface AccountReconciliation {
+  ynabAccount: { id: string; name: string; type: string };
+  bankAccounts: string[];
+  currency: string;
+  balance?: AccountBalance;
+  bankBalance?: number; // The bank balance with YNAB's sign (negative when owed)
+  ynabCleared?: number; // YNAB's cleared balance on the bank balance's date
+  difference?: number; // ynabCleared - bankBalance
+  balanced: boolean;
+  missingInYNAB: MissingInYNAB[];
+  ynabOnly: YNABOnly[];
+  reconcilable: string[]; // Cleared YNAB ids with a stored source, up to the balance date
+}
+
+const toUnits = (milliunits: number) => Math.round(milliunits / 10) / 100;
+
+/**
+ * Why a stored transaction isn't in YNAB, or undefined if it is
+ */
+function missingReason(local: LocalTransaction, inYNAB: Set<string>): string | undefined {
+  if (local.ynabId) {
+    return inYNAB.has(local.ynabId) ? undefined : 'deleted in YNAB';
+  }
+  if (local.transaction.ynabHold === 'hold') return 'held for review';
+  if (local.syncError) return `sync failed: ${local.syncError}`;
+  return 'not pushed yet';
+}
+
+/**
+ * Compare a YNAB account with what the bank reported.
+ *
+ * The bank balance is compared with YNAB's cleared balance on the same date:
+ * today's cleared balance minus what cleared after that date. Within the
+ * window, stored transactions YNAB doesn't have and YNAB transactions no
+ * stored transaction points to are listed. Transfers created on the other
+ * side of a pushed transfer and YNAB's "Starting Balance" count as sourced.
+ */
+export function reconcileAccount(input: ReconcileInput): AccountReconciliation {
+  const { account, balance, since, until } = input;
+  const inWindow = (date: string) => date >= since && date <= until;
+  const inYNAB = new Set(input.ynabTransactions.map(transaction => transaction.id));
+
+  const result: AccountReconciliation = {
+    ynabAccount: { id: account.id, name: account.name, type: account.type },
+    bankAccounts: input.bankAccounts,
+    currency: input.currency,
+    balance,
+    bankBalance: undefined,
+    ynabCleared: undefined,
+    difference: undefined,
+    balanced: false,
+    missingInYNAB: [],
+    ynabOnly: [],
+    reconcilable: [],
+  };
+
+  if (balance) {
+    const clearedSince = input.ynabTransactions
+      .filter(transaction => transaction.cleared !== TransactionClearedStatus.Uncleared && transaction.date > balance.date)
+      .reduce((sum, transaction) => sum + transaction.amount, 0);
+
+    result.bankBalance = LIABILITY_TYPES.includes(account.type) ? -balance.amount : balance.amount;
+    result.ynabCleared = toUnits(account.cleared_balance - clearedSince);
+    result.difference = Math.round((result.ynabCleared - result.bankBalance) * 100) / 100;
+    result.balanced = Math.abs(result.difference) < 0.005;
+
+    if (result.balanced) {
+      result.reconcilable = input.ynabTransactions
+        .filter(transaction =>
+          transaction.cleared === TransactionClearedStatus.Cleared &&
+          transaction.date <= balance.date &&
+          input.linkedYnabIds.has(transaction.id)
+        )
+        .map(transaction => transaction.id);
+    }
+  }
+
+  for (const local of input.local) {
+    const { transaction } = local;
+    if (!inWindow(transaction.date) || transaction.ynabHold === 'skip') continue;
+
+    const reason = missingReason(local, inYNAB);
+    if (reason) {
+      result.missingInYNAB.push({
+        id: transaction.id,
+        account: transaction.account,
+        date: transaction.date,
+        payee: transaction.payee,
+        amount: transaction.direction === 'outflow' ? -transaction.amount : transaction.amount,
+        currency: transaction.currency,
+        reason,
+      });
+    }
+  }
+
+  for (const transaction of input.ynabTransactions) {
+    if (!inWindow(transaction.date) || input.linkedYnabIds.has(transaction.id)) continue;
+    if (transaction.transfer_transaction_id && input.linkedYnabIds.has(transaction.transfer_transaction_id)) continue;
+    if (transaction.payee_name === 'Starting Balance') continue;
+
+    result.ynabOnly.push({
+      id: transaction.id,
+      date: transaction.date,
+      payee: transaction.payee_name || '(no payee)',
+      amount: toUnits(transaction.amount),
+      cleared: transaction.cleared,
+    });
+  }
+
+  return result;
+}
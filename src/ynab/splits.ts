@@ -0,0 +1,28 @@
+/**
+ * Divide a milliunit total in proportion to the split amounts so the parts add
+ * up to the total exactly: each part is rounded down and the leftover
+ * milliunits go to the parts with the largest remainders. Signs follow the total.
+ */
+export function allocateMilliunits(totalMilliunits: number, amounts: number[]): number[] {
+  const sign = totalMilliunits < 0 ? -1 : 1;
+  const total = Math.abs(totalMilliunits);
+  const weight = amounts.reduce((sum, amount) => sum + amount, 0);
+  if (weight <= 0) {
+    throw new Error('Split amounts must add up to more than zero');
+  }
+
+  const exact = amounts.map(amount => (total * amount) / weight);
+  const parts = exact.map(Math.floor);
+  let leftover = total - parts.reduce((sum, part) => sum + part, 0);
+
+  const byRemainder = exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+  for (const { index } of byRemainder) {
+    if (leftover <= 0) break;
+    parts[index]++;
+    leftover--;
+  }
+
+  return parts.map(part => (part === 0 ? 0 : sign * part));
+}